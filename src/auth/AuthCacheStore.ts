@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import SecretBox from './SecretBox';
+
+/**
+ * AuthCacheStore
+ * Reads and writes the auth cache file safely
+ *
+ * Features:
+ * - Encryption at rest when a key is configured (WILLSUB_CACHE_KEY,
+ *   WILLSUB_CACHE_KEY_FILE or authentication.cacheKeyFile)
+ * - Atomic writes (temp file + rename) with mode 0600
+ * - Refuses to load a cache that is readable by group/others,
+ *   cannot be decrypted, or is unencrypted while a key is configured
+ * - A configured key that cannot be read disables the cache instead of failing
+ *   (see open); saving without a key is pointed out once
+ */
+
+export type CacheLoadResult<T> =
+  | { status: 'ok'; session: T }
+  | { status: 'missing' }
+  | { status: 'rejected'; reason: string };
+
+class AuthCacheStore<T> {
+  private filePath: string;
+  private key: string | null;
+  private disabledReason: string | null = null;
+  private warnedUnencrypted = false;
+
+  constructor(filePath: string, key: string | null = null) {
+    this.filePath = filePath;
+    this.key = key;
+  }
+
+  /**
+   * Create a store with the key from resolveKey
+   * - When the key cannot be read, the store is disabled: nothing is loaded or
+   *   saved, so every run logs in fresh rather than caching in plain text
+   */
+  public static open<T>(filePath: string, configKeyFile?: string): AuthCacheStore<T> {
+    try {
+      return new AuthCacheStore<T>(filePath, AuthCacheStore.resolveKey(configKeyFile));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Auth cache disabled - the cache key could not be read (${reason})`);
+      const store = new AuthCacheStore<T>(filePath);
+      store.disabledReason = reason;
+      return store;
+    }
+  }
+
+  /**
+   * Resolve the cache encryption key
+   * Priority: WILLSUB_CACHE_KEY > WILLSUB_CACHE_KEY_FILE > configured key file
+   * - Returns null when no key is configured (cache stays plain JSON)
+   */
+  public static resolveKey(configKeyFile?: string): string | null {
+    if (process.env.WILLSUB_CACHE_KEY) {
+      return process.env.WILLSUB_CACHE_KEY;
+    }
+
+    const keyFile = process.env.WILLSUB_CACHE_KEY_FILE || configKeyFile;
+    if (!keyFile) {
+      return null;
+    }
+
+    const key = fs.readFileSync(keyFile, 'utf-8').trim();
+    if (!key) {
+      throw new Error(`Cache key file is empty: ${keyFile}`);
+    }
+    if (AuthCacheStore.isTooOpen(keyFile)) {
+      console.warn(`⚠️ Cache key file ${keyFile} is readable by other users - run: chmod 600 ${keyFile}`);
+    }
+    return key;
+  }
+
+  /**
+   * Check if a file can be read or written by group/others
+   * - Always false on Windows, where POSIX modes are not meaningful
+   */
+  private static isTooOpen(filePath: string): boolean {
+    if (process.platform === 'win32') {
+      return false;
+    }
+    return (fs.statSync(filePath).mode & 0o077) !== 0;
+  }
+
+  /**
+   * Load the cached session
+   */
+  public load(): CacheLoadResult<T> {
+    if (this.disabledReason !== null || !fs.existsSync(this.filePath)) {
+      return { status: 'missing' };
+    }
+
+    try {
+      if (AuthCacheStore.isTooOpen(this.filePath)) {
+        const mode = (fs.statSync(this.filePath).mode & 0o777).toString(8);
+        return { status: 'rejected', reason: `permissions too open (${mode}, expected 600)` };
+      }
+
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+
+      if (SecretBox.isEnvelope(parsed)) {
+        if (!this.key) {
+          return { status: 'rejected', reason: 'cache is encrypted but no cache key is configured' };
+        }
+        return { status: 'ok', session: JSON.parse(SecretBox.decrypt(parsed, this.key)) as T };
+      }
+
+      if (this.key) {
+        return { status: 'rejected', reason: 'cache is not encrypted but a cache key is configured' };
+      }
+      return { status: 'ok', session: parsed as T };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { status: 'rejected', reason: errorMessage };
+    }
+  }
+
+  /**
+   * Save the session atomically with owner-only permissions
+   * - Does nothing while the store is disabled
+   */
+  public save(session: T): void {
+    if (this.disabledReason !== null) {
+      return;
+    }
+    if (!this.key && !this.warnedUnencrypted) {
+      this.warnedUnencrypted = true;
+      console.warn('⚠️ Auth cache is saved unencrypted - set WILLSUB_CACHE_KEY or authentication.cacheKeyFile to encrypt it');
+    }
+
+    const json = JSON.stringify(session);
+    const content = this.key ? JSON.stringify(SecretBox.encrypt(json, this.key)) : json;
+    const tempPath = path.join(
+      path.dirname(this.filePath),
+      `.${path.basename(this.filePath)}.${process.pid}.tmp`
+    );
+
+    try {
+      fs.writeFileSync(tempPath, content, { mode: 0o600 });
+      // The mode option is subject to umask and ignored for existing files
+      fs.chmodSync(tempPath, 0o600);
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the cache file
+   * - Returns true if a file was removed
+   */
+  public clear(): boolean {
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Check if sessions are loaded and saved at all
+   */
+  public isEnabled(): boolean {
+    return this.disabledReason === null;
+  }
+
+  /**
+   * Check if the cache is encrypted at rest
+   */
+  public isEncrypted(): boolean {
+    return this.key !== null;
+  }
+}
+
+export default AuthCacheStore;
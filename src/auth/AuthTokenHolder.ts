@@ -0,0 +1,48 @@
+/**
+ * AuthTokenHolder
+ * Holds the current bearer token for everything that calls the API in a cycle
+ *
+ * Usage:
+ * - The auth module updates it whenever it obtains a new token
+ * - The HTTP auth interceptor reads get() right before each request
+ * - On a 401, the interceptor calls refresh(staleToken); the auth module coalesces
+ *   concurrent refreshes into one re-authentication and every caller gets its token
+ */
+
+export type TokenRefresher = (staleToken: string | null) => Promise<string | null>;
+
+class AuthTokenHolder {
+  private token: string | null = null;
+  private refresher: TokenRefresher | null;
+
+  constructor(refresher?: TokenRefresher) {
+    this.refresher = refresher || null;
+  }
+
+  /**
+   * Get the current token (null before the first login)
+   */
+  public get(): string | null {
+    return this.token;
+  }
+
+  /**
+   * Replace the current token
+   */
+  public set(token: string | null): void {
+    this.token = token;
+  }
+
+  /**
+   * Get a token newer than staleToken
+   * - Returns null if re-authentication failed
+   */
+  public async refresh(staleToken: string | null = this.token): Promise<string | null> {
+    if (!this.refresher) {
+      return null;
+    }
+    return this.refresher(staleToken);
+  }
+}
+
+export default AuthTokenHolder;
@@ -0,0 +1,99 @@
+import { execFile } from 'child_process';
+import { CredentialProvider } from './CredentialProvider';
+import { LoginCredentials } from './LoginStrategy';
+
+/**
+ * CommandCredentialProvider
+ * Reads credentials from the stdout of an external command (e.g. `pass show willsub`)
+ *
+ * Accepted output:
+ * - JSON: {"username": "...", "password": "...", "totpSecret": "..."}
+ * - pass style: password on the first line, then optional "key: value" lines
+ *   (username/user/login, totp/otp, or an otpauth:// URI as written by pass-otp)
+ *
+ * The username falls back to the configured one when the output has none.
+ * The command runs through /bin/sh and is killed after the timeout.
+ */
+
+export interface CommandCredentialOptions {
+  command: string;
+  timeoutSeconds?: number; // Default: 15
+  fallbackUsername?: string;
+}
+
+class CommandCredentialProvider implements CredentialProvider {
+  public readonly name = 'command' as const;
+  private options: CommandCredentialOptions;
+
+  constructor(options: CommandCredentialOptions) {
+    this.options = options;
+  }
+
+  public async getCredentials(): Promise<LoginCredentials> {
+    const output = await this.run();
+    const credentials = this.parse(output);
+
+    if (!credentials.password) {
+      throw new Error('Credential command printed no password');
+    }
+    return {
+      username: credentials.username || this.options.fallbackUsername || '',
+      password: credentials.password,
+      totpSecret: credentials.totpSecret
+    };
+  }
+
+  /**
+   * Run the command and return its stdout
+   * - stderr is not included in the error, since it may echo secrets
+   */
+  private run(): Promise<string> {
+    const timeout = (this.options.timeoutSeconds ?? 15) * 1000;
+
+    return new Promise((resolve, reject) => {
+      execFile('/bin/sh', ['-c', this.options.command], { timeout, maxBuffer: 64 * 1024 }, (error, stdout) => {
+        if (error) {
+          const reason = error.killed ? `timed out after ${timeout / 1000}s` : `exited with code ${error.code}`;
+          reject(new Error(`Credential command ${reason}`));
+          return;
+        }
+        resolve(String(stdout));
+      });
+    });
+  }
+
+  /**
+   * Parse JSON or pass-style output
+   */
+  private parse(output: string): Partial<LoginCredentials> {
+    const trimmed = output.trim();
+
+    if (trimmed.startsWith('{')) {
+      try {
+        const data = JSON.parse(trimmed);
+        return { username: data.username, password: data.password, totpSecret: data.totpSecret };
+      } catch (error) {
+        throw new Error('Credential command printed invalid JSON');
+      }
+    }
+
+    const [password, ...lines] = trimmed.split(/\r?\n/);
+    const credentials: Partial<LoginCredentials> = { password };
+    for (const line of lines) {
+      const match = line.match(/^\s*([\w-]+)\s*:\s*(.+?)\s*$/);
+      if (!match) continue;
+      const key = match[1].toLowerCase();
+      if (key === 'username' || key === 'user' || key === 'login') {
+        credentials.username = match[2];
+      } else if (key === 'totp' || key === 'otp') {
+        credentials.totpSecret = match[2];
+      } else if (key === 'otpauth') {
+        // pass-otp stores a full otpauth:// URI
+        credentials.totpSecret = new URL(`otpauth:${match[2]}`).searchParams.get('secret') || undefined;
+      }
+    }
+    return credentials;
+  }
+}
+
+export default CommandCredentialProvider;
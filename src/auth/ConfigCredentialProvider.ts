@@ -0,0 +1,31 @@
+import ConfigManager from '../config/ConfigManager';
+import { CredentialProvider } from './CredentialProvider';
+import { LoginCredentials } from './LoginStrategy';
+
+/**
+ * ConfigCredentialProvider
+ * Reads credentials from config.json (default provider)
+ *
+ * WILLSUB_USERNAME, WILLSUB_PASSWORD and WILLSUB_TOTP_SECRET override the
+ * file values (see ConfigManager.applyEnvironmentOverrides).
+ */
+
+class ConfigCredentialProvider implements CredentialProvider {
+  public readonly name = 'config' as const;
+  private configManager: ConfigManager;
+
+  constructor(configManager: ConfigManager = ConfigManager.getInstance()) {
+    this.configManager = configManager;
+  }
+
+  public async getCredentials(): Promise<LoginCredentials> {
+    const creds = this.configManager.get('credentials');
+    return {
+      username: creds?.username || '',
+      password: creds?.password || '',
+      totpSecret: creds?.totpSecret
+    };
+  }
+}
+
+export default ConfigCredentialProvider;
@@ -0,0 +1,27 @@
+import { LoginCredentials } from './LoginStrategy';
+
+/**
+ * CredentialProvider
+ * Common interface for the places login credentials can come from
+ *
+ * Providers:
+ * - config: config.json credentials (with WILLSUB_USERNAME/WILLSUB_PASSWORD overrides)
+ * - file: one secret per file, e.g. Docker/Kubernetes secrets (WILLSUB_*_FILE)
+ * - vault: a local file encrypted with a passphrase
+ * - command: the stdout of an external command such as `pass show willsub`
+ *
+ * Credentials are requested at login time, so a rotated secret is picked up
+ * without restarting.
+ */
+
+export type CredentialProviderName = 'config' | 'file' | 'vault' | 'command';
+
+export interface CredentialProvider {
+  readonly name: CredentialProviderName;
+
+  /**
+   * Read the current credentials
+   * - Throws with a descriptive message if they cannot be read
+   */
+  getCredentials(): Promise<LoginCredentials>;
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import { CredentialProvider } from './CredentialProvider';
+import { LoginCredentials } from './LoginStrategy';
+
+/**
+ * FileCredentialProvider
+ * Reads each secret from its own file, as Docker and Kubernetes mount secrets
+ *
+ * Paths (environment wins over config):
+ * - WILLSUB_USERNAME_FILE / usernameFile (optional, falls back to the configured username)
+ * - WILLSUB_PASSWORD_FILE / passwordFile (required)
+ * - WILLSUB_TOTP_SECRET_FILE / totpSecretFile (optional)
+ *
+ * Surrounding whitespace, including the trailing newline most editors add, is ignored.
+ */
+
+export interface FileCredentialOptions {
+  usernameFile?: string;
+  passwordFile?: string;
+  totpSecretFile?: string;
+  fallbackUsername?: string;
+}
+
+class FileCredentialProvider implements CredentialProvider {
+  public readonly name = 'file' as const;
+  private options: FileCredentialOptions;
+
+  constructor(options: FileCredentialOptions = {}) {
+    this.options = options;
+  }
+
+  public async getCredentials(): Promise<LoginCredentials> {
+    const usernameFile = process.env.WILLSUB_USERNAME_FILE || this.options.usernameFile;
+    const passwordFile = process.env.WILLSUB_PASSWORD_FILE || this.options.passwordFile;
+    const totpSecretFile = process.env.WILLSUB_TOTP_SECRET_FILE || this.options.totpSecretFile;
+
+    if (!passwordFile) {
+      throw new Error('File credential provider needs WILLSUB_PASSWORD_FILE or credentialProvider.passwordFile');
+    }
+
+    return {
+      username: usernameFile ? this.readSecret(usernameFile) : this.options.fallbackUsername || '',
+      password: this.readSecret(passwordFile),
+      totpSecret: totpSecretFile ? this.readSecret(totpSecretFile) : undefined
+    };
+  }
+
+  private readSecret(filePath: string): string {
+    let value: string;
+    try {
+      value = fs.readFileSync(filePath, 'utf-8').trim();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read secret file ${filePath}: ${errorMessage}`);
+    }
+    if (!value) {
+      throw new Error(`Secret file is empty: ${filePath}`);
+    }
+    return value;
+  }
+}
+
+export default FileCredentialProvider;
@@ -0,0 +1,287 @@
+import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
+import { CookieJar } from 'tough-cookie';
+import OidcTokenClient from './OidcTokenClient';
+import TotpGenerator from './TotpGenerator';
+import LoginDiagnostics from './LoginDiagnostics';
+import { AuthenticatedSession, LoginCredentials, LoginError, LoginStrategy } from './LoginStrategy';
+
+/**
+ * HttpLoginStrategy
+ * Logs in with the OIDC authorization-code flow (PKCE) using plain HTTP
+ *
+ * Flow:
+ * 1. GET the authorization endpoint and follow redirects to the Keycloak login form
+ * 2. Parse the form action from the HTML and POST the credentials
+ *    (and a TOTP code if Keycloak shows its OTP form)
+ * 3. Catch the redirect back to the app and read the authorization code
+ * 4. Exchange the code for tokens at the token endpoint
+ *
+ * Why?
+ * - No Chromium needed, so it runs on small hosts and in CI
+ * - Takes a few hundred milliseconds instead of several seconds
+ */
+
+export interface HttpLoginOptions {
+  issuer: string; // e.g. https://auth.example.com/realms/district
+  clientId: string;
+  redirectUri: string; // Must be registered for the client in Keycloak
+  tokenEndpoint?: string; // Default: derived from the issuer
+  scope?: string;
+}
+
+interface HttpPage {
+  kind: 'page';
+  url: string;
+  status: number;
+  body: string;
+}
+
+interface Callback {
+  kind: 'callback';
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+class HttpLoginStrategy implements LoginStrategy {
+  public readonly name = 'http' as const;
+  private options: HttpLoginOptions;
+  private axiosInstance: AxiosInstance;
+  private maxRedirects: number = 10;
+
+  constructor(options: HttpLoginOptions, axiosInstance?: AxiosInstance) {
+    this.options = options;
+    this.axiosInstance = axiosInstance || axios.create();
+  }
+
+  /**
+   * Log in over HTTP
+   */
+  public async authenticate(credentials: LoginCredentials, diagnostics?: LoginDiagnostics): Promise<AuthenticatedSession> {
+    const jar = new CookieJar();
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const state = crypto.randomBytes(16).toString('hex');
+
+    const authorizationUrl = new URL(`${this.options.issuer.replace(/\/+$/, '')}/protocol/openid-connect/auth`);
+    authorizationUrl.search = new URLSearchParams({
+      client_id: this.options.clientId,
+      redirect_uri: this.options.redirectUri,
+      response_type: 'code',
+      response_mode: 'query',
+      scope: this.options.scope || 'openid',
+      state,
+      nonce: crypto.randomBytes(16).toString('hex'),
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    }).toString();
+
+    /**
+     * Step 1: Follow redirects to the login form
+     */
+    console.log('🔐 Requesting Keycloak login form...');
+    let result = await this.request(jar, 'GET', authorizationUrl.toString(), undefined, diagnostics);
+
+    /**
+     * Step 2: Post the credentials (skipped if Keycloak still has an SSO session)
+     */
+    if (result.kind === 'page') {
+      const action = this.parseFormAction(result.body, 'kc-form-login');
+      if (!action) {
+        throw new Error(`Login form not found at ${result.url} (HTTP ${result.status})`);
+      }
+
+      console.log('🚀 Submitting login form...');
+      diagnostics?.step('submit', 'username, password');
+      result = await this.request(jar, 'POST', new URL(action, result.url).toString(), {
+        username: credentials.username,
+        password: credentials.password,
+        credentialId: ''
+      }, diagnostics);
+    }
+
+    /**
+     * Step 2b: Answer the OTP step if two-factor is enabled for the account
+     */
+    if (result.kind === 'page') {
+      const otpAction = this.parseFormAction(result.body, 'kc-otp-login-form');
+      if (otpAction) {
+        if (!credentials.totpSecret) {
+          throw new LoginError('otp_required', 'Keycloak requested a one-time code but no TOTP secret is configured (set WILLSUB_TOTP_SECRET)');
+        }
+
+        console.log('🔢 Submitting one-time code...');
+        const code = await new TotpGenerator(credentials.totpSecret).generateFresh();
+        diagnostics?.addSecret(code);
+        diagnostics?.step('submit one-time code', 'otp');
+        result = await this.request(jar, 'POST', new URL(otpAction, result.url).toString(), { otp: code }, diagnostics);
+
+        if (result.kind === 'page' && this.parseFormAction(result.body, 'kc-otp-login-form')) {
+          const feedback = this.parseFeedback(result.body);
+          throw new LoginError('otp_rejected', `One-time code rejected${feedback ? `: ${feedback}` : ''}`);
+        }
+      }
+    }
+
+    if (result.kind === 'page') {
+      const feedback = this.parseFeedback(result.body);
+      throw new Error(feedback ? `Login rejected: ${feedback}` : `Login did not complete (HTTP ${result.status})`);
+    }
+    if (result.error || !result.code) {
+      throw new Error(`Authorization failed: ${result.error || 'no authorization code returned'}`);
+    }
+    if (result.state !== state) {
+      throw new Error('Authorization response state mismatch');
+    }
+
+    /**
+     * Step 3: Exchange the code for tokens
+     */
+    console.log('🔑 Exchanging authorization code for tokens...');
+    diagnostics?.step('extract tokens', 'authorization code exchange');
+    const tokenClient = new OidcTokenClient(
+      this.options.tokenEndpoint || OidcTokenClient.tokenEndpointForIssuer(this.options.issuer),
+      this.options.clientId,
+      this.axiosInstance
+    );
+    const tokens = await tokenClient.exchangeCode(result.code, this.options.redirectUri, codeVerifier);
+
+    diagnostics?.step('tokens extracted', `refresh token ${tokens.refreshToken ? 'found' : 'missing'}`);
+
+    const cookies = await jar.getCookies(this.options.redirectUri);
+    console.log(`✓ Login complete! Obtained ${cookies.length} cookies`);
+
+    return {
+      cookies: cookies.map(c => c.cookieString()).join('; '),
+      cookieExpiries: cookies
+        .map(c => c.expiryTime())
+        .filter((expiry): expiry is number => typeof expiry === 'number' && isFinite(expiry)),
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      refreshExpiresIn: tokens.refreshExpiresIn
+    };
+  }
+
+  /**
+   * Perform a request with the cookie jar, following redirects manually
+   * - Stops at the redirect back to redirectUri and returns its query parameters
+   * - Each hop is traced, and the final page kept, when diagnostics are given
+   */
+  private async request(
+    jar: CookieJar,
+    method: 'GET' | 'POST',
+    url: string,
+    form?: { [key: string]: string },
+    diagnostics?: LoginDiagnostics
+  ): Promise<HttpPage | Callback> {
+    let currentUrl = url;
+    let currentMethod = method;
+    let body = form ? new URLSearchParams(form).toString() : undefined;
+
+    for (let hop = 0; hop <= this.maxRedirects; hop++) {
+      const callback = this.parseCallback(currentUrl);
+      if (callback) {
+        return callback;
+      }
+
+      const response = await this.axiosInstance.request({
+        method: currentMethod,
+        url: currentUrl,
+        data: body,
+        headers: {
+          'Cookie': await jar.getCookieString(currentUrl),
+          'Accept': 'text/html,application/xhtml+xml',
+          ...(body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {})
+        },
+        maxRedirects: 0,
+        responseType: 'text',
+        timeout: 30000,
+        validateStatus: () => true
+      });
+
+      diagnostics?.step(`${currentMethod} ${currentUrl}`, `HTTP ${response.status}`);
+
+      const setCookie = response.headers['set-cookie'] || [];
+      for (const cookie of setCookie) {
+        await jar.setCookie(cookie, currentUrl, { ignoreError: true });
+      }
+
+      const location = response.headers['location'];
+      if (response.status >= 300 && response.status < 400 && location) {
+        currentUrl = new URL(location, currentUrl).toString();
+        // 301/302/303 after a POST become a GET
+        if (response.status !== 307 && response.status !== 308) {
+          currentMethod = 'GET';
+          body = undefined;
+        }
+        continue;
+      }
+
+      const page: HttpPage = { kind: 'page', url: currentUrl, status: response.status, body: String(response.data || '') };
+      diagnostics?.capturePage({ url: page.url, html: page.body });
+      return page;
+    }
+
+    throw new Error(`Too many redirects (more than ${this.maxRedirects})`);
+  }
+
+  /**
+   * If the URL is the redirect back to the app, return its code/state/error
+   */
+  private parseCallback(url: string): Callback | null {
+    const redirect = new URL(this.options.redirectUri);
+    const current = new URL(url);
+    if (current.origin !== redirect.origin || current.pathname !== redirect.pathname) {
+      return null;
+    }
+    if (!current.searchParams.has('code') && !current.searchParams.has('error')) {
+      return null;
+    }
+    return {
+      kind: 'callback',
+      code: current.searchParams.get('code') || undefined,
+      state: current.searchParams.get('state') || undefined,
+      error: current.searchParams.get('error_description') || current.searchParams.get('error') || undefined
+    };
+  }
+
+  /**
+   * Find a form by id in an HTML page and return its action attribute
+   */
+  private parseFormAction(html: string, formId: string): string | null {
+    const forms = html.match(/<form\b[^>]*>/gi) || [];
+    const form = forms.find(tag => new RegExp(`\\bid=["']${formId}["']`, 'i').test(tag));
+    const action = form?.match(/\baction=["']([^"']*)["']/i)?.[1];
+    return action ? this.decodeHtmlEntities(action) : null;
+  }
+
+  /**
+   * Extract Keycloak's error message (e.g. "Invalid username or password.")
+   */
+  private parseFeedback(html: string): string | null {
+    const match = html.match(/<span[^>]*(?:id=["']input-error["']|class=["'][^"']*kc-feedback-text[^"']*["'])[^>]*>([\s\S]*?)<\/span>/i);
+    return match ? this.decodeHtmlEntities(match[1].replace(/<[^>]*>/g, '').trim()) : null;
+  }
+
+  /**
+   * Decode the HTML entities Keycloak uses in attribute values and messages
+   */
+  private decodeHtmlEntities(text: string): string {
+    return text
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&#x27;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Nothing to release - each login uses a fresh cookie jar
+   */
+  public async close(): Promise<void> {
+    return;
+  }
+}
+
+export default HttpLoginStrategy;
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * LoginDiagnostics
+ * Collects evidence while a login runs and writes it out when the login fails
+ *
+ * Saved per failed attempt (one folder each, under the log directory):
+ * - trace.log: timestamped steps (goto, form fill, submit, token extraction)
+ * - console.log: browser console messages and page errors
+ * - url.txt: the URL the login ended on
+ * - page.html: the page HTML at the time of failure
+ * - screenshot.png: a screenshot (browser strategy only)
+ * - error.txt: the error message
+ *
+ * Secrets (username, password, TOTP secret and codes, JWTs, OAuth codes) are redacted
+ * from every text file before it is written.
+ */
+
+interface TraceEntry {
+  at: number; // ms since epoch
+  step: string;
+  detail?: string;
+}
+
+export interface PageSnapshot {
+  url?: string;
+  html?: string;
+  screenshot?: Buffer;
+}
+
+class LoginDiagnostics {
+  private baseDirectory: string;
+  private label: string;
+  private startedAt: number = Date.now();
+  private trace: TraceEntry[] = [];
+  private consoleMessages: string[] = [];
+  private snapshot: PageSnapshot = {};
+  private secrets: string[] = [];
+
+  constructor(baseDirectory: string, label: string) {
+    this.baseDirectory = baseDirectory;
+    this.label = label;
+  }
+
+  /**
+   * Register a value that must never appear in the saved files
+   */
+  public addSecret(value?: string | null): void {
+    if (value && value.length >= 4 && !this.secrets.includes(value)) {
+      this.secrets.push(value);
+    }
+  }
+
+  /**
+   * Record a login step
+   */
+  public step(step: string, detail?: string): void {
+    this.trace.push({ at: Date.now(), step, detail });
+  }
+
+  /**
+   * Record a browser console message or page error
+   */
+  public addConsoleMessage(type: string, text: string): void {
+    this.consoleMessages.push(`${new Date().toISOString()} [${type}] ${text}`);
+  }
+
+  /**
+   * Record the state of the page (latest call wins)
+   */
+  public capturePage(snapshot: PageSnapshot): void {
+    this.snapshot = { ...this.snapshot, ...snapshot };
+  }
+
+  /**
+   * Write everything collected to a new folder
+   * - Returns the folder path, or null if it could not be written
+   */
+  public save(errorMessage: string): string | null {
+    const timestamp = new Date(this.startedAt).toISOString().replace(/[:.]/g, '-');
+    const directory = path.join(this.baseDirectory, `${timestamp}-${this.label}`);
+
+    try {
+      fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+
+      const traceLines = this.trace.map(entry => {
+        const elapsed = ((entry.at - this.startedAt) / 1000).toFixed(2);
+        const detail = entry.detail ? ` - ${entry.detail}` : '';
+        return `${new Date(entry.at).toISOString()} (+${elapsed}s) ${entry.step}${detail}`;
+      });
+
+      this.writeText(directory, 'error.txt', errorMessage);
+      this.writeText(directory, 'trace.log', traceLines.join('\n'));
+      this.writeText(directory, 'console.log', this.consoleMessages.join('\n'));
+      if (this.snapshot.url) {
+        this.writeText(directory, 'url.txt', this.snapshot.url);
+      }
+      if (this.snapshot.html) {
+        this.writeText(directory, 'page.html', this.snapshot.html);
+      }
+      if (this.snapshot.screenshot) {
+        fs.writeFileSync(path.join(directory, 'screenshot.png'), this.snapshot.screenshot, { mode: 0o600 });
+      }
+
+      console.log(`🩺 Login diagnostics saved to ${directory}`);
+      return directory;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Could not save login diagnostics: ${errorMessage}`);
+      return null;
+    }
+  }
+
+  /**
+   * Remove secrets from text
+   * - Registered secrets are replaced wherever they appear
+   * - JWTs and OAuth/Keycloak query parameters are masked by pattern
+   */
+  public redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join('[REDACTED]');
+    }
+    return result
+      .replace(/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, '[REDACTED_JWT]')
+      .replace(/([?&](?:code|session_code|state|tab_id|access_token|refresh_token|id_token)=)[^&#\s"'<]+/gi, '$1[REDACTED]');
+  }
+
+  private writeText(directory: string, fileName: string, content: string): void {
+    fs.writeFileSync(path.join(directory, fileName), this.redact(content), { mode: 0o600 });
+  }
+}
+
+export default LoginDiagnostics;
@@ -0,0 +1,65 @@
+/**
+ * LoginStrategy
+ * Common interface for the ways we can log in to WillSub's Keycloak realm
+ *
+ * Strategies:
+ * - puppeteer: drives a headless Chromium through the login page
+ * - http: performs the OIDC authorization-code flow with plain HTTP requests
+ *
+ * A strategy only performs the interactive login. Caching, token refresh
+ * and user ID extraction stay in PuppeteerAuthModule.
+ */
+
+import LoginDiagnostics from './LoginDiagnostics';
+
+export type LoginStrategyName = 'puppeteer' | 'http';
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+  totpSecret?: string; // Base32 secret for Keycloak's OTP step
+}
+
+/**
+ * Why a login failed, when the strategy can tell
+ * - otp_required: Keycloak asked for a one-time code and no TOTP secret is configured
+ * - otp_rejected: the generated one-time code was not accepted
+ */
+export type LoginFailureReason = 'otp_required' | 'otp_rejected';
+
+/**
+ * Error thrown by a strategy for a failure with a known reason
+ */
+export class LoginError extends Error {
+  public readonly reason: LoginFailureReason;
+
+  constructor(reason: LoginFailureReason, message: string) {
+    super(message);
+    this.name = 'LoginError';
+    this.reason = reason;
+  }
+}
+
+export interface AuthenticatedSession {
+  cookies: string; // Cookie header value for the WillSub origin
+  cookieExpiries: number[]; // Expiry of each persistent cookie (ms since epoch)
+  accessToken: string;
+  refreshToken?: string;
+  refreshExpiresIn?: number; // seconds
+}
+
+export interface LoginStrategy {
+  readonly name: LoginStrategyName;
+
+  /**
+   * Log in and return the resulting session
+   * - Throws with a descriptive message on failure
+   * - Records steps and the failing page into diagnostics when given
+   */
+  authenticate(credentials: LoginCredentials, diagnostics?: LoginDiagnostics): Promise<AuthenticatedSession>;
+
+  /**
+   * Release any resources held by the strategy (e.g. the browser)
+   */
+  close(): Promise<void>;
+}
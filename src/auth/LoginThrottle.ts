@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+
+/**
+ * LoginThrottle
+ * Tracks consecutive failed logins on disk and decides when the next one may run
+ *
+ * Rules:
+ * - After each failure, wait baseDelay * 2^(failures - 1), capped at maxDelay
+ * - After maxConsecutiveFailures, stop logging in until an operator clears
+ *   the lockout (clear() / --clear-login-lockout, or delete the state file)
+ * - A successful login resets everything
+ *
+ * Why?
+ * - A wrong password retried every polling cycle can lock the WillSub account
+ *   within minutes; the state survives restarts so a crash loop can't do it either
+ */
+
+export interface LoginThrottleOptions {
+  baseDelaySeconds?: number; // Default: 60
+  maxDelaySeconds?: number; // Default: 3600
+  maxConsecutiveFailures?: number; // Default: 5
+}
+
+export interface LoginThrottleState {
+  consecutiveFailures: number;
+  lastFailureAt: number; // ms since epoch
+  lastError: string;
+  lockedAt?: number; // ms since epoch, set once maxConsecutiveFailures is reached
+  lockoutAlertSent?: boolean;
+}
+
+export type LoginThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'backoff'; retryAt: number; state: LoginThrottleState }
+  | { allowed: false; reason: 'locked_out'; state: LoginThrottleState };
+
+class LoginThrottle {
+  private filePath: string;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxConsecutiveFailures: number;
+
+  constructor(filePath: string, options: LoginThrottleOptions = {}) {
+    this.filePath = filePath;
+    this.baseDelayMs = (options.baseDelaySeconds ?? 60) * 1000;
+    this.maxDelayMs = (options.maxDelaySeconds ?? 3600) * 1000;
+    this.maxConsecutiveFailures = Math.max(1, options.maxConsecutiveFailures ?? 5);
+  }
+
+  /**
+   * Decide whether a login attempt may run now
+   */
+  public check(now: number = Date.now()): LoginThrottleDecision {
+    const state = this.load();
+    if (!state) {
+      return { allowed: true };
+    }
+    if (state.lockedAt) {
+      return { allowed: false, reason: 'locked_out', state };
+    }
+
+    const retryAt = state.lastFailureAt + this.getDelayMs(state.consecutiveFailures);
+    if (now < retryAt) {
+      return { allowed: false, reason: 'backoff', retryAt, state };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Record a failed login
+   * - Returns the new state (lockedAt is set when the limit was reached)
+   */
+  public recordFailure(errorMessage: string, now: number = Date.now()): LoginThrottleState {
+    const previous = this.load();
+    const state: LoginThrottleState = {
+      consecutiveFailures: (previous?.consecutiveFailures || 0) + 1,
+      lastFailureAt: now,
+      lastError: errorMessage
+    };
+    if (state.consecutiveFailures >= this.maxConsecutiveFailures) {
+      state.lockedAt = previous?.lockedAt || now;
+    }
+    this.save(state);
+    return state;
+  }
+
+  /**
+   * Record a successful login (resets the failure count)
+   */
+  public recordSuccess(): void {
+    this.clear();
+  }
+
+  /**
+   * Mark the lockout alert as sent
+   * - Returns true only the first time, so the alert goes out once per lockout
+   */
+  public claimLockoutAlert(): boolean {
+    const state = this.load();
+    if (!state?.lockedAt || state.lockoutAlertSent) {
+      return false;
+    }
+    this.save({ ...state, lockoutAlertSent: true });
+    return true;
+  }
+
+  /**
+   * Clear failures and any lockout (operator action)
+   * - Returns true if there was anything to clear
+   */
+  public clear(): boolean {
+    if (!fs.existsSync(this.filePath)) {
+      return false;
+    }
+    fs.unlinkSync(this.filePath);
+    return true;
+  }
+
+  /**
+   * Backoff after the given number of consecutive failures
+   */
+  public getDelayMs(consecutiveFailures: number): number {
+    if (consecutiveFailures <= 0) {
+      return 0;
+    }
+    return Math.min(this.baseDelayMs * 2 ** (consecutiveFailures - 1), this.maxDelayMs);
+  }
+
+  public getMaxConsecutiveFailures(): number {
+    return this.maxConsecutiveFailures;
+  }
+
+  /**
+   * Read the persisted state (null when there are no recorded failures)
+   * - An unreadable file is treated as a lockout rather than a clean slate
+   */
+  public load(): LoginThrottleState | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+    try {
+      const state = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (typeof state?.consecutiveFailures !== 'number') {
+        throw new Error('missing consecutiveFailures');
+      }
+      return state;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        consecutiveFailures: this.maxConsecutiveFailures,
+        lastFailureAt: 0,
+        lastError: `Unreadable login throttle state (${errorMessage})`,
+        lockedAt: Date.now()
+      };
+    }
+  }
+
+  private save(state: LoginThrottleState): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+export default LoginThrottle;
@@ -0,0 +1,153 @@
+import axios, { AxiosInstance } from 'axios';
+
+/**
+ * OidcTokenClient
+ * Talks to the Keycloak (OIDC) token endpoint over plain HTTP
+ *
+ * Features:
+ * - Renew an access token with the refresh_token grant
+ * - Exchange an authorization code for tokens
+ * - Derive the token endpoint and client ID from an access token (iss/azp claims)
+ * - Distinguish a rejected refresh token from a transient endpoint failure
+ *
+ * Why?
+ * - Renewing a token this way takes milliseconds and no browser,
+ *   compared to a full headless Chromium login
+ */
+
+export interface OidcTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresIn?: number; // seconds
+  refreshExpiresIn?: number; // seconds
+}
+
+/**
+ * Error raised by the token endpoint
+ * - `rejected` is true when the server refused the grant itself (4xx),
+ *   e.g. an expired or revoked refresh token
+ * - `rejected` is false for network errors and 5xx responses
+ */
+export class OidcTokenError extends Error {
+  public readonly status?: number;
+  public readonly oauthError?: string;
+  public readonly rejected: boolean;
+
+  constructor(message: string, rejected: boolean, status?: number, oauthError?: string) {
+    super(message);
+    this.name = 'OidcTokenError';
+    this.rejected = rejected;
+    this.status = status;
+    this.oauthError = oauthError;
+  }
+}
+
+class OidcTokenClient {
+  private tokenEndpoint: string;
+  private clientId: string;
+  private axiosInstance: AxiosInstance;
+
+  constructor(tokenEndpoint: string, clientId: string, axiosInstance?: AxiosInstance) {
+    this.tokenEndpoint = tokenEndpoint;
+    this.clientId = clientId;
+    this.axiosInstance = axiosInstance || axios.create();
+  }
+
+  /**
+   * Build the Keycloak token endpoint from an issuer URL
+   * e.g. https://auth.example.com/realms/district -> .../protocol/openid-connect/token
+   */
+  public static tokenEndpointForIssuer(issuer: string): string {
+    return `${issuer.replace(/\/+$/, '')}/protocol/openid-connect/token`;
+  }
+
+  /**
+   * Exchange a refresh token for a new token set
+   * - Throws OidcTokenError on failure
+   */
+  public async refresh(refreshToken: string): Promise<OidcTokenSet> {
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: this.clientId,
+      refresh_token: refreshToken
+    });
+
+    return this.requestTokens(body);
+  }
+
+  /**
+   * Exchange an authorization code for tokens (authorization-code flow with PKCE)
+   * - Throws OidcTokenError on failure
+   */
+  public async exchangeCode(code: string, redirectUri: string, codeVerifier: string): Promise<OidcTokenSet> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      client_id: this.clientId,
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier
+    });
+
+    return this.requestTokens(body);
+  }
+
+  /**
+   * POST a grant to the token endpoint and parse the token response
+   */
+  protected async requestTokens(body: URLSearchParams): Promise<OidcTokenSet> {
+    let response;
+    try {
+      response = await this.axiosInstance.post(this.tokenEndpoint, body.toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json'
+        },
+        timeout: 15000,
+        validateStatus: () => true
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new OidcTokenError(`Token endpoint unreachable: ${errorMessage}`, false);
+    }
+
+    const data = response.data || {};
+
+    if (response.status >= 400 && response.status < 500) {
+      const description = data.error_description || data.error || `HTTP ${response.status}`;
+      throw new OidcTokenError(`Token request rejected: ${description}`, true, response.status, data.error);
+    }
+
+    if (response.status !== 200) {
+      throw new OidcTokenError(`Token endpoint returned ${response.status}`, false, response.status);
+    }
+
+    if (!data.access_token) {
+      throw new OidcTokenError('Token response did not contain an access_token', false, response.status);
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      idToken: data.id_token,
+      expiresIn: data.expires_in,
+      refreshExpiresIn: data.refresh_expires_in
+    };
+  }
+
+  /**
+   * Get the configured token endpoint
+   */
+  public getTokenEndpoint(): string {
+    return this.tokenEndpoint;
+  }
+
+  /**
+   * Get the configured client ID
+   */
+  public getClientId(): string {
+    return this.clientId;
+  }
+}
+
+export default OidcTokenClient;
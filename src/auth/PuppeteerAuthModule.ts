@@ -1,15 +1,41 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import * as path from 'path';
+import { Browser, Page } from 'puppeteer';
 import ConfigManager from '../config/ConfigManager';
-import * as fs from 'fs';
+import OidcTokenClient, { OidcTokenError } from './OidcTokenClient';
+import AuthCacheStore from './AuthCacheStore';
+import { LoginError, LoginFailureReason, LoginStrategy } from './LoginStrategy';
+import PuppeteerLoginStrategy from './PuppeteerLoginStrategy';
+import HttpLoginStrategy from './HttpLoginStrategy';
+import LoginDiagnostics from './LoginDiagnostics';
+import LoginThrottle, { LoginThrottleState } from './LoginThrottle';
+import AuthTokenHolder from './AuthTokenHolder';
+import { CredentialProvider } from './CredentialProvider';
+import ConfigCredentialProvider from './ConfigCredentialProvider';
+import FileCredentialProvider from './FileCredentialProvider';
+import VaultCredentialProvider from './VaultCredentialProvider';
+import CommandCredentialProvider from './CommandCredentialProvider';
 
 /**
  * PuppeteerAuthModule with Cookie Caching
  * 
  * This module now includes:
- * - Automatic cookie caching to file
+ * - Automatic cookie caching to file (encrypted at rest when a key is configured)
  * - Cookie reuse for faster subsequent logins
- * - Automatic cache expiration (configurable TTL)
+ * - Token expiry read from the JWT exp/iat claims, cookie expiry tracked separately
+ * - Proactive token refresh a configurable margin before real expiry
+ *   (refresh_token grant only, retried with backoff)
  * - Fallback to fresh login if cache is invalid
+ * - Browserless token renewal with the OIDC refresh_token grant
+ * - Pluggable login strategy (headless browser or plain HTTP OIDC flow),
+ *   selected with authentication.strategy
+ * - TOTP two-factor codes generated from credentials.totpSecret
+ * - Opt-in login failure diagnostics (screenshot, HTML, step trace)
+ * - Persisted login throttling: exponential backoff after failed logins and
+ *   a lockout after authentication.throttle.maxConsecutiveFailures
+ * - Single-flight re-authentication: concurrent 401s share one refresh,
+ *   and the new token is published through a shared AuthTokenHolder
+ * - Credentials read at login time from a pluggable provider
+ *   (config, *_FILE secrets, encrypted vault or an external command)
  * 
  * Why cookie caching?
  * - Eliminates need to re-authenticate for every request
@@ -25,25 +51,59 @@ interface LoginResponse {
   bearerToken?: string;
   userId?: string;
   message?: string;
+  failureReason?: LoginResponseFailureReason;
+  retryAt?: number; // When a throttled login may be attempted again (ms since epoch)
+  diagnosticsPath?: string; // Folder with the saved login diagnostics, if enabled
 }
 
+/**
+ * Why a login failed, when known
+ * - Strategy reasons (e.g. otp_required), plus:
+ * - throttled: skipped because of the backoff after recent failures
+ * - locked_out: too many consecutive failures; an operator must clear the lockout
+ */
+type LoginResponseFailureReason = LoginFailureReason | 'throttled' | 'locked_out';
+
 interface CachedSession {
   cookies: string;
   bearerToken?: string;
+  refreshToken?: string;
+  tokenEndpoint?: string; // Where the refresh token can be redeemed
+  clientId?: string;
   userId?: string;
   timestamp: number;
-  ttl: number; // Time to live in milliseconds
+  ttl: number; // Cookie time to live in milliseconds (used when cookies carry no expiry)
+  tokenIssuedAt?: number; // Access token iat (ms since epoch)
+  tokenExpiresAt?: number; // Access token exp (ms since epoch)
+  refreshTokenExpiresAt?: number; // Refresh token exp (ms since epoch)
+  cookiesExpiresAt?: number; // Earliest cookie expiry (ms since epoch)
 }
 
+// Backoff for a failed background refresh: 30s, 1m, 2m ... up to 10m
+const PROACTIVE_RETRY_BASE_MS = 30 * 1000;
+const PROACTIVE_RETRY_MAX_MS = 10 * 60 * 1000;
+
 class PuppeteerAuthModule {
-  private browser: Browser | null = null;
-  private page: Page | null = null;
+  private activeStrategy: LoginStrategy | null = null;
   private configManager: ConfigManager;
   private isAuthenticated: boolean = false;
   private cachedCookies: string | null = null;
   private cachedToken: string | null = null;
   private cachedUserId: string | null = null;
+  private cachedRefreshToken: string | null = null;
+  private tokenEndpoint: string | null = null;
+  private clientId: string | null = null;
+  private tokenIssuedAt: number | null = null;
+  private tokenExpiresAt: number | null = null;
+  private refreshTokenExpiresAt: number | null = null;
+  private cookiesExpiresAt: number | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshTimerDueAt: number | null = null;
   private cacheFilePath: string = './auth_cache.json';
+  private cacheStore: AuthCacheStore<CachedSession>;
+  private loginThrottle: LoginThrottle;
+  private tokenHolder: AuthTokenHolder;
+  private reAuthInFlight: Promise<LoginResponse> | null = null;
   private cookieTTL: number = 12 * 60 * 60 * 1000; // 12 hours default
 
   constructor(cacheFilePath?: string, ttlHours?: number) {
@@ -54,6 +114,15 @@ class PuppeteerAuthModule {
     if (ttlHours) {
       this.cookieTTL = ttlHours * 60 * 60 * 1000;
     }
+    this.cacheStore = AuthCacheStore.open<CachedSession>(this.cacheFilePath, this.configManager.get('authentication')?.cacheKeyFile);
+    this.tokenHolder = new AuthTokenHolder(async staleToken => {
+      const result = await this.refreshStaleToken(staleToken);
+      return result.success ? result.bearerToken || null : null;
+    });
+    this.loginThrottle = new LoginThrottle(
+      `${this.cacheFilePath.replace(/\.json$/, '')}.throttle.json`,
+      this.configManager.get('authentication')?.throttle
+    );
   }
 
   /**
@@ -63,15 +132,35 @@ class PuppeteerAuthModule {
    */
   private loadCachedCookies(): boolean {
     try {
-      if (!fs.existsSync(this.cacheFilePath)) {
+      const loaded = this.cacheStore.load();
+      if (loaded.status === 'missing') {
         console.log('📝 No cached session found');
         return false;
       }
+      if (loaded.status === 'rejected') {
+        console.warn(`🔒 Auth cache rejected (${loaded.reason}) - discarding it and performing a fresh login`);
+        this.clearCache();
+        return false;
+      }
 
-      const cached = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf-8')) as CachedSession;
+      const cached = loaded.session;
       const now = Date.now();
       const age = now - cached.timestamp;
-      const isExpired = age > cached.ttl;
+      const cookiesExpiresAt = cached.cookiesExpiresAt || cached.timestamp + cached.ttl;
+      const cookiesExpired = now >= cookiesExpiresAt;
+
+      // Without token expiry information, fall back to the cookie lifetime
+      let isExpired = cookiesExpired;
+      if (cached.tokenExpiresAt) {
+        const tokenExpired = now >= cached.tokenExpiresAt;
+        const canRefresh = !!cached.refreshToken &&
+          (!cached.refreshTokenExpiresAt || now < cached.refreshTokenExpiresAt);
+        isExpired = tokenExpired && !canRefresh;
+
+        if (cookiesExpired && !isExpired) {
+          console.log('⏰ Cached cookies expired - keeping token-based session');
+        }
+      }
 
       if (isExpired) {
         console.log(`⏰ Cached session expired (${Math.round(age / 1000)}s old)`);
@@ -81,8 +170,15 @@ class PuppeteerAuthModule {
 
       console.log(`✓ Valid cached session found (${Math.round(age / 1000)}s old)`);
       this.cachedCookies = cached.cookies;
-      this.cachedToken = cached.bearerToken || null;
+      this.setCachedToken(cached.bearerToken || null);
       this.cachedUserId = cached.userId || null;
+      this.cachedRefreshToken = cached.refreshToken || null;
+      this.tokenEndpoint = cached.tokenEndpoint || null;
+      this.clientId = cached.clientId || null;
+      this.tokenIssuedAt = cached.tokenIssuedAt || null;
+      this.tokenExpiresAt = cached.tokenExpiresAt || null;
+      this.refreshTokenExpiresAt = cached.refreshTokenExpiresAt || null;
+      this.cookiesExpiresAt = cookiesExpiresAt;
       this.isAuthenticated = true;
       return true;
     } catch (error) {
@@ -95,30 +191,48 @@ class PuppeteerAuthModule {
    * Save cookies to cache file
    * - Enables reuse across application restarts
    * - Stores timestamp for TTL validation
+   * - Written atomically with owner-only permissions
    */
-  private saveCookies(cookies: string, bearerToken?: string, userId?: string): void {
+  private saveCookies(cookies: string, bearerToken?: string, userId?: string, refreshToken?: string): void {
+    if (!this.cacheStore.isEnabled()) {
+      return;
+    }
     try {
       const session: CachedSession = {
         cookies,
         bearerToken,
+        refreshToken,
+        tokenEndpoint: this.tokenEndpoint || undefined,
+        clientId: this.clientId || undefined,
         userId,
         timestamp: Date.now(),
-        ttl: this.cookieTTL
+        ttl: this.cookieTTL,
+        tokenIssuedAt: this.tokenIssuedAt || undefined,
+        tokenExpiresAt: this.tokenExpiresAt || undefined,
+        refreshTokenExpiresAt: this.refreshTokenExpiresAt || undefined,
+        cookiesExpiresAt: this.cookiesExpiresAt || undefined
       };
-      fs.writeFileSync(this.cacheFilePath, JSON.stringify(session));
-      console.log('💾 Cached session saved');
+      this.cacheStore.save(session);
+      console.log(`💾 Cached session saved${this.cacheStore.isEncrypted() ? ' (encrypted)' : ''}`);
     } catch (error) {
       console.warn('⚠️ Could not save cache:', error instanceof Error ? error.message : error);
     }
   }
 
+  /**
+   * Set the current access token and publish it to the token holder
+   */
+  private setCachedToken(token: string | null): void {
+    this.cachedToken = token;
+    this.tokenHolder.set(token);
+  }
+
   /**
    * Clear cached cookies
    */
   private clearCache(): void {
     try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath);
+      if (this.cacheStore.clear()) {
         console.log('🗑️ Cache cleared');
       }
     } catch (error) {
@@ -131,52 +245,365 @@ class PuppeteerAuthModule {
    * - Returns the cached session object or null if not found/invalid
    */
   private loadCacheFromFile(): CachedSession | null {
+    const loaded = this.cacheStore.load();
+    return loaded.status === 'ok' ? loaded.session : null;
+  }
+
+  /**
+   * Decode the payload of a JWT without verifying it
+   * - Returns null if the token is not a well-formed JWT
+   */
+  private decodeJwtPayload(token: string): { [key: string]: any } | null {
     try {
-      if (!fs.existsSync(this.cacheFilePath)) {
+      const parts = token.split('.');
+      if (parts.length !== 3) {
         return null;
       }
-      const cached = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf-8')) as CachedSession;
-      return cached;
+      return JSON.parse(Buffer.from(parts[1], 'base64').toString());
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Initialize Puppeteer browser
+   * Extract the user ID from a decoded JWT payload
+   */
+  private extractUserId(payload: { [key: string]: any }): string {
+    // Try different userId field names
+    if (payload.userId) {
+      return String(payload.userId);
+    } else if (payload.sub && !payload.sub.includes(':')) {
+      return payload.sub;
+    } else if (payload.sub && payload.sub.includes(':')) {
+      // Extract numeric ID from composite sub (e.g., "f:123:456")
+      const subParts = payload.sub.split(':');
+      return subParts[subParts.length - 1];
+    } else if (payload.preferred_username) {
+      return payload.preferred_username;
+    }
+    return '';
+  }
+
+  /**
+   * Work out where (and as which client) the refresh token can be redeemed
+   * - Config values win, otherwise derive from the access token's iss/azp claims
+   */
+  private resolveTokenEndpoint(accessToken: string): void {
+    const authConfig = this.configManager.get('authentication');
+    const payload = this.decodeJwtPayload(accessToken);
+
+    if (authConfig?.tokenEndpoint) {
+      this.tokenEndpoint = authConfig.tokenEndpoint;
+    } else if (payload?.iss) {
+      this.tokenEndpoint = OidcTokenClient.tokenEndpointForIssuer(payload.iss);
+    }
+
+    if (authConfig?.clientId) {
+      this.clientId = authConfig.clientId;
+    } else if (payload?.azp) {
+      this.clientId = payload.azp;
+    }
+  }
+
+  /**
+   * Record access and refresh token lifetimes from their JWT claims
+   * - refreshExpiresIn (seconds) is used when the refresh token is not a JWT
+   */
+  private updateTokenExpiry(accessToken: string, refreshToken?: string | null, refreshExpiresIn?: number): void {
+    const payload = this.decodeJwtPayload(accessToken);
+    this.tokenExpiresAt = typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+    this.tokenIssuedAt = typeof payload?.iat === 'number' ? payload.iat * 1000 : null;
+
+    const refreshPayload = refreshToken ? this.decodeJwtPayload(refreshToken) : null;
+    if (typeof refreshPayload?.exp === 'number' && refreshPayload.exp > 0) {
+      this.refreshTokenExpiresAt = refreshPayload.exp * 1000;
+    } else if (refreshExpiresIn && refreshExpiresIn > 0) {
+      this.refreshTokenExpiresAt = Date.now() + refreshExpiresIn * 1000;
+    } else {
+      // Keycloak offline tokens carry exp = 0 (no expiry)
+      this.refreshTokenExpiresAt = null;
+    }
+
+    if (this.tokenExpiresAt) {
+      const remainingSeconds = Math.round((this.tokenExpiresAt - Date.now()) / 1000);
+      console.log(`⏰ Access token expires in ${remainingSeconds}s`);
+    }
+  }
+
+  /**
+   * Percentage of the token lifetime after which it is refreshed
+   * - Read from authentication.refreshThresholdPercent (default 80)
+   */
+  private getRefreshThresholdPercent(): number {
+    const percent = this.configManager.get('authentication')?.refreshThresholdPercent;
+    if (typeof percent !== 'number' || isNaN(percent)) {
+      return 80;
+    }
+    return Math.min(Math.max(percent, 1), 100);
+  }
+
+  /**
+   * Check if the cached access token is past its exp claim
+   * - Returns false when the token carries no expiry information
+   */
+  private isTokenExpired(): boolean {
+    return this.tokenExpiresAt !== null && Date.now() >= this.tokenExpiresAt;
+  }
+
+  /**
+   * Schedule a background token refresh for when it becomes due
+   * - Replaces any previously scheduled refresh
+   * - Only with a usable refresh token: the timer never starts a browser login,
+   *   that waits until a request needs it
+   * - After a failed refresh (failures > 0), retries with exponential backoff
+   * - The timer does not keep the process alive
+   */
+  private scheduleProactiveRefresh(failures: number = 0): void {
+    this.stopProactiveRefresh();
+
+    const now = Date.now();
+    const dueAt = failures > 0
+      ? now + Math.min(PROACTIVE_RETRY_BASE_MS * 2 ** (failures - 1), PROACTIVE_RETRY_MAX_MS)
+      : this.getRefreshDueAt();
+    if (dueAt === null || !this.hasUsableRefreshToken()) {
+      return;
+    }
+
+    // setTimeout cannot wait longer than ~24.8 days
+    const delay = Math.min(Math.max(dueAt - now, 0), 2147483647);
+    this.refreshTimerDueAt = now + delay;
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshTimerDueAt = null;
+      this.runProactiveRefresh(failures);
+    }, delay);
+    this.refreshTimer.unref();
+  }
+
+  /**
+   * Background refresh with the refresh_token grant
+   * - Shares the single in-flight re-authentication with 401 handlers
+   * - A successful refresh schedules the next one itself; a rejected refresh
+   *   token leaves the next full login to the next request
+   */
+  private async runProactiveRefresh(failures: number): Promise<void> {
+    console.log('⏰ Proactive token refresh due');
+    if (this.reAuthInFlight) {
+      // The running re-authentication schedules the next refresh
+      return;
+    }
+
+    this.reAuthInFlight = this.refreshWithRefreshToken()
+      .then(result => result || { success: false, message: 'Refresh token not usable - full login on the next request' })
+      .finally(() => {
+        this.reAuthInFlight = null;
+      });
+
+    try {
+      const result = await this.reAuthInFlight;
+      if (!result.success && this.hasUsableRefreshToken()) {
+        console.warn(`⚠️ Proactive token refresh failed - retrying (attempt ${failures + 2})`);
+        this.scheduleProactiveRefresh(failures + 1);
+      }
+    } catch (error) {
+      console.warn('⚠️ Proactive token refresh failed:', error instanceof Error ? error.message : error);
+      this.scheduleProactiveRefresh(failures + 1);
+    }
+  }
+
+  /**
+   * Whether the access token can be renewed with the refresh_token grant
    */
-  private async initBrowser(): Promise<void> {
+  private hasUsableRefreshToken(): boolean {
+    return !!this.cachedRefreshToken && !!this.tokenEndpoint && !!this.clientId
+      && (this.refreshTokenExpiresAt === null || Date.now() < this.refreshTokenExpiresAt);
+  }
+
+  /**
+   * Renew the access token with the refresh_token grant (no browser)
+   * 
+   * Returns:
+   * - A successful LoginResponse when the token was renewed
+   * - A failed LoginResponse when the token endpoint is temporarily unavailable
+   * - null when there is no usable refresh token or it was rejected,
+   *   meaning the caller should fall back to a full login
+   */
+  private async refreshWithRefreshToken(): Promise<LoginResponse | null> {
+    if (!this.cachedRefreshToken || !this.tokenEndpoint || !this.clientId) {
+      console.log('📝 No refresh token available - full login required');
+      return null;
+    }
+
+    if (this.refreshTokenExpiresAt !== null && Date.now() >= this.refreshTokenExpiresAt) {
+      console.log('⏰ Refresh token expired - full login required');
+      this.cachedRefreshToken = null;
+      return null;
+    }
+
+    const tokenClient = new OidcTokenClient(this.tokenEndpoint, this.clientId);
+
     try {
-      console.log('🌐 Launching headless browser...');
-      
-      this.browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage'
-        ]
+      console.log('🔄 Renewing access token with refresh token...');
+      const tokens = await tokenClient.refresh(this.cachedRefreshToken);
+
+      const payload = this.decodeJwtPayload(tokens.accessToken);
+      const userId = (payload && this.extractUserId(payload)) || this.cachedUserId || '';
+      const cookies = this.cachedCookies || '';
+
+      this.setCachedToken(tokens.accessToken);
+      // Keycloak may rotate refresh tokens; keep the old one if no new one was issued
+      this.cachedRefreshToken = tokens.refreshToken || this.cachedRefreshToken;
+      this.cachedUserId = userId;
+      this.cachedCookies = cookies;
+      this.isAuthenticated = true;
+      this.updateTokenExpiry(tokens.accessToken, tokens.refreshToken, tokens.refreshExpiresIn);
+      this.saveCookies(cookies, tokens.accessToken, userId, this.cachedRefreshToken);
+      this.scheduleProactiveRefresh();
+
+      console.log('✓ Access token renewed without browser');
+      return {
+        success: true,
+        cookies,
+        bearerToken: tokens.accessToken,
+        userId,
+        message: 'Token refreshed - session cached'
+      };
+    } catch (error) {
+      if (error instanceof OidcTokenError && !error.rejected) {
+        console.warn(`⚠️ Token refresh failed: ${error.message}`);
+        return {
+          success: false,
+          message: error.message
+        };
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️ Refresh token rejected (${errorMessage}) - falling back to full login`);
+      this.cachedRefreshToken = null;
+      return null;
+    }
+  }
+
+  /**
+   * Create the credential provider selected in config
+   * - config (default): config.json and WILLSUB_USERNAME/WILLSUB_PASSWORD
+   * - file: *_FILE secrets, vault: encrypted file, command: external command stdout
+   */
+  private createCredentialProvider(): CredentialProvider {
+    const providerConfig = this.configManager.get('authentication')?.credentialProvider;
+    const type = providerConfig?.type || 'config';
+    const fallbackUsername = this.configManager.get('credentials')?.username;
+
+    if (type === 'config') {
+      return new ConfigCredentialProvider(this.configManager);
+    }
+    if (type === 'file') {
+      return new FileCredentialProvider({
+        usernameFile: providerConfig?.usernameFile,
+        passwordFile: providerConfig?.passwordFile,
+        totpSecretFile: providerConfig?.totpSecretFile,
+        fallbackUsername
       });
+    }
+    if (type === 'vault') {
+      return new VaultCredentialProvider(providerConfig?.vaultFile || './credentials.vault.json', providerConfig?.vaultKeyFile);
+    }
+    if (type === 'command') {
+      if (!providerConfig?.command) {
+        throw new Error('The command credential provider needs authentication.credentialProvider.command');
+      }
+      return new CommandCredentialProvider({
+        command: providerConfig.command,
+        timeoutSeconds: providerConfig.commandTimeoutSeconds,
+        fallbackUsername
+      });
+    }
+
+    throw new Error(`Unknown credential provider: ${type}`);
+  }
+
+  /**
+   * Create the login strategy selected in config
+   * - puppeteer (default): headless Chromium, login page from authentication.login
+   * - http: OIDC authorization-code flow, needs authentication.oidc.issuer
+   */
+  private createLoginStrategy(): LoginStrategy {
+    const authConfig = this.configManager.get('authentication');
+    const strategy = authConfig?.strategy || 'puppeteer';
+
+    if (strategy === 'puppeteer') {
+      const baseUrl = this.configManager.get('baseUrl') || 'https://willsubplus.com';
+      const loginEndpoint = this.configManager.get('loginEndpoint');
+      const loginUrl = loginEndpoint ? this.configManager.buildUrl(loginEndpoint) : baseUrl;
+      return new PuppeteerLoginStrategy(PuppeteerLoginStrategy.resolveOptions(authConfig?.login, baseUrl, loginUrl));
+    }
 
-      this.page = await this.browser.newPage();
-      await this.page.setViewport({ width: 1280, height: 720 });
-      
-      console.log('✓ Browser launched successfully');
+    if (strategy === 'http') {
+      const oidc = authConfig?.oidc;
+      const clientId = oidc?.clientId || authConfig?.clientId;
+      if (!oidc?.issuer || !clientId) {
+        throw new Error('The http login strategy needs authentication.oidc.issuer and a client ID');
+      }
+      return new HttpLoginStrategy({
+        issuer: oidc.issuer,
+        clientId,
+        redirectUri: oidc.redirectUri || this.configManager.buildUrl('/'),
+        tokenEndpoint: authConfig?.tokenEndpoint,
+        scope: oidc.scope
+      });
+    }
+
+    throw new Error(`Unknown login strategy: ${strategy}`);
+  }
+
+  /**
+   * Persist a failed login attempt and log the resulting backoff or lockout
+   */
+  private recordLoginFailure(errorMessage: string): LoginThrottleState | null {
+    try {
+      const state = this.loginThrottle.recordFailure(errorMessage);
+      if (state.lockedAt) {
+        console.error(`⛔ ${state.consecutiveFailures} consecutive login failures - login paused until the lockout is cleared (--clear-login-lockout)`);
+      } else {
+        const delaySeconds = Math.round(this.loginThrottle.getDelayMs(state.consecutiveFailures) / 1000);
+        console.warn(`⏳ Login failure ${state.consecutiveFailures}/${this.loginThrottle.getMaxConsecutiveFailures()} - next attempt in ${delaySeconds}s at the earliest`);
+      }
+      return state;
     } catch (error) {
-      throw new Error(`Failed to launch browser: ${error}`);
+      console.warn('⚠️ Could not record login failure:', error instanceof Error ? error.message : error);
+      return null;
     }
   }
 
   /**
-   * Close the browser
+   * Build the response for a login skipped by the throttle
    */
-  private async closeBrowser(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      this.page = null;
-      console.log('✓ Browser closed');
+  private throttledResponse(reason: 'backoff' | 'locked_out', state: LoginThrottleState, retryAt?: number): LoginResponse {
+    if (reason === 'locked_out') {
+      const message = `Login paused after ${state.consecutiveFailures} consecutive failures (last error: ${state.lastError}). ` +
+        'Fix the credentials, then clear the lockout with --clear-login-lockout';
+      console.warn(`⛔ ${message}`);
+      return { success: false, message, failureReason: 'locked_out' };
     }
+
+    const waitSeconds = Math.ceil(((retryAt || Date.now()) - Date.now()) / 1000);
+    const message = `Login skipped - backing off for ${waitSeconds}s after ${state.consecutiveFailures} failed attempt(s)`;
+    console.warn(`⏳ ${message}`);
+    return { success: false, message, failureReason: 'throttled', retryAt };
+  }
+
+  /**
+   * Create a diagnostics recorder for a login attempt
+   * - Returns null unless authentication.diagnostics.enabled is set
+   */
+  private createLoginDiagnostics(strategyName: string): LoginDiagnostics | null {
+    const diagnosticsConfig = this.configManager.get('authentication')?.diagnostics;
+    if (!diagnosticsConfig?.enabled) {
+      return null;
+    }
+    const logDirectory = this.configManager.get('logging')?.logDirectory || './logs';
+    const directory = diagnosticsConfig.directory || path.join(logDirectory, 'login-diagnostics');
+    return new LoginDiagnostics(directory, strategyName);
   }
 
   /**
@@ -203,174 +630,103 @@ class PuppeteerAuthModule {
    * Flow:
    * 1. Check if cached cookies exist and are valid
    * 2. If valid cache -> return immediately (fast!)
-   * 3. If no cache -> authenticate via browser (slower, first time only)
+   * 3. If no cache -> authenticate via the login strategy (slower, first time only)
    * 4. Save cookies to cache for next time
    */
   public async login(username?: string, password?: string): Promise<LoginResponse> {
+    let diagnostics: LoginDiagnostics | null = null;
+    let attempted = false;
     try {
       // Step 1: Try to use cached cookies first
       if (this.loadCachedCookies()) {
-        return {
-          success: true,
-          cookies: this.cachedCookies || undefined,
-          bearerToken: this.cachedToken || undefined,
-          userId: this.cachedUserId || undefined,
-          message: 'Using cached session'
-        };
-      }
+        if (!this.isTokenExpired()) {
+          this.scheduleProactiveRefresh();
+          return {
+            success: true,
+            cookies: this.cachedCookies || undefined,
+            bearerToken: this.cachedToken || undefined,
+            userId: this.cachedUserId || undefined,
+            message: 'Using cached session'
+          };
+        }
 
-      // Step 2: Need to authenticate with browser
-      await this.initBrowser();
+        // Access token is dead but the refresh token may still be good
+        console.log('⏰ Cached access token expired - renewing with refresh token');
+        const refreshed = await this.refreshWithRefreshToken();
+        if (refreshed) {
+          return refreshed;
+        }
+        this.clearCache();
+        this.isAuthenticated = false;
+      }
 
-      if (!this.page) {
-        throw new Error('Failed to initialize page');
+      // Don't hammer the login page after failures (it can lock the account)
+      const gate = this.loginThrottle.check();
+      if (!gate.allowed) {
+        return this.throttledResponse(gate.reason, gate.state, gate.reason === 'backoff' ? gate.retryAt : undefined);
       }
 
-      // Get credentials
-      const creds = this.configManager.get('credentials');
-      const loginUser = username || creds?.username;
-      const loginPass = password || creds?.password;
+      // Get credentials from the configured provider (read now, so rotated secrets are picked up)
+      const creds = username && password
+        ? { username, password, totpSecret: this.configManager.get('credentials')?.totpSecret }
+        : await this.createCredentialProvider().getCredentials();
+      const loginUser = username || creds.username;
+      const loginPass = password || creds.password;
 
       if (!loginUser || !loginPass) {
         throw new Error('Credentials not provided and not found in config');
       }
 
-      /**
-       * Step 3: Navigate to app and trigger OAuth2 flow
-       */
-      console.log(`🔐 Navigating to willsubplus.com...`);
-      await this.page.goto('https://willsubplus.com', {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      const pageUrl = this.page.url();
-      console.log(`   Redirected to: ${pageUrl}`);
-
-      /**
-       * Step 4: Wait for login form
-       */
-      try {
-        await this.page.waitForSelector('#username', { timeout: 10000 });
-      } catch (error) {
-        console.log('   ⚠️ Login form not found');
-        throw error;
-      }
-
-      /**
-       * Step 5: Fill in and submit credentials
-       */
-      console.log('📝 Entering credentials...');
-      await this.page.type('#username', loginUser, { delay: 50 });
-      await this.page.type('#password', loginPass, { delay: 50 });
-
-      console.log('🚀 Submitting login form...');
-      
-      const navigationPromise = this.page.waitForNavigation({
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      await this.page.click('#kc-login');
-      await navigationPromise;
-
-      /**
-       * Step 6: Verify we're authenticated
-       */
-      const finalUrl = this.page.url();
-      console.log(`✓ Login complete! Final URL: ${finalUrl}`);
-
-      if (!finalUrl.includes('willsubplus.com')) {
-        throw new Error(`Unexpected final URL: ${finalUrl}`);
-      }
-
-      /**
-       * Step 7: Extract and cache cookies + Bearer token
-       */
-      const cookies = await this.page.cookies();
-      const cookieString = cookies.map(c => `${c.name}=${c.value}`).join('; ');
-      
-      console.log(`✓ Obtained ${cookies.length} cookies`);
-
-      /**
-       * Step 8: Try to extract Bearer token from localStorage or page data
-       */
-      let bearerToken = '';
+      // Step 2: Need to authenticate with the login strategy
+      this.activeStrategy = this.createLoginStrategy();
+      console.log(`🔐 Logging in with ${this.activeStrategy.name} strategy`);
+      diagnostics = this.createLoginDiagnostics(this.activeStrategy.name);
+      diagnostics?.addSecret(loginUser);
+      diagnostics?.addSecret(loginPass);
+      diagnostics?.addSecret(creds.totpSecret);
+      attempted = true;
+      const session = await this.activeStrategy.authenticate({
+        username: loginUser,
+        password: loginPass,
+        totpSecret: creds.totpSecret
+      }, diagnostics || undefined);
+      this.loginThrottle.recordSuccess();
+
+      const cookieString = session.cookies;
+      const bearerToken = session.accessToken;
+      const refreshToken = session.refreshToken || '';
       let userId = '';
-      
-      try {
-        // Extract from localStorage
-        const localStorageData = await this.page.evaluate(() => {
-          const keys = Object.keys(localStorage);
-          const data: { [key: string]: string } = {};
-          for (let key of keys) {
-            data[key] = localStorage.getItem(key) || '';
-          }
-          return data;
-        });
-        
-        // Look for access token (not refresh token)
-        for (const [key, value] of Object.entries(localStorageData)) {
-          if ((key.includes('access_token') || key === 'token') && 
-              typeof value === 'string' && value.includes('eyJ')) {
-            bearerToken = value.replace(/"/g, '');
-            console.log(`✓ Found Bearer token in localStorage[${key}]`);
-            break;
-          }
-        }
-
-        // If no access token found, try refresh token as fallback
-        if (!bearerToken) {
-          for (const [key, value] of Object.entries(localStorageData)) {
-            if (key.includes('token') && typeof value === 'string' && value.includes('eyJ')) {
-              bearerToken = value.replace(/"/g, '');
-              console.log(`✓ Found token in localStorage[${key}] (fallback)`);
-              break;
-            }
-          }
-        }
 
-        // Try to extract userId from JWT token
-        if (bearerToken) {
-          try {
-            const parts = bearerToken.split('.');
-            if (parts.length === 3) {
-              const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-              console.log(`🔍 JWT Payload keys:`, Object.keys(payload));
-              
-              // Try different userId field names
-              if (payload.userId) {
-                userId = payload.userId;
-              } else if (payload.sub && !payload.sub.includes(':')) {
-                userId = payload.sub;
-              } else if (payload.sub && payload.sub.includes(':')) {
-                // Extract numeric ID from composite sub (e.g., "f:123:456")
-                const subParts = payload.sub.split(':');
-                userId = subParts[subParts.length - 1];
-              } else if (payload.preferred_username) {
-                userId = payload.preferred_username;
-              }
-              
-              if (userId) {
-                console.log(`✓ Extracted userId from token: ${userId}`);
-              } else {
-                console.warn(`⚠️  Could not extract userId. Available: ${JSON.stringify(payload).substring(0, 200)}`);
-              }
-            }
-          } catch (e) {
-            console.warn('⚠️  Could not parse JWT token:', e instanceof Error ? e.message : e);
+      // Session cookies (no expiry) live at most for the configured cookie TTL
+      this.cookiesExpiresAt = Math.min(Date.now() + this.cookieTTL, ...session.cookieExpiries);
+
+      // Try to extract userId from JWT token
+      if (bearerToken) {
+        const payload = this.decodeJwtPayload(bearerToken);
+        if (payload) {
+          console.log(`🔍 JWT Payload keys:`, Object.keys(payload));
+          userId = this.extractUserId(payload);
+          
+          if (userId) {
+            console.log(`✓ Extracted userId from token: ${userId}`);
+          } else {
+            console.warn(`⚠️  Could not extract userId. Available: ${JSON.stringify(payload).substring(0, 200)}`);
           }
+          this.resolveTokenEndpoint(bearerToken);
+        } else {
+          console.warn('⚠️  Could not parse JWT token');
         }
-      } catch (e) {
-        console.warn('⚠️  Could not access localStorage');
       }
 
       // Cache the credentials
-      this.saveCookies(cookieString, bearerToken, userId);
+      this.updateTokenExpiry(bearerToken, refreshToken, session.refreshExpiresIn);
+      this.saveCookies(cookieString, bearerToken, userId, refreshToken || undefined);
       this.cachedCookies = cookieString;
-      this.cachedToken = bearerToken;
+      this.setCachedToken(bearerToken);
+      this.cachedRefreshToken = refreshToken || null;
       this.cachedUserId = userId;
       this.isAuthenticated = true;
+      this.scheduleProactiveRefresh();
 
       return {
         success: true,
@@ -383,12 +739,21 @@ class PuppeteerAuthModule {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error('✗ Login failed:', errorMessage);
+      const throttleState = attempted ? this.recordLoginFailure(errorMessage) : null;
+      const lockedOut = !!throttleState?.lockedAt;
       return {
         success: false,
-        message: errorMessage
+        message: lockedOut
+          ? `${errorMessage} - login paused after ${throttleState!.consecutiveFailures} consecutive failures`
+          : errorMessage,
+        failureReason: lockedOut ? 'locked_out' : error instanceof LoginError ? error.reason : undefined,
+        diagnosticsPath: diagnostics?.save(errorMessage) || undefined
       };
     } finally {
-      await this.closeBrowser();
+      if (this.activeStrategy) {
+        await this.activeStrategy.close();
+        this.activeStrategy = null;
+      }
     }
   }
 
@@ -405,16 +770,39 @@ class PuppeteerAuthModule {
 
     // Check if we have a valid cached session
     if (this.hasCachedSession() && this.cachedToken) {
+      const dueAt = this.getRefreshDueAt();
+      if (dueAt !== null && this.tokenExpiresAt !== null) {
+        const now = Date.now();
+        const remainingSeconds = Math.round((this.tokenExpiresAt - now) / 1000);
+        const dueInSeconds = Math.round((dueAt - now) / 1000);
+
+        console.log(`✓ Access token status: expires in ${remainingSeconds}s (refresh due in ${Math.max(dueInSeconds, 0)}s)`);
+
+        if (now >= dueAt) {
+          console.log('⚠️  Access token nearing expiration - refreshing...');
+          return this.reAuthenticate();
+        }
+
+        return {
+          success: true,
+          bearerToken: this.cachedToken || undefined,
+          userId: this.cachedUserId || undefined,
+          message: 'Using cached session'
+        };
+      }
+
+      // Token carries no expiry - fall back to the cookie lifetime
       const cache = this.loadCacheFromFile();
       if (cache) {
         const ageMs = Date.now() - cache.timestamp;
         const ageHours = Math.round(ageMs / (60 * 60 * 1000));
         const ttlHours = Math.round(cache.ttl / (60 * 60 * 1000));
+        const thresholdPercent = this.getRefreshThresholdPercent();
         
         console.log(`✓ Auth cache status: ${ageHours}h old (TTL: ${ttlHours}h)`);
         
-        // If cache is more than 80% expired, refresh
-        if (ageMs > cache.ttl * 0.8) {
+        // If cache is past the refresh threshold, refresh
+        if (ageMs > cache.ttl * (thresholdPercent / 100)) {
           console.log('⚠️  Auth cache nearing expiration - refreshing...');
           return this.reAuthenticate();
         }
@@ -437,15 +825,149 @@ class PuppeteerAuthModule {
   /**
    * Force re-authentication (bypass cache)
    * - Useful if you suspect the session is invalid
+   * - Tries the refresh token first and only runs the login strategy
+   *   when there is none or the token endpoint rejects it
+   * - Explicit credentials always force a full login
    */
   public async reAuthenticate(username?: string, password?: string): Promise<LoginResponse> {
+    if (username || password) {
+      return this.performReAuthenticate(username, password);
+    }
+
+    // Coalesce concurrent callers (401s, the proactive timer) into one re-authentication
+    if (this.reAuthInFlight) {
+      console.log('⏳ Re-authentication already in progress - waiting for it');
+      return this.reAuthInFlight;
+    }
+    this.reAuthInFlight = this.performReAuthenticate().finally(() => {
+      this.reAuthInFlight = null;
+    });
+    return this.reAuthInFlight;
+  }
+
+  /**
+   * Re-authenticate after a request was rejected with staleToken
+   * - Skips the refresh if another caller already replaced that token
+   * - Otherwise joins (or starts) the single in-flight re-authentication
+   */
+  public async refreshStaleToken(staleToken: string | null): Promise<LoginResponse> {
+    if (this.cachedToken && staleToken && this.cachedToken !== staleToken && !this.isTokenExpired()) {
+      console.log('✓ Token was already refreshed - reusing it');
+      return {
+        success: true,
+        cookies: this.cachedCookies || undefined,
+        bearerToken: this.cachedToken,
+        userId: this.cachedUserId || undefined,
+        message: 'Token already refreshed'
+      };
+    }
+    return this.reAuthenticate();
+  }
+
+  /**
+   * Refresh token first, then a full login
+   */
+  private async performReAuthenticate(username?: string, password?: string): Promise<LoginResponse> {
     console.log('🔄 Force re-authenticating...');
+    this.stopProactiveRefresh();
+
+    if (!username && !password) {
+      const refreshed = await this.refreshWithRefreshToken();
+      if (refreshed) {
+        return refreshed;
+      }
+    }
+
     this.clearCache();
     this.cachedCookies = null;
     this.isAuthenticated = false;
     return this.login(username, password);
   }
 
+  /**
+   * Get the shared holder of the current bearer token
+   * - Stays up to date across refreshes, unlike a token copied into a variable
+   */
+  public getTokenHolder(): AuthTokenHolder {
+    return this.tokenHolder;
+  }
+
+  /**
+   * Get the recorded run of failed logins (null when the last login succeeded)
+   */
+  public getLoginThrottleState(): LoginThrottleState | null {
+    return this.loginThrottle.load();
+  }
+
+  /**
+   * Clear recorded login failures and any lockout (operator action)
+   * - Returns true if there was anything to clear
+   */
+  public clearLoginLockout(): boolean {
+    const cleared = this.loginThrottle.clear();
+    if (cleared) {
+      console.log('🔓 Login lockout cleared');
+    }
+    return cleared;
+  }
+
+  /**
+   * Claim the one-time "polling paused" alert for the current lockout
+   * - Returns true only once per lockout, across restarts
+   */
+  public claimLockoutAlert(): boolean {
+    return this.loginThrottle.claimLockoutAlert();
+  }
+
+  /**
+   * Get when the access token should be refreshed (ms since epoch)
+   * - refreshThresholdPercent of the token lifetime (iat -> exp) has elapsed
+   * - Returns null when the token carries no expiry information
+   */
+  public getRefreshDueAt(): number | null {
+    if (this.tokenExpiresAt === null) {
+      return null;
+    }
+    if (this.tokenIssuedAt === null || this.tokenIssuedAt >= this.tokenExpiresAt) {
+      return this.tokenExpiresAt;
+    }
+    const lifetime = this.tokenExpiresAt - this.tokenIssuedAt;
+    return this.tokenIssuedAt + Math.round(lifetime * (this.getRefreshThresholdPercent() / 100));
+  }
+
+  /**
+   * Get access token expiry (ms since epoch), or null if unknown
+   */
+  public getTokenExpiresAt(): number | null {
+    return this.tokenExpiresAt;
+  }
+
+  /**
+   * Get earliest cookie expiry (ms since epoch), or null if unknown
+   */
+  public getCookiesExpiresAt(): number | null {
+    return this.cookiesExpiresAt;
+  }
+
+  /**
+   * Get when the next background refresh runs (ms since epoch), or null if none is scheduled
+   */
+  public getNextProactiveRefreshAt(): number | null {
+    return this.refreshTimerDueAt;
+  }
+
+  /**
+   * Cancel a scheduled proactive refresh
+   * - Call on shutdown or when the module is no longer used
+   */
+  public stopProactiveRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.refreshTimerDueAt = null;
+  }
+
   /**
    * Get cached Bearer token
    */
@@ -471,16 +993,16 @@ class PuppeteerAuthModule {
    * Get page instance (for advanced automation)
    */
   public getPage(): Page | null {
-    return this.page;
+    return this.activeStrategy instanceof PuppeteerLoginStrategy ? this.activeStrategy.getPage() : null;
   }
 
   /**
    * Get browser instance (for advanced automation)
    */
   public getBrowser(): Browser | null {
-    return this.browser;
+    return this.activeStrategy instanceof PuppeteerLoginStrategy ? this.activeStrategy.getBrowser() : null;
   }
 }
 
 export default PuppeteerAuthModule;
-export type { LoginResponse };
+export type { LoginResponse, LoginResponseFailureReason };
@@ -0,0 +1,324 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import TotpGenerator from './TotpGenerator';
+import LoginDiagnostics from './LoginDiagnostics';
+import { AuthenticatedSession, LoginCredentials, LoginError, LoginStrategy } from './LoginStrategy';
+import { LoginPageConfig } from '../config/ConfigManager';
+
+/**
+ * PuppeteerLoginStrategy
+ * Logs in by driving a headless Chromium through the Keycloak login page
+ *
+ * Flow:
+ * 1. Open the login URL, which redirects to the Keycloak login form
+ * 2. Fill in and submit the credentials
+ *    (and a TOTP code if Keycloak shows its OTP form)
+ * 3. Read cookies and the tokens the app stored in localStorage
+ *
+ * The entry URL, form selectors and success check come from
+ * authentication.login, so theme changes or a mock login page need no code change
+ */
+
+export interface PuppeteerLoginOptions {
+  entryUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  otpSelector: string;
+  successUrlPattern: RegExp;
+}
+
+class PuppeteerLoginStrategy implements LoginStrategy {
+  public readonly name = 'puppeteer' as const;
+  private browser: Browser | null = null;
+  private page: Page | null = null;
+  private options: PuppeteerLoginOptions;
+
+  constructor(options?: PuppeteerLoginOptions) {
+    this.options = options || PuppeteerLoginStrategy.resolveOptions(undefined, 'https://willsubplus.com');
+  }
+
+  /**
+   * Fill in defaults for the login page settings
+   * - A relative entryUrl is resolved against baseUrl
+   * - Without entryUrl, the login URL (baseUrl + loginEndpoint) is opened
+   * - Without successUrlPattern, the final URL must be on the baseUrl host
+   */
+  public static resolveOptions(
+    config: LoginPageConfig | undefined,
+    baseUrl: string,
+    loginUrl: string = baseUrl
+  ): PuppeteerLoginOptions {
+    const entryUrl = config?.entryUrl ? new URL(config.entryUrl, baseUrl).toString() : loginUrl;
+    const host = new URL(baseUrl).hostname.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    return {
+      entryUrl,
+      usernameSelector: config?.usernameSelector || '#username',
+      passwordSelector: config?.passwordSelector || '#password',
+      submitSelector: config?.submitSelector || '#kc-login',
+      otpSelector: config?.otpSelector || '#otp',
+      successUrlPattern: new RegExp(config?.successUrlPattern || host)
+    };
+  }
+
+  /**
+   * Get the resolved login page settings
+   */
+  public getOptions(): PuppeteerLoginOptions {
+    return this.options;
+  }
+
+  /**
+   * Initialize Puppeteer browser
+   */
+  private async initBrowser(): Promise<void> {
+    try {
+      console.log('🌐 Launching headless browser...');
+
+      this.browser = await puppeteer.launch({
+        headless: true,
+        args: [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage'
+        ]
+      });
+
+      this.page = await this.browser.newPage();
+      await this.page.setViewport({ width: 1280, height: 720 });
+
+      console.log('✓ Browser launched successfully');
+    } catch (error) {
+      throw new Error(`Failed to launch browser: ${error}`);
+    }
+  }
+
+  /**
+   * Log in through the browser
+   * - On failure, captures the page into diagnostics before rethrowing
+   */
+  public async authenticate(credentials: LoginCredentials, diagnostics?: LoginDiagnostics): Promise<AuthenticatedSession> {
+    try {
+      return await this.performLogin(credentials, diagnostics);
+    } catch (error) {
+      if (diagnostics) {
+        await this.captureFailure(diagnostics);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drive the login page
+   */
+  private async performLogin(credentials: LoginCredentials, diagnostics?: LoginDiagnostics): Promise<AuthenticatedSession> {
+    diagnostics?.step('launch browser');
+    await this.initBrowser();
+
+    if (!this.page) {
+      throw new Error('Failed to initialize page');
+    }
+
+    if (diagnostics) {
+      this.page.on('console', message => diagnostics.addConsoleMessage(message.type(), message.text()));
+      this.page.on('pageerror', error => diagnostics.addConsoleMessage('pageerror', String(error)));
+    }
+
+    /**
+     * Step 1: Navigate to app and trigger OAuth2 flow
+     */
+    const { entryUrl, usernameSelector, passwordSelector, submitSelector, otpSelector } = this.options;
+    console.log(`🔐 Navigating to ${entryUrl}...`);
+    diagnostics?.step('goto', entryUrl);
+    await this.page.goto(entryUrl, {
+      waitUntil: 'networkidle2',
+      timeout: 30000
+    });
+
+    const pageUrl = this.page.url();
+    console.log(`   Redirected to: ${pageUrl}`);
+    diagnostics?.step('redirected', pageUrl);
+
+    /**
+     * Step 2: Wait for login form
+     */
+    diagnostics?.step('wait for login form', usernameSelector);
+    try {
+      await this.page.waitForSelector(usernameSelector, { timeout: 10000 });
+    } catch (error) {
+      console.log('   ⚠️ Login form not found');
+      throw error;
+    }
+
+    /**
+     * Step 3: Fill in and submit credentials
+     */
+    console.log('📝 Entering credentials...');
+    diagnostics?.step('fill form', `${usernameSelector}, ${passwordSelector}`);
+    await this.page.type(usernameSelector, credentials.username, { delay: 50 });
+    await this.page.type(passwordSelector, credentials.password, { delay: 50 });
+
+    console.log('🚀 Submitting login form...');
+
+    const navigationPromise = this.page.waitForNavigation({
+      waitUntil: 'networkidle2',
+      timeout: 30000
+    });
+
+    diagnostics?.step('submit', submitSelector);
+    await this.page.click(submitSelector);
+    await navigationPromise;
+    diagnostics?.step('submitted', this.page.url());
+
+    /**
+     * Step 3b: Answer the OTP step if two-factor is enabled for the account
+     */
+    if (await this.page.$(otpSelector)) {
+      if (!credentials.totpSecret) {
+        throw new LoginError('otp_required', 'Keycloak requested a one-time code but no TOTP secret is configured (set WILLSUB_TOTP_SECRET)');
+      }
+
+      console.log('🔢 Entering one-time code...');
+      const code = await new TotpGenerator(credentials.totpSecret).generateFresh();
+      diagnostics?.addSecret(code);
+      diagnostics?.step('fill one-time code', otpSelector);
+      await this.page.type(otpSelector, code, { delay: 50 });
+
+      const otpNavigationPromise = this.page.waitForNavigation({
+        waitUntil: 'networkidle2',
+        timeout: 30000
+      });
+
+      diagnostics?.step('submit one-time code', submitSelector);
+      await this.page.click(submitSelector);
+      await otpNavigationPromise;
+      diagnostics?.step('submitted one-time code', this.page.url());
+
+      if (await this.page.$(otpSelector)) {
+        throw new LoginError('otp_rejected', 'One-time code rejected - check that the TOTP secret and system clock are correct');
+      }
+    }
+
+    /**
+     * Step 4: Verify we're authenticated
+     */
+    const finalUrl = this.page.url();
+    console.log(`✓ Login complete! Final URL: ${finalUrl}`);
+
+    if (!this.options.successUrlPattern.test(finalUrl)) {
+      throw new Error(`Unexpected final URL: ${finalUrl}`);
+    }
+
+    /**
+     * Step 5: Extract cookies
+     */
+    const cookies = await this.page.cookies();
+    const cookieString = cookies.map(c => `${c.name}=${c.value}`).join('; ');
+
+    console.log(`✓ Obtained ${cookies.length} cookies`);
+
+    /**
+     * Step 6: Try to extract Bearer token from localStorage or page data
+     */
+    let accessToken = '';
+    let refreshToken = '';
+    diagnostics?.step('extract tokens', 'localStorage');
+
+    try {
+      // Extract from localStorage
+      const localStorageData = await this.page.evaluate(() => {
+        const keys = Object.keys(localStorage);
+        const data: { [key: string]: string } = {};
+        for (let key of keys) {
+          data[key] = localStorage.getItem(key) || '';
+        }
+        return data;
+      });
+
+      // Look for access token (not refresh token)
+      for (const [key, value] of Object.entries(localStorageData)) {
+        if ((key.includes('access_token') || key === 'token') &&
+            typeof value === 'string' && value.includes('eyJ')) {
+          accessToken = value.replace(/"/g, '');
+          console.log(`✓ Found Bearer token in localStorage[${key}]`);
+          break;
+        }
+      }
+
+      // Keep the refresh token so the access token can be renewed without a browser
+      for (const [key, value] of Object.entries(localStorageData)) {
+        if (key.includes('refresh_token') && typeof value === 'string' && value.includes('eyJ')) {
+          refreshToken = value.replace(/"/g, '');
+          console.log(`✓ Found refresh token in localStorage[${key}]`);
+          break;
+        }
+      }
+
+      // If no access token found, try refresh token as fallback
+      if (!accessToken) {
+        for (const [key, value] of Object.entries(localStorageData)) {
+          if (key.includes('token') && typeof value === 'string' && value.includes('eyJ')) {
+            accessToken = value.replace(/"/g, '');
+            console.log(`✓ Found token in localStorage[${key}] (fallback)`);
+            break;
+          }
+        }
+      }
+    } catch (e) {
+      console.warn('⚠️  Could not access localStorage');
+    }
+    diagnostics?.step('tokens extracted', `access token ${accessToken ? 'found' : 'missing'}, refresh token ${refreshToken ? 'found' : 'missing'}`);
+
+    return {
+      cookies: cookieString,
+      cookieExpiries: cookies.filter(c => c.expires > 0).map(c => c.expires * 1000),
+      accessToken,
+      refreshToken: refreshToken || undefined
+    };
+  }
+
+  /**
+   * Save the URL, HTML and a screenshot of the page the login stopped on
+   * - Best effort: the page may already be gone
+   */
+  private async captureFailure(diagnostics: LoginDiagnostics): Promise<void> {
+    if (!this.page) {
+      return;
+    }
+    try {
+      diagnostics.capturePage({ url: this.page.url() });
+      diagnostics.capturePage({ html: await this.page.content() });
+      diagnostics.capturePage({ screenshot: await this.page.screenshot({ type: 'png', fullPage: true }) });
+    } catch (error) {
+      diagnostics.step('capture failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Close the browser
+   */
+  public async close(): Promise<void> {
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+      this.page = null;
+      console.log('✓ Browser closed');
+    }
+  }
+
+  /**
+   * Get page instance (for advanced automation)
+   */
+  public getPage(): Page | null {
+    return this.page;
+  }
+
+  /**
+   * Get browser instance (for advanced automation)
+   */
+  public getBrowser(): Browser | null {
+    return this.browser;
+  }
+}
+
+export default PuppeteerLoginStrategy;
@@ -0,0 +1,85 @@
+import * as crypto from 'crypto';
+
+/**
+ * SecretBox
+ * Authenticated encryption for small JSON secrets stored on disk
+ *
+ * Format:
+ * - AES-256-GCM with a random 12-byte IV per write
+ * - Key derived from a passphrase with scrypt and a random per-file salt
+ * - Everything stored as base64 in a JSON envelope
+ *
+ * Decryption fails (throws) if the key is wrong or the data was tampered with.
+ */
+
+export interface SecretEnvelope {
+  format: 'willsub-secret';
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+class SecretBox {
+  private static readonly KEY_LENGTH = 32;
+  private static readonly IV_LENGTH = 12;
+  private static readonly SALT_LENGTH = 16;
+
+  /**
+   * Encrypt a string with a passphrase
+   */
+  public static encrypt(plaintext: string, secret: string): SecretEnvelope {
+    const salt = crypto.randomBytes(SecretBox.SALT_LENGTH);
+    const iv = crypto.randomBytes(SecretBox.IV_LENGTH);
+    const key = crypto.scryptSync(secret, salt, SecretBox.KEY_LENGTH);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    return {
+      format: 'willsub-secret',
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypt an envelope with a passphrase
+   * - Throws if the key is wrong or the envelope was modified
+   */
+  public static decrypt(envelope: SecretEnvelope, secret: string): string {
+    if (envelope.version !== 1 || envelope.algorithm !== 'aes-256-gcm') {
+      throw new Error(`Unsupported secret format (version ${envelope.version}, ${envelope.algorithm})`);
+    }
+
+    const salt = Buffer.from(envelope.salt, 'base64');
+    const key = crypto.scryptSync(secret, salt, SecretBox.KEY_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    try {
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, 'base64')),
+        decipher.final()
+      ]);
+      return plaintext.toString('utf-8');
+    } catch (error) {
+      throw new Error('Decryption failed (wrong key or tampered data)');
+    }
+  }
+
+  /**
+   * Check if a parsed JSON value looks like a SecretBox envelope
+   */
+  public static isEnvelope(value: any): value is SecretEnvelope {
+    return !!value && typeof value === 'object' && value.format === 'willsub-secret';
+  }
+}
+
+export default SecretBox;
@@ -0,0 +1,95 @@
+import * as crypto from 'crypto';
+
+/**
+ * TotpGenerator
+ * Generates time-based one-time passwords (RFC 6238)
+ *
+ * Defaults match Keycloak's OTP policy defaults and authenticator apps:
+ * - HMAC-SHA1, 6 digits, 30-second period
+ * - Secret given as base32 (the value behind the QR code)
+ */
+
+export interface TotpOptions {
+  digits?: number;
+  period?: number; // seconds
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+}
+
+class TotpGenerator {
+  private key: Buffer;
+  private digits: number;
+  private period: number;
+  private algorithm: string;
+
+  constructor(base32Secret: string, options: TotpOptions = {}) {
+    this.key = TotpGenerator.decodeBase32(base32Secret);
+    this.digits = options.digits || 6;
+    this.period = options.period || 30;
+    this.algorithm = options.algorithm || 'sha1';
+  }
+
+  /**
+   * Decode an RFC 4648 base32 string (spaces, dashes and padding ignored)
+   */
+  public static decodeBase32(input: string): Buffer {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+    if (!cleaned) {
+      throw new Error('TOTP secret is empty');
+    }
+
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of cleaned) {
+      const value = alphabet.indexOf(char);
+      if (value === -1) {
+        throw new Error(`TOTP secret is not valid base32 (unexpected "${char}")`);
+      }
+      buffer = (buffer << 5) | value;
+      bits += 5;
+      if (bits >= 8) {
+        bits -= 8;
+        bytes.push((buffer >> bits) & 0xff);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Generate the code for a point in time (default: now)
+   */
+  public generate(timestampMs: number = Date.now()): string {
+    const counter = Math.floor(timestampMs / 1000 / this.period);
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac(this.algorithm, this.key).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** this.digits;
+
+    return String(binary).padStart(this.digits, '0');
+  }
+
+  /**
+   * Generate a code that stays valid for at least minSeconds
+   * - Waits for the next period if the current code is about to roll over
+   */
+  public async generateFresh(minSeconds: number = 3): Promise<string> {
+    const remaining = this.secondsRemaining();
+    if (remaining < minSeconds) {
+      await new Promise(resolve => setTimeout(resolve, remaining * 1000));
+    }
+    return this.generate();
+  }
+
+  /**
+   * Seconds until the current code expires
+   * - Useful to avoid submitting a code right before it rolls over
+   */
+  public secondsRemaining(timestampMs: number = Date.now()): number {
+    return this.period - (Math.floor(timestampMs / 1000) % this.period);
+  }
+}
+
+export default TotpGenerator;
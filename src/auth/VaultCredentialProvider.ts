@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import SecretBox from './SecretBox';
+import { CredentialProvider } from './CredentialProvider';
+import { LoginCredentials } from './LoginStrategy';
+
+/**
+ * VaultCredentialProvider
+ * Reads credentials from a local file encrypted with a passphrase
+ *
+ * Format:
+ * - A SecretBox envelope (AES-256-GCM, scrypt) around {username, password, totpSecret?}
+ * - Passphrase from WILLSUB_VAULT_KEY, WILLSUB_VAULT_KEY_FILE or credentialProvider.vaultKeyFile
+ *
+ * Create or update the vault with: node dist/index.js --write-credential-vault
+ * (reads WILLSUB_USERNAME, WILLSUB_PASSWORD and WILLSUB_TOTP_SECRET from the environment)
+ */
+
+class VaultCredentialProvider implements CredentialProvider {
+  public readonly name = 'vault' as const;
+  private vaultFile: string;
+  private keyFile?: string;
+
+  constructor(vaultFile: string, keyFile?: string) {
+    this.vaultFile = vaultFile;
+    this.keyFile = keyFile;
+  }
+
+  /**
+   * Resolve the vault passphrase
+   * Priority: WILLSUB_VAULT_KEY > WILLSUB_VAULT_KEY_FILE > configured key file
+   */
+  public static resolveKey(configKeyFile?: string): string {
+    if (process.env.WILLSUB_VAULT_KEY) {
+      return process.env.WILLSUB_VAULT_KEY;
+    }
+
+    const keyFile = process.env.WILLSUB_VAULT_KEY_FILE || configKeyFile;
+    if (!keyFile) {
+      throw new Error('Credential vault needs WILLSUB_VAULT_KEY, WILLSUB_VAULT_KEY_FILE or credentialProvider.vaultKeyFile');
+    }
+    const key = fs.readFileSync(keyFile, 'utf-8').trim();
+    if (!key) {
+      throw new Error(`Vault key file is empty: ${keyFile}`);
+    }
+    return key;
+  }
+
+  /**
+   * Encrypt credentials into a vault file (mode 0600, atomic write)
+   */
+  public static write(vaultFile: string, credentials: LoginCredentials, key: string): void {
+    const envelope = SecretBox.encrypt(JSON.stringify(credentials), key);
+    const tempPath = path.join(path.dirname(vaultFile), `.${path.basename(vaultFile)}.${process.pid}.tmp`);
+    fs.writeFileSync(tempPath, JSON.stringify(envelope, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, vaultFile);
+  }
+
+  public async getCredentials(): Promise<LoginCredentials> {
+    let envelope: unknown;
+    try {
+      envelope = JSON.parse(fs.readFileSync(this.vaultFile, 'utf-8'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read credential vault ${this.vaultFile}: ${errorMessage}`);
+    }
+    if (!SecretBox.isEnvelope(envelope)) {
+      throw new Error(`Credential vault ${this.vaultFile} is not an encrypted vault file`);
+    }
+
+    const key = VaultCredentialProvider.resolveKey(this.keyFile);
+    let credentials: Partial<LoginCredentials>;
+    try {
+      credentials = JSON.parse(SecretBox.decrypt(envelope, key));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not decrypt credential vault ${this.vaultFile}: ${errorMessage}`);
+    }
+
+    if (!credentials.username || !credentials.password) {
+      throw new Error(`Credential vault ${this.vaultFile} has no username or password`);
+    }
+    return {
+      username: credentials.username,
+      password: credentials.password,
+      totpSecret: credentials.totpSecret
+    };
+  }
+}
+
+export default VaultCredentialProvider;
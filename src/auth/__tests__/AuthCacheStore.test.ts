@@ -0,0 +1,144 @@
+import AuthCacheStore from '../AuthCacheStore';
+import * as fs from 'fs';
+
+/**
+ * Unit Tests for AuthCacheStore
+ * 
+ * Features tested:
+ * - Encrypted round trip and plain JSON fallback
+ * - Owner-only file permissions and atomic writes
+ * - Rejection of open permissions, wrong keys and tampered data
+ * - An unreadable key disabling the cache, a warning for unencrypted saves
+ */
+
+describe('AuthCacheStore', () => {
+  const testCacheFile = './test_auth_cache_store.json';
+  const session = { cookies: 'a=b', bearerToken: 'token-123', userId: '42', timestamp: 1, ttl: 1000 };
+
+  afterEach(() => {
+    if (fs.existsSync(testCacheFile)) {
+      fs.unlinkSync(testCacheFile);
+    }
+    delete process.env.WILLSUB_CACHE_KEY;
+    delete process.env.WILLSUB_CACHE_KEY_FILE;
+  });
+
+  describe('Encryption', () => {
+    it('should round-trip an encrypted session without plaintext secrets on disk', () => {
+      const store = new AuthCacheStore<typeof session>(testCacheFile, 'correct horse battery staple');
+      store.save(session);
+
+      const raw = fs.readFileSync(testCacheFile, 'utf-8');
+      expect(raw).not.toContain('token-123');
+      expect(JSON.parse(raw).algorithm).toBe('aes-256-gcm');
+
+      expect(store.load()).toEqual({ status: 'ok', session });
+    });
+
+    it('should reject a cache encrypted with a different key', () => {
+      new AuthCacheStore(testCacheFile, 'key-one').save(session);
+
+      const result = new AuthCacheStore(testCacheFile, 'key-two').load();
+
+      expect(result.status).toBe('rejected');
+    });
+
+    it('should reject a tampered cache', () => {
+      new AuthCacheStore(testCacheFile, 'secret').save(session);
+      const envelope = JSON.parse(fs.readFileSync(testCacheFile, 'utf-8'));
+      const data = Buffer.from(envelope.data, 'base64');
+      data[0] ^= 0xff;
+      envelope.data = data.toString('base64');
+      fs.writeFileSync(testCacheFile, JSON.stringify(envelope), { mode: 0o600 });
+
+      const result = new AuthCacheStore(testCacheFile, 'secret').load();
+
+      expect(result.status).toBe('rejected');
+    });
+
+    it('should reject a plain cache once a key is configured', () => {
+      new AuthCacheStore(testCacheFile, null).save(session);
+
+      const result = new AuthCacheStore(testCacheFile, 'secret').load();
+
+      expect(result).toEqual({ status: 'rejected', reason: expect.stringContaining('not encrypted') });
+    });
+
+    it('should resolve the key from WILLSUB_CACHE_KEY', () => {
+      process.env.WILLSUB_CACHE_KEY = 'from-env';
+      expect(AuthCacheStore.resolveKey()).toBe('from-env');
+    });
+  });
+
+  describe('Key resolution', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should disable the cache when the key file cannot be read', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      process.env.WILLSUB_CACHE_KEY_FILE = './missing-cache-key.txt';
+      fs.writeFileSync(testCacheFile, JSON.stringify(session), { mode: 0o600 });
+
+      const store = AuthCacheStore.open<typeof session>(testCacheFile);
+      store.save({ ...session, bearerToken: 'token-456' });
+
+      expect(store.isEnabled()).toBe(false);
+      expect(store.load()).toEqual({ status: 'missing' });
+      expect(fs.readFileSync(testCacheFile, 'utf-8')).toContain('token-123');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Auth cache disabled'));
+    });
+
+    it('should warn once when saving without a key', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const store = AuthCacheStore.open<typeof session>(testCacheFile);
+
+      store.save(session);
+      store.save(session);
+
+      expect(store.isEnabled()).toBe(true);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('saved unencrypted'));
+    });
+  });
+
+  describe('File permissions', () => {
+    const posixOnly = process.platform === 'win32' ? it.skip : it;
+
+    posixOnly('should write the cache with mode 0600', () => {
+      new AuthCacheStore(testCacheFile, null).save(session);
+
+      expect(fs.statSync(testCacheFile).mode & 0o777).toBe(0o600);
+    });
+
+    posixOnly('should refuse a cache readable by other users', () => {
+      fs.writeFileSync(testCacheFile, JSON.stringify(session));
+      fs.chmodSync(testCacheFile, 0o644);
+
+      const result = new AuthCacheStore(testCacheFile, null).load();
+
+      expect(result).toEqual({ status: 'rejected', reason: expect.stringContaining('permissions too open') });
+    });
+
+    posixOnly('should tighten permissions when overwriting an existing cache', () => {
+      fs.writeFileSync(testCacheFile, '{}');
+      fs.chmodSync(testCacheFile, 0o644);
+
+      new AuthCacheStore(testCacheFile, null).save(session);
+
+      expect(fs.statSync(testCacheFile).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('Missing and corrupted cache', () => {
+    it('should report a missing cache', () => {
+      expect(new AuthCacheStore(testCacheFile).load()).toEqual({ status: 'missing' });
+    });
+
+    it('should reject invalid JSON', () => {
+      fs.writeFileSync(testCacheFile, 'invalid json {]', { mode: 0o600 });
+
+      expect(new AuthCacheStore(testCacheFile).load().status).toBe('rejected');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import ConfigCredentialProvider from '../ConfigCredentialProvider';
+import FileCredentialProvider from '../FileCredentialProvider';
+import VaultCredentialProvider from '../VaultCredentialProvider';
+import CommandCredentialProvider from '../CommandCredentialProvider';
+import ConfigManager from '../../config/ConfigManager';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Tests for the credential providers
+ *
+ * Covers:
+ * - config: values read at call time
+ * - file: *_FILE secrets, environment over config, trimming
+ * - vault: round trip, wrong key, missing key
+ * - command: JSON and pass-style output, failures
+ */
+
+describe('Credential providers', () => {
+  let directory: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'willsub-credentials-'));
+    delete process.env.WILLSUB_USERNAME_FILE;
+    delete process.env.WILLSUB_PASSWORD_FILE;
+    delete process.env.WILLSUB_TOTP_SECRET_FILE;
+    delete process.env.WILLSUB_VAULT_KEY;
+    delete process.env.WILLSUB_VAULT_KEY_FILE;
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    process.env = { ...savedEnv };
+    jest.restoreAllMocks();
+  });
+
+  function writeFile(name: string, content: string): string {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content, { mode: 0o600 });
+    return filePath;
+  }
+
+  describe('ConfigCredentialProvider', () => {
+    it('should read the credentials from config on every call', async () => {
+      const configManager = ConfigManager.getInstance();
+      const getSpy = jest.spyOn(configManager, 'get')
+        .mockReturnValueOnce({ username: 'first@example.com', password: 'one' })
+        .mockReturnValueOnce({ username: 'first@example.com', password: 'rotated', totpSecret: 'JBSWY3DP' });
+      const provider = new ConfigCredentialProvider(configManager);
+
+      expect((await provider.getCredentials()).password).toBe('one');
+      expect(await provider.getCredentials()).toEqual({ username: 'first@example.com', password: 'rotated', totpSecret: 'JBSWY3DP' });
+      expect(getSpy).toHaveBeenCalledWith('credentials');
+    });
+  });
+
+  describe('FileCredentialProvider', () => {
+    it('should read trimmed secrets from the configured files', async () => {
+      const provider = new FileCredentialProvider({
+        passwordFile: writeFile('password', 'secret\n'),
+        totpSecretFile: writeFile('totp', ' JBSWY3DPEHPK3PXP \n'),
+        fallbackUsername: 'sub@example.com'
+      });
+
+      expect(await provider.getCredentials()).toEqual({
+        username: 'sub@example.com',
+        password: 'secret',
+        totpSecret: 'JBSWY3DPEHPK3PXP'
+      });
+    });
+
+    it('should prefer the *_FILE environment variables over config', async () => {
+      process.env.WILLSUB_USERNAME_FILE = writeFile('username', 'env@example.com');
+      process.env.WILLSUB_PASSWORD_FILE = writeFile('env-password', 'from-env');
+      const provider = new FileCredentialProvider({ passwordFile: writeFile('password', 'from-config') });
+
+      const credentials = await provider.getCredentials();
+      expect(credentials.username).toBe('env@example.com');
+      expect(credentials.password).toBe('from-env');
+    });
+
+    it('should fail clearly for a missing or empty secret file', async () => {
+      await expect(new FileCredentialProvider({}).getCredentials()).rejects.toThrow('WILLSUB_PASSWORD_FILE');
+      await expect(
+        new FileCredentialProvider({ passwordFile: path.join(directory, 'missing') }).getCredentials()
+      ).rejects.toThrow('Could not read secret file');
+      await expect(
+        new FileCredentialProvider({ passwordFile: writeFile('empty', '\n') }).getCredentials()
+      ).rejects.toThrow('Secret file is empty');
+    });
+  });
+
+  describe('VaultCredentialProvider', () => {
+    it('should decrypt credentials written with the same key', async () => {
+      const vaultFile = path.join(directory, 'credentials.vault.json');
+      VaultCredentialProvider.write(vaultFile, { username: 'sub@example.com', password: 'secret' }, 'vault-key');
+      process.env.WILLSUB_VAULT_KEY = 'vault-key';
+
+      const credentials = await new VaultCredentialProvider(vaultFile).getCredentials();
+
+      expect(credentials).toEqual({ username: 'sub@example.com', password: 'secret', totpSecret: undefined });
+      expect(fs.readFileSync(vaultFile, 'utf-8')).not.toContain('sub@example.com');
+      expect(fs.statSync(vaultFile).mode & 0o777).toBe(0o600);
+    });
+
+    it('should read the key from a key file', async () => {
+      const vaultFile = path.join(directory, 'credentials.vault.json');
+      VaultCredentialProvider.write(vaultFile, { username: 'sub@example.com', password: 'secret' }, 'file-key');
+
+      const credentials = await new VaultCredentialProvider(vaultFile, writeFile('vault.key', 'file-key\n')).getCredentials();
+
+      expect(credentials.password).toBe('secret');
+    });
+
+    it('should refuse a wrong key or a missing key', async () => {
+      const vaultFile = path.join(directory, 'credentials.vault.json');
+      VaultCredentialProvider.write(vaultFile, { username: 'sub@example.com', password: 'secret' }, 'vault-key');
+
+      await expect(new VaultCredentialProvider(vaultFile).getCredentials()).rejects.toThrow('WILLSUB_VAULT_KEY');
+
+      process.env.WILLSUB_VAULT_KEY = 'wrong-key';
+      await expect(new VaultCredentialProvider(vaultFile).getCredentials()).rejects.toThrow('Could not decrypt');
+    });
+  });
+
+  describe('CommandCredentialProvider', () => {
+    it('should parse JSON output', async () => {
+      const provider = new CommandCredentialProvider({
+        command: `echo '{"username":"sub@example.com","password":"secret","totpSecret":"JBSWY3DP"}'`
+      });
+
+      expect(await provider.getCredentials()).toEqual({ username: 'sub@example.com', password: 'secret', totpSecret: 'JBSWY3DP' });
+    });
+
+    it('should parse pass-style output with the password on the first line', async () => {
+      const provider = new CommandCredentialProvider({
+        command: `printf 'secret\\nusername: sub@example.com\\notpauth://totp/WillSub?secret=JBSWY3DPEHPK3PXP&issuer=WillSub\\n'`
+      });
+
+      expect(await provider.getCredentials()).toEqual({ username: 'sub@example.com', password: 'secret', totpSecret: 'JBSWY3DPEHPK3PXP' });
+    });
+
+    it('should fall back to the configured username', async () => {
+      const provider = new CommandCredentialProvider({ command: 'echo secret', fallbackUsername: 'config@example.com' });
+
+      expect((await provider.getCredentials()).username).toBe('config@example.com');
+    });
+
+    it('should fail on a non-zero exit, a timeout or empty output', async () => {
+      await expect(new CommandCredentialProvider({ command: 'exit 3' }).getCredentials()).rejects.toThrow('exited with code 3');
+      await expect(
+        new CommandCredentialProvider({ command: 'sleep 5', timeoutSeconds: 0.2 }).getCredentials()
+      ).rejects.toThrow('timed out');
+      await expect(new CommandCredentialProvider({ command: 'true' }).getCredentials()).rejects.toThrow('no password');
+    });
+  });
+});
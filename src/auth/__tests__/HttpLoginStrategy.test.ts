@@ -0,0 +1,167 @@
+import HttpLoginStrategy from '../HttpLoginStrategy';
+import TotpGenerator from '../TotpGenerator';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+
+/**
+ * Tests for HttpLoginStrategy
+ *
+ * Runs the OIDC authorization-code flow against a local stand-in for Keycloak:
+ * - Login form discovery through redirects
+ * - Cookie jar handling between requests
+ * - Credential rejection messages
+ * - TOTP one-time code step
+ * - PKCE code exchange
+ */
+
+describe('HttpLoginStrategy', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let codeChallenge = '';
+  let state = '';
+  const totpSecret = 'JBSWY3DPEHPK3PXP';
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', baseUrl);
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const form = new URLSearchParams(body);
+
+        // Entry point redirects once, like Keycloak does for realm URLs
+        if (url.pathname === '/realms/test/protocol/openid-connect/auth') {
+          codeChallenge = url.searchParams.get('code_challenge') || '';
+          state = url.searchParams.get('state') || '';
+          res.writeHead(302, { Location: '/realms/test/login', 'Set-Cookie': 'AUTH_SESSION_ID=session-1; Path=/realms/test' });
+          res.end();
+          return;
+        }
+
+        if (url.pathname === '/realms/test/login') {
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end(`<html><body>
+            <form id="kc-form-login" class="form" action="${baseUrl}/realms/test/login-actions/authenticate?session_code=abc&amp;execution=xyz" method="post">
+              <input id="username" name="username"><input id="password" name="password" type="password">
+              <input id="kc-login" type="submit">
+            </form></body></html>`);
+          return;
+        }
+
+        if (url.pathname === '/realms/test/login-actions/authenticate') {
+          const hasSession = (req.headers.cookie || '').includes('AUTH_SESSION_ID=session-1');
+          const validQuery = url.searchParams.get('execution') === 'xyz';
+          if (hasSession && validQuery && form.get('username') === 'otp@example.com' && form.get('password') === 'secret') {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end(`<html><body>
+              <form id="kc-otp-login-form" action="${baseUrl}/realms/test/login-actions/otp?session_code=abc" method="post">
+                <input id="otp" name="otp"><input id="kc-login" type="submit">
+              </form></body></html>`);
+            return;
+          }
+          if (hasSession && validQuery && form.get('username') === 'sub@example.com' && form.get('password') === 'secret') {
+            res.writeHead(302, {
+              Location: `${baseUrl}/app/?state=${state}&code=auth-code-1`,
+              'Set-Cookie': 'APP_SESSION=app-1; Path=/app; Max-Age=3600'
+            });
+            res.end();
+          } else {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end('<span id="input-error" class="kc-feedback-text">Invalid username or password.</span>');
+          }
+          return;
+        }
+
+        if (url.pathname === '/realms/test/login-actions/otp') {
+          if (form.get('otp') === new TotpGenerator(totpSecret).generate()) {
+            res.writeHead(302, { Location: `${baseUrl}/app/?state=${state}&code=auth-code-1` });
+          } else {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end(`<form id="kc-otp-login-form" action="/realms/test/login-actions/otp" method="post"></form>
+              <span id="input-error">Invalid authenticator code.</span>`);
+            return;
+          }
+          res.end();
+          return;
+        }
+
+        if (url.pathname === '/realms/test/protocol/openid-connect/token') {
+          const verifier = form.get('code_verifier') || '';
+          const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+          if (form.get('code') === 'auth-code-1' && challenge === codeChallenge) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ access_token: 'access-1', refresh_token: 'refresh-1', refresh_expires_in: 1800 }));
+          } else {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'invalid_grant' }));
+          }
+          return;
+        }
+
+        res.writeHead(404);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function createStrategy(): HttpLoginStrategy {
+    return new HttpLoginStrategy({
+      issuer: `${baseUrl}/realms/test`,
+      clientId: 'willsub-app',
+      redirectUri: `${baseUrl}/app/`
+    });
+  }
+
+  it('should log in and exchange the authorization code for tokens', async () => {
+    const session = await createStrategy().authenticate({ username: 'sub@example.com', password: 'secret' });
+
+    expect(session.accessToken).toBe('access-1');
+    expect(session.refreshToken).toBe('refresh-1');
+    expect(session.refreshExpiresIn).toBe(1800);
+    expect(session.cookies).toBe('APP_SESSION=app-1');
+    expect(session.cookieExpiries.length).toBe(1);
+  });
+
+  it('should surface the Keycloak error message on bad credentials', async () => {
+    await expect(
+      createStrategy().authenticate({ username: 'sub@example.com', password: 'wrong' })
+    ).rejects.toThrow('Login rejected: Invalid username or password.');
+  });
+
+  it('should answer the OTP step with a generated TOTP code', async () => {
+    const session = await createStrategy().authenticate({ username: 'otp@example.com', password: 'secret', totpSecret });
+
+    expect(session.accessToken).toBe('access-1');
+  });
+
+  it('should fail with otp_required when no TOTP secret is configured', async () => {
+    await expect(
+      createStrategy().authenticate({ username: 'otp@example.com', password: 'secret' })
+    ).rejects.toMatchObject({ reason: 'otp_required' });
+  });
+
+  it('should fail with otp_rejected when the code is not accepted', async () => {
+    await expect(
+      createStrategy().authenticate({ username: 'otp@example.com', password: 'secret', totpSecret: 'GEZDGNBVGY3TQOJQ' })
+    ).rejects.toMatchObject({ reason: 'otp_rejected', message: 'One-time code rejected: Invalid authenticator code.' });
+  });
+
+  it('should fail clearly when no login form is found', async () => {
+    const strategy = new HttpLoginStrategy({
+      issuer: `${baseUrl}/realms/missing`,
+      clientId: 'willsub-app',
+      redirectUri: `${baseUrl}/app/`
+    });
+
+    await expect(
+      strategy.authenticate({ username: 'sub@example.com', password: 'secret' })
+    ).rejects.toThrow('Login form not found');
+  });
+});
@@ -0,0 +1,85 @@
+import LoginThrottle from '../LoginThrottle';
+import * as fs from 'fs';
+
+/**
+ * Tests for LoginThrottle
+ *
+ * Covers:
+ * - Exponential backoff with a cap
+ * - Lockout after the configured number of failures
+ * - Persistence across instances (restarts)
+ * - One-time lockout alert and operator reset
+ */
+
+describe('LoginThrottle', () => {
+  const stateFile = './test_login_throttle.json';
+  const options = { baseDelaySeconds: 60, maxDelaySeconds: 300, maxConsecutiveFailures: 5 };
+
+  afterEach(() => {
+    if (fs.existsSync(stateFile)) {
+      fs.unlinkSync(stateFile);
+    }
+  });
+
+  it('should allow a login when no failures are recorded', () => {
+    expect(new LoginThrottle(stateFile, options).check()).toEqual({ allowed: true });
+  });
+
+  it('should double the delay per failure up to the cap', () => {
+    const throttle = new LoginThrottle(stateFile, options);
+
+    expect(throttle.getDelayMs(1)).toBe(60000);
+    expect(throttle.getDelayMs(2)).toBe(120000);
+    expect(throttle.getDelayMs(3)).toBe(240000);
+    expect(throttle.getDelayMs(4)).toBe(300000);
+  });
+
+  it('should back off after a failure and allow the login once the delay has passed', () => {
+    const throttle = new LoginThrottle(stateFile, options);
+    const failedAt = 1_000_000;
+    throttle.recordFailure('Invalid username or password.', failedAt);
+
+    const decision = throttle.check(failedAt + 59000);
+    expect(decision).toMatchObject({ allowed: false, reason: 'backoff', retryAt: failedAt + 60000 });
+    expect(throttle.check(failedAt + 60000)).toEqual({ allowed: true });
+  });
+
+  it('should lock out after the maximum number of consecutive failures and survive a restart', () => {
+    const throttle = new LoginThrottle(stateFile, options);
+    for (let i = 0; i < 5; i++) {
+      throttle.recordFailure('Invalid username or password.', 1_000_000 + i);
+    }
+
+    const restarted = new LoginThrottle(stateFile, options);
+    const decision = restarted.check(Date.now() + 24 * 60 * 60 * 1000);
+    expect(decision).toMatchObject({ allowed: false, reason: 'locked_out' });
+    expect(fs.statSync(stateFile).mode & 0o777).toBe(0o600);
+  });
+
+  it('should hand out the lockout alert only once', () => {
+    const throttle = new LoginThrottle(stateFile, { ...options, maxConsecutiveFailures: 1 });
+
+    expect(throttle.claimLockoutAlert()).toBe(false);
+    throttle.recordFailure('Invalid username or password.');
+    expect(throttle.claimLockoutAlert()).toBe(true);
+    expect(new LoginThrottle(stateFile, options).claimLockoutAlert()).toBe(false);
+  });
+
+  it('should reset on success and when an operator clears it', () => {
+    const throttle = new LoginThrottle(stateFile, { ...options, maxConsecutiveFailures: 1 });
+    throttle.recordFailure('boom');
+    expect(throttle.clear()).toBe(true);
+    expect(throttle.check()).toEqual({ allowed: true });
+    expect(throttle.clear()).toBe(false);
+
+    throttle.recordFailure('boom');
+    throttle.recordSuccess();
+    expect(throttle.load()).toBeNull();
+  });
+
+  it('should treat an unreadable state file as a lockout', () => {
+    fs.writeFileSync(stateFile, 'not json {');
+
+    expect(new LoginThrottle(stateFile, options).check()).toMatchObject({ allowed: false, reason: 'locked_out' });
+  });
+});
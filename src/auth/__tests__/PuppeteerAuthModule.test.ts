@@ -1,7 +1,10 @@
 import PuppeteerAuthModule from '../PuppeteerAuthModule';
+import { LoginStrategy } from '../LoginStrategy';
 import ConfigManager from '../../config/ConfigManager';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 
 /**
  * Integration Tests for PuppeteerAuthModule
@@ -12,14 +15,32 @@ import * as path from 'path';
  * - Fast reuse of cached sessions
  * - Cache invalidation and refresh
  * - Error handling for corrupted/missing cache
+ * - Browserless refresh against a local stand-in token endpoint
  * 
  * These tests verify real authentication against willsubplus.com with Keycloak
  */
 
+/**
+ * Make the module log in with a stub strategy instead of a browser
+ */
+function useLoginStrategy(authModule: PuppeteerAuthModule, strategy: LoginStrategy): void {
+  jest.spyOn(authModule as unknown as { createLoginStrategy: () => LoginStrategy }, 'createLoginStrategy')
+    .mockReturnValue(strategy);
+}
+
+/**
+ * Build an unsigned JWT for tests
+ */
+function makeJwt(payload: object): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
 describe('PuppeteerAuthModule', () => {
   let authModule: PuppeteerAuthModule;
   let configManager: ConfigManager;
   const testCacheFile = './test_auth_cache.json';
+  const testThrottleFile = './test_auth_cache.throttle.json';
 
   beforeEach(() => {
     configManager = ConfigManager.getInstance();
@@ -30,10 +51,15 @@ describe('PuppeteerAuthModule', () => {
   });
 
   afterEach(async () => {
+    authModule.stopProactiveRefresh();
+
     // Clean up test cache file
     if (fs.existsSync(testCacheFile)) {
       fs.unlinkSync(testCacheFile);
     }
+    if (fs.existsSync(testThrottleFile)) {
+      fs.unlinkSync(testThrottleFile);
+    }
 
     // Ensure browser is closed
     if (authModule.getBrowser()) {
@@ -318,4 +344,342 @@ describe('PuppeteerAuthModule', () => {
       60000
     );
   });
+
+  /**
+   * Test 8: Refresh token grant (no browser)
+   */
+  describe('Refresh Token Grant', () => {
+    let server: http.Server;
+    let tokenEndpoint: string;
+    let requests: URLSearchParams[];
+    let respond: (res: http.ServerResponse) => void;
+
+    beforeEach(async () => {
+      requests = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          requests.push(new URLSearchParams(body));
+          respond(res);
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      tokenEndpoint = `http://127.0.0.1:${port}/realms/test/protocol/openid-connect/token`;
+
+      fs.writeFileSync(testCacheFile, JSON.stringify({
+        cookies: 'KEYCLOAK_SESSION=abc',
+        bearerToken: makeJwt({ sub: 'f:realm:111', azp: 'willsub-app' }),
+        refreshToken: 'old-refresh-token',
+        tokenEndpoint,
+        clientId: 'willsub-app',
+        userId: '111',
+        timestamp: Date.now(),
+        ttl: 12 * 60 * 60 * 1000
+      }), { mode: 0o600 });
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should renew the access token over HTTP without launching a browser', async () => {
+      const newAccessToken = makeJwt({ sub: 'f:realm:111', azp: 'willsub-app', jti: 'new' });
+      respond = res => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: newAccessToken, refresh_token: 'new-refresh-token', expires_in: 300 }));
+      };
+
+      await authModule.login();
+      const loginSpy = jest.spyOn(authModule, 'login');
+      const result = await authModule.reAuthenticate();
+
+      expect(result.success).toBe(true);
+      expect(result.bearerToken).toBe(newAccessToken);
+      expect(result.userId).toBe('111');
+      expect(loginSpy).not.toHaveBeenCalled();
+      expect(authModule.getBrowser()).toBeNull();
+
+      expect(requests[0].get('grant_type')).toBe('refresh_token');
+      expect(requests[0].get('client_id')).toBe('willsub-app');
+      expect(requests[0].get('refresh_token')).toBe('old-refresh-token');
+
+      const cacheData = JSON.parse(fs.readFileSync(testCacheFile, 'utf-8'));
+      expect(cacheData.bearerToken).toBe(newAccessToken);
+      expect(cacheData.refreshToken).toBe('new-refresh-token');
+    });
+
+    it('should fall back to a browser login when the refresh token is rejected', async () => {
+      respond = res => {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'invalid_grant', error_description: 'Token is not active' }));
+      };
+
+      await authModule.login();
+      const loginSpy = jest.spyOn(authModule, 'login').mockResolvedValue({ success: true, message: 'browser login' });
+      const result = await authModule.reAuthenticate();
+
+      expect(requests.length).toBe(1);
+      expect(loginSpy).toHaveBeenCalledTimes(1);
+      expect(result.message).toBe('browser login');
+    });
+
+    it('should not launch a browser when the token endpoint is temporarily down', async () => {
+      respond = res => {
+        res.writeHead(503);
+        res.end();
+      };
+
+      await authModule.login();
+      const loginSpy = jest.spyOn(authModule, 'login');
+      const result = await authModule.reAuthenticate();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('503');
+      expect(loginSpy).not.toHaveBeenCalled();
+    });
+
+    it('should coalesce concurrent re-authentications into one refresh', async () => {
+      const newAccessToken = makeJwt({ sub: 'f:realm:111', azp: 'willsub-app', jti: 'new' });
+      respond = res => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: newAccessToken, refresh_token: 'new-refresh-token', expires_in: 300 }));
+      };
+
+      const loginResult = await authModule.login();
+      const holder = authModule.getTokenHolder();
+      const tokens = await Promise.all([
+        holder.refresh(loginResult.bearerToken!),
+        holder.refresh(loginResult.bearerToken!),
+        authModule.reAuthenticate()
+      ]);
+
+      expect(requests.length).toBe(1);
+      expect(tokens[0]).toBe(newAccessToken);
+      expect(tokens[1]).toBe(newAccessToken);
+      expect(tokens[2].bearerToken).toBe(newAccessToken);
+      expect(holder.get()).toBe(newAccessToken);
+    });
+
+    it('should reuse a token that was already refreshed instead of refreshing again', async () => {
+      const newAccessToken = makeJwt({ sub: 'f:realm:111', azp: 'willsub-app', jti: 'new' });
+      respond = res => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: newAccessToken, expires_in: 300 }));
+      };
+
+      const staleToken = (await authModule.login()).bearerToken!;
+      await authModule.refreshStaleToken(staleToken);
+      const second = await authModule.refreshStaleToken(staleToken);
+
+      expect(requests.length).toBe(1);
+      expect(second.success).toBe(true);
+      expect(second.bearerToken).toBe(newAccessToken);
+      expect(second.message).toBe('Token already refreshed');
+    });
+
+    describe('in the background', () => {
+      const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+      // Token past its refresh threshold, so the background refresh is due right away
+      function writeDueCache(extra: object = {}) {
+        const iat = nowSeconds() - 290;
+        fs.writeFileSync(testCacheFile, JSON.stringify({
+          cookies: 'KEYCLOAK_SESSION=abc',
+          bearerToken: makeJwt({ sub: 'f:realm:111', azp: 'willsub-app', iat, exp: iat + 300 }),
+          refreshToken: 'old-refresh-token',
+          tokenEndpoint,
+          clientId: 'willsub-app',
+          userId: '111',
+          timestamp: Date.now(),
+          ttl: 12 * 60 * 60 * 1000,
+          tokenIssuedAt: iat * 1000,
+          tokenExpiresAt: (iat + 300) * 1000,
+          ...extra
+        }), { mode: 0o600 });
+      }
+
+      async function waitFor(condition: () => boolean) {
+        for (let waited = 0; !condition() && waited < 3000; waited += 20) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        expect(condition()).toBe(true);
+      }
+
+      it('should renew the token with the refresh token when due, without a browser login', async () => {
+        const iat = nowSeconds();
+        const newAccessToken = makeJwt({ sub: 'f:realm:111', azp: 'willsub-app', jti: 'new', iat, exp: iat + 300 });
+        respond = res => {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ access_token: newAccessToken, refresh_token: 'new-refresh-token', expires_in: 300 }));
+        };
+        writeDueCache();
+
+        await authModule.login();
+        const loginSpy = jest.spyOn(authModule, 'login');
+        await waitFor(() => authModule.getBearerToken() === newAccessToken);
+
+        expect(requests.map(request => request.get('grant_type'))).toEqual(['refresh_token']);
+        expect(loginSpy).not.toHaveBeenCalled();
+        expect(authModule.getNextProactiveRefreshAt()).toBe(authModule.getRefreshDueAt());
+      });
+
+      it('should retry with backoff when the token endpoint fails', async () => {
+        respond = res => {
+          res.writeHead(503);
+          res.end();
+        };
+        writeDueCache();
+
+        await authModule.login();
+        const loginSpy = jest.spyOn(authModule, 'login');
+        await waitFor(() => requests.length === 1 && authModule.getNextProactiveRefreshAt() !== null);
+
+        const retryIn = authModule.getNextProactiveRefreshAt()! - Date.now();
+        expect(retryIn).toBeGreaterThan(25 * 1000);
+        expect(retryIn).toBeLessThanOrEqual(30 * 1000);
+        expect(loginSpy).not.toHaveBeenCalled();
+      });
+
+      it('should not schedule a refresh without a refresh token', async () => {
+        writeDueCache({ refreshToken: undefined });
+
+        const result = await authModule.login();
+
+        expect(result.success).toBe(true);
+        expect(authModule.getNextProactiveRefreshAt()).toBeNull();
+        expect(requests).toEqual([]);
+      });
+    });
+  });
+
+  /**
+   * Test 9: Token expiry derived from the JWT exp/iat claims
+   */
+  describe('Token Expiry (JWT exp)', () => {
+    const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+    function writeCache(accessToken: string, extra: object = {}) {
+      fs.writeFileSync(testCacheFile, JSON.stringify({
+        cookies: 'KEYCLOAK_SESSION=abc',
+        bearerToken: accessToken,
+        userId: '111',
+        timestamp: Date.now(),
+        ttl: 12 * 60 * 60 * 1000,
+        ...extra
+      }), { mode: 0o600 });
+    }
+
+    it('should read token expiry and compute refresh due time from refreshThresholdPercent', async () => {
+      const iat = nowSeconds();
+      const exp = iat + 300;
+      writeCache(makeJwt({ sub: '111', iat, exp }), { tokenIssuedAt: iat * 1000, tokenExpiresAt: exp * 1000 });
+
+      const result = await authModule.login();
+
+      expect(result.success).toBe(true);
+      expect(authModule.getTokenExpiresAt()).toBe(exp * 1000);
+      // config refreshThresholdPercent is 80 -> refresh after 240s of a 300s token
+      expect(authModule.getRefreshDueAt()).toBe((iat + 240) * 1000);
+    });
+
+    it('should refresh when the token is past the threshold even though the cookies are fresh', async () => {
+      const iat = nowSeconds() - 280;
+      const exp = iat + 300;
+      writeCache(makeJwt({ sub: '111', iat, exp }), { tokenIssuedAt: iat * 1000, tokenExpiresAt: exp * 1000 });
+
+      await authModule.login();
+      const reAuthSpy = jest.spyOn(authModule, 'reAuthenticate').mockResolvedValue({ success: true, message: 'refreshed' });
+      const result = await authModule.verifyAndRefreshAuth();
+
+      expect(reAuthSpy).toHaveBeenCalledTimes(1);
+      expect(result.message).toBe('refreshed');
+    });
+
+    it('should discard a cache whose access and refresh tokens are both expired', async () => {
+      const iat = nowSeconds() - 600;
+      writeCache(makeJwt({ sub: '111', iat, exp: iat + 300 }), {
+        refreshToken: 'refresh',
+        tokenIssuedAt: iat * 1000,
+        tokenExpiresAt: (iat + 300) * 1000,
+        refreshTokenExpiresAt: (iat + 500) * 1000
+      });
+
+      const failingStrategy = {
+        name: 'puppeteer' as const,
+        authenticate: jest.fn().mockRejectedValue(new Error('no browser in test')),
+        close: jest.fn().mockResolvedValue(undefined)
+      };
+      useLoginStrategy(authModule, failingStrategy);
+      const result = await authModule.login('sub@example.com', 'secret');
+
+      expect(failingStrategy.authenticate).toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(fs.existsSync(testCacheFile)).toBe(false);
+    });
+  });
+
+  /**
+   * Test 10: Failed login backoff and lockout
+   */
+  describe('Login Throttling', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    function useStrategy(authenticate: jest.Mock) {
+      const strategy = { name: 'puppeteer' as const, authenticate, close: jest.fn().mockResolvedValue(undefined) };
+      useLoginStrategy(authModule, strategy);
+      return strategy;
+    }
+
+    it('should skip the login while backing off after a failure', async () => {
+      const strategy = useStrategy(jest.fn().mockRejectedValue(new Error('Invalid username or password.')));
+
+      const first = await authModule.login('sub@example.com', 'wrong');
+      const second = await authModule.login('sub@example.com', 'wrong');
+
+      expect(first.success).toBe(false);
+      expect(second.failureReason).toBe('throttled');
+      expect(second.retryAt).toBeGreaterThan(Date.now());
+      expect(strategy.authenticate).toHaveBeenCalledTimes(1);
+      expect(authModule.getLoginThrottleState()?.consecutiveFailures).toBe(1);
+    });
+
+    it('should lock out after repeated failures until the lockout is cleared', async () => {
+      fs.writeFileSync(testThrottleFile, JSON.stringify({
+        consecutiveFailures: 4,
+        lastFailureAt: Date.now() - 24 * 60 * 60 * 1000,
+        lastError: 'Invalid username or password.'
+      }));
+      const strategy = useStrategy(jest.fn().mockRejectedValue(new Error('Invalid username or password.')));
+
+      const failed = await authModule.login('sub@example.com', 'wrong');
+      expect(failed.failureReason).toBe('locked_out');
+      expect(authModule.claimLockoutAlert()).toBe(true);
+      expect(authModule.claimLockoutAlert()).toBe(false);
+
+      const paused = await authModule.login('sub@example.com', 'wrong');
+      expect(paused.failureReason).toBe('locked_out');
+      expect(strategy.authenticate).toHaveBeenCalledTimes(1);
+
+      expect(authModule.clearLoginLockout()).toBe(true);
+      strategy.authenticate.mockResolvedValue({ cookies: 'a=b', cookieExpiries: [], accessToken: '' });
+      const resumed = await authModule.login('sub@example.com', 'secret');
+      expect(resumed.success).toBe(true);
+      expect(authModule.getLoginThrottleState()).toBeNull();
+    });
+
+    it('should not count a login that never reached the strategy', async () => {
+      const strategy = useStrategy(jest.fn());
+      jest.spyOn(configManager, 'get').mockReturnValue(undefined);
+
+      const result = await authModule.login();
+
+      expect(result.success).toBe(false);
+      expect(strategy.authenticate).not.toHaveBeenCalled();
+      expect(authModule.getLoginThrottleState()).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,147 @@
+import puppeteer from 'puppeteer';
+import PuppeteerLoginStrategy from '../PuppeteerLoginStrategy';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+/**
+ * Tests for PuppeteerLoginStrategy
+ *
+ * Covers:
+ * - Defaults and overrides for the login page settings (authentication.login)
+ * - A full browser login against a fixture page with non-default selectors
+ *
+ * Note: the browser tests launch headless Chromium against a local server and are
+ * skipped when no Chrome is installed (PUPPETEER_EXECUTABLE_PATH or Puppeteer's cache)
+ */
+
+function isChromeAvailable(): boolean {
+  try {
+    return fs.existsSync(puppeteer.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+const describeWithChrome = isChromeAvailable() ? describe : describe.skip;
+
+describe('PuppeteerLoginStrategy', () => {
+  describe('resolveOptions', () => {
+    it('should default to the Keycloak selectors and the baseUrl host', () => {
+      const options = PuppeteerLoginStrategy.resolveOptions(undefined, 'https://willsubplus.com');
+
+      expect(options.entryUrl).toBe('https://willsubplus.com');
+      expect(options.usernameSelector).toBe('#username');
+      expect(options.passwordSelector).toBe('#password');
+      expect(options.submitSelector).toBe('#kc-login');
+      expect(options.otpSelector).toBe('#otp');
+      expect(options.successUrlPattern.test('https://willsubplus.com/dashboard')).toBe(true);
+      expect(options.successUrlPattern.test('https://auth.example.com/realms/x/login')).toBe(false);
+    });
+
+    it('should resolve a relative entry URL against baseUrl and use configured selectors', () => {
+      const options = PuppeteerLoginStrategy.resolveOptions({
+        entryUrl: '/login',
+        usernameSelector: '#email',
+        successUrlPattern: '^https://staging\\.example\\.com/app'
+      }, 'https://staging.example.com');
+
+      expect(options.entryUrl).toBe('https://staging.example.com/login');
+      expect(options.usernameSelector).toBe('#email');
+      expect(options.passwordSelector).toBe('#password');
+      expect(options.successUrlPattern.test('https://staging.example.com/app/home')).toBe(true);
+      expect(options.successUrlPattern.test('https://staging.example.com/login')).toBe(false);
+    });
+
+    it('should open the login endpoint unless an entry URL is configured', () => {
+      const loginUrl = 'https://willsubplus.com/login';
+
+      expect(PuppeteerLoginStrategy.resolveOptions(undefined, 'https://willsubplus.com', loginUrl).entryUrl).toBe(loginUrl);
+      expect(PuppeteerLoginStrategy.resolveOptions({ entryUrl: '/sso' }, 'https://willsubplus.com', loginUrl).entryUrl)
+        .toBe('https://willsubplus.com/sso');
+    });
+  });
+
+  describeWithChrome('Fixture login page', () => {
+    const accessToken = 'eyJhbGciOiJub25lIn0.eyJzdWIiOiIxMTEifQ.';
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      const loginPage = fs.readFileSync(path.join(__dirname, 'fixtures', 'login-page.html'), 'utf-8');
+
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          if (req.url === '/login') {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end(loginPage);
+          } else if (req.url === '/submit' && req.method === 'POST') {
+            const form = new URLSearchParams(body);
+            const valid = form.get('username') === 'sub@example.com' && form.get('password') === 'secret';
+            res.writeHead(302, {
+              Location: valid ? '/app/' : '/login',
+              ...(valid ? { 'Set-Cookie': 'APP_SESSION=app-1; Path=/; Max-Age=3600' } : {})
+            });
+            res.end();
+          } else if (req.url === '/app/') {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end(`<script>localStorage.setItem('access_token', '${accessToken}')</script>`);
+          } else {
+            res.writeHead(404);
+            res.end();
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    function createStrategy(): PuppeteerLoginStrategy {
+      return new PuppeteerLoginStrategy(PuppeteerLoginStrategy.resolveOptions({
+        entryUrl: '/login',
+        usernameSelector: '#email',
+        passwordSelector: '#secret',
+        submitSelector: '#sign-in',
+        successUrlPattern: '/app/$'
+      }, baseUrl));
+    }
+
+    it(
+      'should log in using the configured entry URL and selectors',
+      async () => {
+        const strategy = createStrategy();
+        try {
+          const session = await strategy.authenticate({ username: 'sub@example.com', password: 'secret' });
+
+          expect(session.accessToken).toBe(accessToken);
+          expect(session.cookies).toContain('APP_SESSION=app-1');
+        } finally {
+          await strategy.close();
+        }
+      },
+      60000
+    );
+
+    it(
+      'should fail when the final URL does not match the success pattern',
+      async () => {
+        const strategy = createStrategy();
+        try {
+          await expect(
+            strategy.authenticate({ username: 'sub@example.com', password: 'wrong' })
+          ).rejects.toThrow('Unexpected final URL');
+        } finally {
+          await strategy.close();
+        }
+      },
+      60000
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import TotpGenerator from '../TotpGenerator';
+
+/**
+ * Tests for TotpGenerator
+ *
+ * Uses the RFC 6238 Appendix B test vectors (SHA-1, 8 digits)
+ * and checks the defaults Keycloak uses (6 digits, 30 seconds)
+ */
+
+describe('TotpGenerator', () => {
+  // Base32 of the ASCII seed "12345678901234567890" from RFC 6238
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('should match the RFC 6238 test vectors', () => {
+    const totp = new TotpGenerator(rfcSecret, { digits: 8 });
+
+    expect(totp.generate(59 * 1000)).toBe('94287082');
+    expect(totp.generate(1111111109 * 1000)).toBe('07081804');
+    expect(totp.generate(1234567890 * 1000)).toBe('89005924');
+    expect(totp.generate(20000000000 * 1000)).toBe('65353130');
+  });
+
+  it('should produce 6-digit codes that change every 30 seconds by default', () => {
+    const totp = new TotpGenerator(rfcSecret);
+
+    expect(totp.generate(59 * 1000)).toBe('287082');
+    expect(totp.generate(30 * 1000)).toBe(totp.generate(59 * 1000));
+    expect(totp.generate(60 * 1000)).not.toBe(totp.generate(59 * 1000));
+    expect(totp.secondsRemaining(59 * 1000)).toBe(1);
+  });
+
+  it('should ignore formatting in the secret', () => {
+    const formatted = new TotpGenerator('gezd gnbv gy3t qojq-gezd gnbv gy3t qojq==');
+
+    expect(formatted.generate(59 * 1000)).toBe('287082');
+  });
+
+  it('should reject a secret that is not base32', () => {
+    expect(() => new TotpGenerator('not-base32!')).toThrow('not valid base32');
+    expect(() => new TotpGenerator('  ')).toThrow('TOTP secret is empty');
+  });
+});
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import JobFilterRules, { FilterRule } from '../jobs/JobFilterRules';
 
 /**
  * ConfigManager handles loading and managing application configuration
@@ -9,6 +10,7 @@ import * as dotenv from 'dotenv';
 interface Credentials {
   username: string;
   password: string;
+  totpSecret?: string; // Base32 TOTP secret, only needed when the account has two-factor enabled
 }
 
 interface JobFilteringConfig {
@@ -33,12 +35,67 @@ interface JobFilteringConfig {
     includeLongTerm?: boolean;
     includeShortTerm?: boolean;
   };
+  filterByAvailability?: {
+    enabled: boolean;
+    rules?: Array<{
+      days: string[]; // e.g. ["mon", "wed", "fri"] or ["mon-fri"]
+      from?: string; // Earliest start, e.g. "07:30"
+      until?: string; // Latest end, e.g. "15:30"
+      scheduleTypes?: string[]; // e.g. ["HALF_DAY"] - only these on these days
+    }>;
+  };
+  filterByBlackouts?: {
+    enabled: boolean;
+    periods?: Array<{
+      name?: string; // e.g. "Spring vacation"
+      startDate: string; // YYYY-MM-DD
+      endDate?: string; // Inclusive (default: startDate)
+      from?: string; // Only these hours on each day, e.g. "10:00"
+      until?: string;
+    }>;
+    calendarFile?: string; // Local .ics file with busy events (times read in jobsApi.timeZone)
+  };
+  filterByRule?: {
+    enabled: boolean;
+    rule?: FilterRule; // all / any / not groups over field conditions, see JobFilterRules
+  };
+  filterByLeadTime?: {
+    enabled: boolean;
+    minMinutes?: number; // Time needed to get to a job before its first start
+    maxDays?: number; // Skip jobs further ahead than this
+    lastMinute?: {
+      minMinutes: number; // Shorter minimum allowed at the buildings below
+      buildings?: string[]; // Building name (or part of it), e.g. ["Lincoln"]
+      buildingIds?: number[];
+    };
+  };
 }
 
 interface AutoApplyConfig {
   enabled: boolean;
   autoApplyOnMatches: boolean;
   dryRunMode: boolean;
+  maxApplicationsPerRun?: number; // Apply to at most this many jobs per run, best score first
+  minScore?: number; // Only apply to jobs scoring at least this (0-100, needs jobScoring)
+}
+
+interface JobScoringConfig {
+  enabled: boolean; // Rank opportunities with JobScorer
+  weights?: {
+    building?: number;
+    positionType?: number;
+    scheduleType?: number;
+    duration?: number;
+    leadTime?: number;
+    dayOfWeek?: number;
+    lessonPlan?: number;
+  };
+  buildings?: { [nameOrId: string]: number }; // Ratings from -1 (avoid) to 1 (favorite)
+  positionTypes?: { [title: string]: number };
+  scheduleTypes?: { [type: string]: number };
+  daysOfWeek?: { [day: string]: number }; // monday ... sunday
+  durationDays?: { min?: number; max?: number }; // Preferred number of workdays
+  leadTimeDays?: { min?: number; max?: number }; // Preferred days from today to the first day
 }
 
 interface SchedulingConfig {
@@ -53,9 +110,92 @@ interface DisplayConfig {
   showFilteredJobsDetails: boolean;
 }
 
+interface SearchWindowConfig {
+  schoolDaysAhead?: number; // Today plus the next N school days (Mon-Fri)
+  startDate?: string; // Explicit range start (YYYY-MM-DD), used when schoolDaysAhead is not set
+  endDate?: string; // Explicit range end (default: startDate)
+}
+
+interface JobsApiConfig {
+  pageSize?: number; // Jobs requested per page (default: 100)
+  maxPages?: number; // Safety cap on pages walked per fetch (default: 50)
+  timeZone?: string; // Decides what "today" is for job searches (default: America/Chicago)
+  searchWindows?: SearchWindowConfig[]; // Available-job date windows, merged by job ID (default: today on)
+  fetchDetails?: boolean; // Load the full record of shortlisted jobs before comparing (default: false)
+  detailsCacheTTLSeconds?: number; // How long a job's details are reused (default: 600)
+}
+
+interface HttpFixturesConfig {
+  mode: 'off' | 'record' | 'replay'; // record: save sanitized API traffic; replay: serve it offline, without logging in
+  directory?: string; // Default: ./fixtures/http
+  idSalt?: string; // Keeps ID pseudonyms stable across recording sessions (default: random per run)
+}
+
+interface HttpClientConfig {
+  timeoutSeconds?: number; // Per-request timeout (default: 15)
+  maxRetries?: number; // Extra attempts for GET requests (default: 3)
+  retryBaseDelayMs?: number; // First backoff, doubled per attempt with jitter (default: 500)
+  retryMaxDelayMs?: number; // Backoff cap (default: 10000)
+  maxRetryAfterSeconds?: number; // Longest Retry-After honored on 429/503 (default: 60)
+  circuitBreakerThreshold?: number; // Upstream failures in a row that pause polling (default: 5)
+  circuitBreakerCooldownSeconds?: number; // How long polling stays paused (default: 300)
+}
+
+interface JobSnapshotConfig {
+  enabled: boolean; // Keep a snapshot of each poll on disk and log what changed
+  filePath?: string; // Default: ./job_snapshots.json (WILLSUB_JOB_SNAPSHOT_FILE overrides)
+}
+
 interface AuthenticationConfig {
   enableAutoRefreshOn401: boolean;
   refreshThresholdPercent: number;
+  tokenEndpoint?: string; // OIDC token endpoint (default: derived from the token's issuer)
+  clientId?: string; // OIDC client ID (default: the token's azp claim)
+  cacheKeyFile?: string; // File holding the auth cache encryption key (WILLSUB_CACHE_KEY overrides)
+  strategy?: 'puppeteer' | 'http'; // How to log in (default: puppeteer)
+  oidc?: OidcConfig; // Required for the http strategy
+  diagnostics?: LoginDiagnosticsConfig;
+  throttle?: LoginThrottleConfig;
+  login?: LoginPageConfig; // Login page used by the puppeteer strategy
+  credentialProvider?: CredentialProviderConfig; // Where credentials are read at login time (default: config)
+}
+
+interface CredentialProviderConfig {
+  type: 'config' | 'file' | 'vault' | 'command';
+  usernameFile?: string; // file: WILLSUB_USERNAME_FILE overrides
+  passwordFile?: string; // file: WILLSUB_PASSWORD_FILE overrides
+  totpSecretFile?: string; // file: WILLSUB_TOTP_SECRET_FILE overrides
+  vaultFile?: string; // vault: encrypted credentials file (default: ./credentials.vault.json)
+  vaultKeyFile?: string; // vault: WILLSUB_VAULT_KEY / WILLSUB_VAULT_KEY_FILE override
+  command?: string; // command: e.g. "pass show willsub"
+  commandTimeoutSeconds?: number; // command: default 15
+}
+
+interface LoginPageConfig {
+  entryUrl?: string; // Page that leads to the login form; absolute or a path on baseUrl (default: baseUrl + loginEndpoint)
+  usernameSelector?: string; // Default: #username
+  passwordSelector?: string; // Default: #password
+  submitSelector?: string; // Default: #kc-login
+  otpSelector?: string; // Default: #otp
+  successUrlPattern?: string; // Regular expression the URL must match after login (default: the baseUrl host)
+}
+
+interface LoginThrottleConfig {
+  baseDelaySeconds?: number; // Wait after the first failed login, doubled per failure (default: 60)
+  maxDelaySeconds?: number; // Backoff cap (default: 3600)
+  maxConsecutiveFailures?: number; // Stop logging in after this many failures in a row (default: 5)
+}
+
+interface LoginDiagnosticsConfig {
+  enabled: boolean; // Save screenshot, HTML and a step trace when a login fails
+  directory?: string; // Default: <logging.logDirectory>/login-diagnostics
+}
+
+interface OidcConfig {
+  issuer: string; // Keycloak realm URL, e.g. https://auth.example.com/realms/district
+  clientId?: string; // Default: authentication.clientId
+  redirectUri?: string; // Default: baseUrl + '/'
+  scope?: string; // Default: openid
 }
 
 interface LoggingConfig {
@@ -82,15 +222,23 @@ interface TelegramConfig {
 interface Config {
   baseUrl: string;
   loginEndpoint: string;
-  jobsEndpoint: string;
-  scheduledJobsEndpoint: string;
-  jobApplicationEndpoint: string;
+  // API paths, relative to baseUrl or absolute, with {placeholders} (see EndpointRegistry)
+  jobsEndpoint?: string; // Default: /api/substitute-jobs/available
+  scheduledJobsEndpoint?: string; // Default: /api/substitute-jobs/scheduled
+  jobDetailsEndpoint?: string; // Default: /api/substitute-jobs/{jobId}
+  jobApplicationEndpoint?: string; // Default: /api/substitute-jobs/{jobId}/accept
+  endpointVariables?: { [name: string]: string | number }; // Values for shared {placeholders}, e.g. apiVersion
   pollingIntervalSeconds: number;
   credentials: Credentials;
   jobFiltering?: JobFilteringConfig;
   autoApply?: AutoApplyConfig;
+  jobScoring?: JobScoringConfig;
   scheduling?: SchedulingConfig;
   display?: DisplayConfig;
+  jobsApi?: JobsApiConfig;
+  http?: HttpClientConfig;
+  httpFixtures?: HttpFixturesConfig;
+  jobSnapshots?: JobSnapshotConfig;
   authentication?: AuthenticationConfig;
   logging?: LoggingConfig;
   telegram?: TelegramConfig;
@@ -138,6 +286,7 @@ class ConfigManager {
    * - Environment variables always override file values
    */
   public loadConfig(configPath?: string): Config {
+    let config: Config;
     try {
       // Load environment variables from .env file
       dotenv.config();
@@ -150,19 +299,40 @@ class ConfigManager {
       const fileContent = fs.readFileSync(absolutePath, 'utf-8');
       
       // Parse JSON string to object and cast it to Config type
-      this.config = JSON.parse(fileContent) as Config;
+      config = JSON.parse(fileContent) as Config;
+      this.config = config;
 
       // Override settings from environment variables if available
       this.applyEnvironmentOverrides();
-      
-      console.log('✓ Configuration loaded successfully');
-      return this.config;
     } catch (error) {
       if (error instanceof SyntaxError) {
         throw new Error(`Invalid JSON in config file: ${error.message}`);
       }
       throw new Error(`Failed to load config file: ${error}`);
     }
+
+    this.validateSettings(config);
+    console.log('✓ Configuration loaded successfully');
+    return config;
+  }
+
+  /**
+   * Reject settings that would make the app act on something other than what was configured
+   * - An enabled filter rule must be valid, or it would accept jobs it was meant to reject
+   * - autoApply.minScore needs jobScoring, or no job would ever be applied to
+   */
+  private validateSettings(config: Config): void {
+    if (config.autoApply?.minScore !== undefined && !config.jobScoring?.enabled) {
+      throw new Error('autoApply.minScore is set but jobScoring is disabled - enable jobScoring or remove minScore');
+    }
+
+    const filterByRule = config.jobFiltering?.filterByRule;
+    if (filterByRule?.enabled && filterByRule.rule) {
+      const problems = JobFilterRules.validate(filterByRule.rule, 'jobFiltering.filterByRule.rule');
+      if (problems.length > 0) {
+        throw new Error(`Invalid filter rule: ${problems.join('; ')}`);
+      }
+    }
   }
 
   /**
@@ -175,11 +345,51 @@ class ConfigManager {
     // Credentials (most important for cloud deployments)
     if (process.env.WILLSUB_USERNAME || process.env.WILLSUB_PASSWORD) {
       this.config.credentials = {
+        ...this.config.credentials,
         username: process.env.WILLSUB_USERNAME || this.config.credentials.username,
         password: process.env.WILLSUB_PASSWORD || this.config.credentials.password
       };
     }
 
+    if (process.env.WILLSUB_TOTP_SECRET) {
+      this.config.credentials = {
+        ...this.config.credentials,
+        totpSecret: process.env.WILLSUB_TOTP_SECRET
+      };
+    }
+
+    // Login strategy
+    const strategy = this.envChoice('WILLSUB_AUTH_STRATEGY', ['puppeteer', 'http'] as const);
+    if (strategy) {
+      if (!this.config.authentication) {
+        this.config.authentication = { enableAutoRefreshOn401: true, refreshThresholdPercent: 80 };
+      }
+      this.config.authentication.strategy = strategy;
+    }
+
+    // Credential provider
+    const credentialProvider = this.envChoice('WILLSUB_CREDENTIAL_PROVIDER', ['config', 'file', 'vault', 'command'] as const);
+    if (credentialProvider) {
+      if (!this.config.authentication) {
+        this.config.authentication = { enableAutoRefreshOn401: true, refreshThresholdPercent: 80 };
+      }
+      this.config.authentication.credentialProvider = {
+        ...this.config.authentication.credentialProvider,
+        type: credentialProvider
+      };
+    }
+
+    // Login failure diagnostics
+    if (process.env.WILLSUB_LOGIN_DIAGNOSTICS !== undefined) {
+      if (!this.config.authentication) {
+        this.config.authentication = { enableAutoRefreshOn401: true, refreshThresholdPercent: 80 };
+      }
+      this.config.authentication.diagnostics = {
+        ...this.config.authentication.diagnostics,
+        enabled: process.env.WILLSUB_LOGIN_DIAGNOSTICS === 'true'
+      };
+    }
+
     // Base URL
     if (process.env.WILLSUB_BASE_URL) {
       this.config.baseUrl = process.env.WILLSUB_BASE_URL;
@@ -190,6 +400,38 @@ class ConfigManager {
       this.config.pollingIntervalSeconds = parseInt(process.env.WILLSUB_POLLING_INTERVAL, 10);
     }
 
+    // HTTP fixtures (record / replay)
+    const fixturesMode = this.envChoice('WILLSUB_HTTP_FIXTURES', ['off', 'record', 'replay'] as const);
+    if (fixturesMode) {
+      this.config.httpFixtures = {
+        ...this.config.httpFixtures,
+        mode: fixturesMode
+      };
+    }
+    if (process.env.WILLSUB_HTTP_FIXTURES_DIR) {
+      this.config.httpFixtures = {
+        mode: 'off',
+        ...this.config.httpFixtures,
+        directory: process.env.WILLSUB_HTTP_FIXTURES_DIR
+      };
+    }
+    if (process.env.WILLSUB_FIXTURE_SALT) {
+      this.config.httpFixtures = {
+        mode: 'off',
+        ...this.config.httpFixtures,
+        idSalt: process.env.WILLSUB_FIXTURE_SALT
+      };
+    }
+
+    // Job snapshot file
+    if (process.env.WILLSUB_JOB_SNAPSHOT_FILE) {
+      this.config.jobSnapshots = {
+        enabled: true,
+        ...this.config.jobSnapshots,
+        filePath: process.env.WILLSUB_JOB_SNAPSHOT_FILE
+      };
+    }
+
     // Auto-apply settings
     if (process.env.WILLSUB_AUTO_APPLY_ENABLED !== undefined) {
       if (!this.config.autoApply) {
@@ -245,6 +487,22 @@ class ConfigManager {
     }
   }
 
+  /**
+   * Value of an environment variable that must be one of a fixed set of choices
+   * - Unset: undefined; any other value is ignored with a warning, keeping the file setting
+   */
+  private envChoice<T extends string>(name: string, choices: readonly T[]): T | undefined {
+    const value = process.env[name]?.trim();
+    if (!value) {
+      return undefined;
+    }
+    const choice = choices.find(candidate => candidate === value);
+    if (!choice) {
+      console.warn(`⚠️  Ignoring ${name}="${value}" - expected one of: ${choices.join(', ')}`);
+    }
+    return choice;
+  }
+
   /**
    * Get the current configuration
    * - Returns null if config hasn't been loaded yet
@@ -279,9 +537,20 @@ export type {
   Credentials,
   JobFilteringConfig,
   AutoApplyConfig,
+  JobScoringConfig,
   SchedulingConfig,
   DisplayConfig,
+  JobsApiConfig,
+  SearchWindowConfig,
+  HttpClientConfig,
+  HttpFixturesConfig,
+  JobSnapshotConfig,
   AuthenticationConfig,
+  OidcConfig,
+  LoginDiagnosticsConfig,
+  LoginThrottleConfig,
+  LoginPageConfig,
+  CredentialProviderConfig,
   LoggingConfig,
   TelegramConfig
 };
@@ -50,6 +50,40 @@ describe('ConfigManager', () => {
         fs.unlinkSync(tempPath);
       }
     });
+
+    it('should throw error when an enabled filter rule is invalid', () => {
+      const tempPath = './temp-invalid-rule-config.json';
+      const config = JSON.parse(fs.readFileSync('./config.json', 'utf-8'));
+      config.jobFiltering = {
+        enabled: true,
+        filterByRule: { enabled: true, rule: { not: { field: 'positon', contains: 'Para' } } }
+      };
+      fs.writeFileSync(tempPath, JSON.stringify(config));
+
+      try {
+        expect(() => {
+          configManager.loadConfig(tempPath);
+        }).toThrow('Invalid filter rule: jobFiltering.filterByRule.rule.not: unknown field "positon"');
+      } finally {
+        fs.unlinkSync(tempPath);
+      }
+    });
+
+    it('should throw error when a minimum score is set without job scoring', () => {
+      const tempPath = './temp-min-score-config.json';
+      const config = JSON.parse(fs.readFileSync('./config.json', 'utf-8'));
+      config.autoApply = { ...config.autoApply, minScore: 60 };
+      config.jobScoring = { enabled: false };
+      fs.writeFileSync(tempPath, JSON.stringify(config));
+
+      try {
+        expect(() => {
+          configManager.loadConfig(tempPath);
+        }).toThrow('autoApply.minScore is set but jobScoring is disabled');
+      } finally {
+        fs.unlinkSync(tempPath);
+      }
+    });
   });
 
   /**
@@ -149,4 +183,54 @@ describe('ConfigManager', () => {
       expect(config?.baseUrl).toBe('https://willsubplus.com');
     });
   });
+
+  /**
+   * Test 6: Environment overrides limited to fixed choices
+   */
+  describe('Environment overrides', () => {
+    const variables = ['WILLSUB_AUTH_STRATEGY', 'WILLSUB_CREDENTIAL_PROVIDER', 'WILLSUB_HTTP_FIXTURES', 'WILLSUB_HTTP_FIXTURES_DIR'];
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      variables.forEach(name => delete process.env[name]);
+      jest.restoreAllMocks();
+    });
+
+    it('should apply a valid choice', () => {
+      process.env.WILLSUB_AUTH_STRATEGY = 'http';
+
+      expect(configManager.loadConfig('./config.json').authentication?.strategy).toBe('http');
+    });
+
+    it('should ignore an unknown auth strategy with a warning', () => {
+      const fileValue = configManager.loadConfig('./config.json').authentication?.strategy;
+      process.env.WILLSUB_AUTH_STRATEGY = 'browser';
+
+      expect(configManager.loadConfig('./config.json').authentication?.strategy).toBe(fileValue);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring WILLSUB_AUTH_STRATEGY="browser"'));
+    });
+
+    it('should ignore an unknown credential provider with a warning', () => {
+      const fileValue = configManager.loadConfig('./config.json').authentication?.credentialProvider?.type;
+      process.env.WILLSUB_CREDENTIAL_PROVIDER = 'keychain';
+
+      expect(configManager.loadConfig('./config.json').authentication?.credentialProvider?.type).toBe(fileValue);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('expected one of: config, file, vault, command'));
+    });
+
+    it('should ignore an unknown HTTP fixtures mode with a warning', () => {
+      const fileValue = configManager.loadConfig('./config.json').httpFixtures?.mode;
+      process.env.WILLSUB_HTTP_FIXTURES = 'Replay';
+
+      expect(configManager.loadConfig('./config.json').httpFixtures?.mode).toBe(fileValue);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring WILLSUB_HTTP_FIXTURES="Replay"'));
+
+      process.env.WILLSUB_HTTP_FIXTURES = 'replay';
+      process.env.WILLSUB_HTTP_FIXTURES_DIR = './recordings';
+      expect(configManager.loadConfig('./config.json').httpFixtures).toMatchObject({ mode: 'replay', directory: './recordings' });
+    });
+  });
 });
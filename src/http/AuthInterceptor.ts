@@ -0,0 +1,122 @@
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import AuthTokenHolder from '../auth/AuthTokenHolder';
+
+/**
+ * AuthInterceptor
+ * Adds the current bearer token to every request on an axios instance and recovers from 401s
+ *
+ * Flow:
+ * - Request: sets Authorization from the token holder (when it has a token)
+ * - Response 401: asks the holder for a token newer than the one that was rejected
+ *   (concurrent 401s share one re-authentication) and replays the request once
+ * - If no new token can be obtained, the original 401 is returned to the caller
+ *
+ * Callers (JobsModule, JobApplicationModule) never handle tokens themselves.
+ */
+
+type RetriableConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+class AuthInterceptor {
+  private tokenHolder: AuthTokenHolder;
+  private axiosInstance: AxiosInstance | null = null;
+  private requestInterceptorId: number | null = null;
+  private responseInterceptorId: number | null = null;
+  private onRefreshed: (() => Promise<void> | void) | null = null;
+
+  constructor(tokenHolder: AuthTokenHolder) {
+    this.tokenHolder = tokenHolder;
+  }
+
+  /**
+   * Register the interceptors on an axios instance
+   */
+  public install(axiosInstance: AxiosInstance): void {
+    this.uninstall();
+    this.axiosInstance = axiosInstance;
+
+    this.requestInterceptorId = axiosInstance.interceptors.request.use(config => this.injectToken(config));
+    this.responseInterceptorId = axiosInstance.interceptors.response.use(
+      async response => (await this.recover(axiosInstance, response)) || response,
+      async error => {
+        // Only reached when the caller kept axios' default validateStatus
+        if (error?.response?.status === 401) {
+          const replayed = await this.recover(axiosInstance, error.response);
+          if (replayed) return replayed;
+        }
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Remove the interceptors again
+   */
+  public uninstall(): void {
+    if (!this.axiosInstance) return;
+    if (this.requestInterceptorId !== null) {
+      this.axiosInstance.interceptors.request.eject(this.requestInterceptorId);
+    }
+    if (this.responseInterceptorId !== null) {
+      this.axiosInstance.interceptors.response.eject(this.responseInterceptorId);
+    }
+    this.axiosInstance = null;
+    this.requestInterceptorId = null;
+    this.responseInterceptorId = null;
+  }
+
+  /**
+   * Called after a 401 led to a new token (not when another request already refreshed it)
+   */
+  public setOnRefreshed(callback: (() => Promise<void> | void) | null): void {
+    this.onRefreshed = callback;
+  }
+
+  private injectToken(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    const token = this.tokenHolder.get();
+    if (token) {
+      config.headers.set('Authorization', `Bearer ${token}`);
+    }
+    return config;
+  }
+
+  /**
+   * Replay a request that got a 401 with a refreshed token
+   * - Returns null when the response is not a 401, was already replayed, or no token is available
+   */
+  private async recover(axiosInstance: AxiosInstance, response: AxiosResponse): Promise<AxiosResponse | null> {
+    const config = response.config as RetriableConfig | undefined;
+    if (response.status !== 401 || !config || config._authRetried) {
+      return null;
+    }
+
+    const staleToken = AuthInterceptor.tokenFromHeader(config.headers?.get?.('Authorization'));
+    const alreadyRefreshed = staleToken !== null && this.tokenHolder.get() !== staleToken;
+
+    console.log(`🔄 ${config.method?.toUpperCase() || 'GET'} ${config.url} returned 401 - refreshing token and retrying...`);
+    const newToken = await this.tokenHolder.refresh(staleToken);
+    if (!newToken) {
+      console.log('✗ Re-authentication failed - returning the 401');
+      return null;
+    }
+
+    if (!alreadyRefreshed && this.onRefreshed) {
+      try {
+        await this.onRefreshed();
+      } catch (error) {
+        console.warn('⚠️ Token refresh listener failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    config._authRetried = true;
+    config.headers.set('Authorization', `Bearer ${newToken}`);
+    return axiosInstance.request(config);
+  }
+
+  private static tokenFromHeader(header: unknown): string | null {
+    if (typeof header !== 'string') return null;
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1] : null;
+  }
+}
+
+export default AuthInterceptor;
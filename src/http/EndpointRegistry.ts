@@ -0,0 +1,107 @@
+/**
+ * EndpointRegistry
+ * URL templates for every WillSub API call, built from config
+ *
+ * Features:
+ * - One place for the API paths (JobsModule, JobApplicationModule)
+ * - {placeholders} in the path and in query values, filled per call
+ *   (path values are URL-encoded) or from the configured variables
+ * - Relative templates are joined to the base URL (through ConfigManager.buildUrl when
+ *   given); absolute ones are used as-is, so a single endpoint can point at a mock server
+ * - Templates come from the jobsEndpoint, scheduledJobsEndpoint, jobDetailsEndpoint and
+ *   jobApplicationEndpoint settings; unset ones use DEFAULT_ENDPOINTS
+ *
+ * Examples:
+ * - "/api/substitute-jobs/{jobId}/accept"
+ * - "/api/{apiVersion}/jobs/available?tenant={tenant}"
+ */
+
+export type EndpointName = 'scheduledJobs' | 'availableJobs' | 'jobDetails' | 'acceptJob';
+
+export type EndpointTemplates = { [name in EndpointName]?: string };
+
+export type EndpointParams = { [name: string]: string | number };
+
+export interface EndpointRegistryOptions {
+  baseUrl?: string; // Default: https://willsubplus.com
+  templates?: EndpointTemplates; // Overrides for DEFAULT_ENDPOINTS
+  variables?: EndpointParams; // Values for placeholders shared by all endpoints (e.g. apiVersion, tenant)
+  buildUrl?: (path: string) => string; // Joins a path starting with "/" to the base URL (default: baseUrl + path)
+}
+
+export const DEFAULT_BASE_URL = 'https://willsubplus.com';
+
+export const DEFAULT_ENDPOINTS: { [name in EndpointName]: string } = {
+  scheduledJobs: '/api/substitute-jobs/scheduled',
+  availableJobs: '/api/substitute-jobs/available',
+  jobDetails: '/api/substitute-jobs/{jobId}',
+  acceptJob: '/api/substitute-jobs/{jobId}/accept'
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+class EndpointRegistry {
+  private baseUrl: string;
+  private templates: { [name in EndpointName]: string };
+  private variables: EndpointParams;
+  private buildUrl: (path: string) => string;
+
+  constructor(options: EndpointRegistryOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.templates = { ...DEFAULT_ENDPOINTS };
+    this.variables = options.variables || {};
+    this.buildUrl = options.buildUrl || (path => `${this.baseUrl}${path}`);
+
+    for (const [name, template] of Object.entries(options.templates || {})) {
+      if (template === undefined) {
+        continue;
+      }
+      if (!(name in DEFAULT_ENDPOINTS)) {
+        console.warn(`⚠️  Ignoring unknown API endpoint "${name}" in config`);
+      } else if (typeof template !== 'string' || template.trim() === '') {
+        console.warn(`⚠️  Ignoring empty template for API endpoint "${name}" - using ${DEFAULT_ENDPOINTS[name as EndpointName]}`);
+      } else {
+        this.templates[name as EndpointName] = template.trim();
+      }
+    }
+  }
+
+  /**
+   * Build the URL for an endpoint
+   * - params fill placeholders first, then the configured variables
+   * - Throws if a placeholder has no value (a config error, not an API error)
+   */
+  public url(name: EndpointName, params: EndpointParams = {}): string {
+    const template = this.templates[name];
+    const queryStart = template.indexOf('?');
+    const pathTemplate = queryStart === -1 ? template : template.substring(0, queryStart);
+    const queryTemplate = queryStart === -1 ? '' : template.substring(queryStart);
+
+    const fill = (text: string) => text.replace(PLACEHOLDER, (_match, key: string) => {
+      const value = params[key] ?? this.variables[key];
+      if (value === undefined || value === null || value === '') {
+        throw new Error(`No value for {${key}} in API endpoint "${name}" (${template})`);
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    const filled = fill(pathTemplate) + fill(queryTemplate);
+    if (/^https?:\/\//i.test(filled)) {
+      return filled;
+    }
+    return this.buildUrl(filled.startsWith('/') ? filled : `/${filled}`);
+  }
+
+  /**
+   * The raw template for an endpoint (for logging)
+   */
+  public template(name: EndpointName): string {
+    return this.templates[name];
+  }
+
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+}
+
+export default EndpointRegistry;
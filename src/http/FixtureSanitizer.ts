@@ -0,0 +1,143 @@
+import * as crypto from 'crypto';
+
+/**
+ * FixtureSanitizer
+ * Scrubs recorded WillSub API traffic before it is written to fixture files
+ *
+ * What it removes:
+ * - Tokens, cookies and secrets (by field name, and any JWT-looking string)
+ * - People's names, e-mail addresses and phone numbers
+ * - Free-text notes, which often mention people
+ * - IDs: replaced by stable pseudonyms (keyed hash), so a job ID in a list
+ *   and in a later /{jobId}/accept URL still match; the user's own ID
+ *   becomes a fixed placeholder
+ * - Links (e.g. attachment URLs): IDs in the path and the whole query string,
+ *   which often carries a signature
+ *
+ * Headers are never recorded except content-type and retry-after.
+ */
+
+export const USER_ID_PLACEHOLDER = '<userId>';
+
+const SECRET_KEY = /token|secret|password|authorization|cookie|session|credential/i;
+const PERSON_KEYS = ['firstName', 'lastName', 'middleName', 'fullName', 'displayName', 'username', 'email', 'phone', 'phoneNumber'];
+const PERSON_OBJECT_KEY = /employee|teacher|user|person|contact/i; // Their "name" is a person's name
+const NOTE_KEYS = /^(notes?|notesToSubstitute|substituteNotes|comments?)$/i;
+const ID_KEY = /^id$|Id$|ID$/;
+const URL_KEY = /^url$|Url$|URL$/;
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+const KEPT_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+
+class FixtureSanitizer {
+  private idSalt: string;
+
+  constructor(idSalt: string) {
+    this.idSalt = idSalt;
+  }
+
+  /**
+   * Stable pseudonym for an ID (same input and salt, same output)
+   * - Numbers stay numbers and numeric strings stay numeric strings
+   */
+  public pseudonymizeId(id: string | number): string | number {
+    const digest = crypto.createHmac('sha256', this.idSalt).update(String(id)).digest();
+    const pseudonym = 100000 + (digest.readUInt32BE(0) % 900000000);
+    return typeof id === 'number' ? pseudonym : String(pseudonym);
+  }
+
+  /**
+   * Sanitize a request path: numeric segments are IDs
+   */
+  public sanitizePath(pathname: string): string {
+    return pathname.replace(/\/(\d+)(?=\/|$)/g, (_match, id: string) => `/${this.pseudonymizeId(id)}`);
+  }
+
+  /**
+   * Sanitize query parameters (values as strings)
+   */
+  public sanitizeQuery(query: { [key: string]: string }): { [key: string]: string } {
+    const result: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(query)) {
+      result[key] = this.sanitizeValue(key, value) as string;
+    }
+    return result;
+  }
+
+  /**
+   * Sanitize a request or response body (returns a copy)
+   */
+  public sanitizeBody(data: unknown, parentKey: string = ''): unknown {
+    if (Array.isArray(data)) {
+      return data.map(item => this.sanitizeBody(item, parentKey));
+    }
+    if (data && typeof data === 'object') {
+      const personObject = PERSON_OBJECT_KEY.test(parentKey);
+      const result: { [key: string]: unknown } = {};
+      for (const [key, value] of Object.entries(data as { [key: string]: unknown })) {
+        if (value && typeof value === 'object') {
+          result[key] = this.sanitizeBody(value, key);
+        } else if (personObject && key === 'name' && value) {
+          result[key] = '<name>';
+        } else {
+          result[key] = this.sanitizeValue(key, value);
+        }
+      }
+      return result;
+    }
+    return typeof data === 'string' ? FixtureSanitizer.scrubText(data) : data;
+  }
+
+  /**
+   * Keep only the response headers replay needs
+   */
+  public sanitizeHeaders(headers: { [key: string]: unknown } | undefined): { [key: string]: string } {
+    const result: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(headers || {})) {
+      if (KEPT_RESPONSE_HEADERS.includes(key.toLowerCase()) && value !== undefined && value !== null) {
+        result[key.toLowerCase()] = String(value);
+      }
+    }
+    return result;
+  }
+
+  private sanitizeValue(key: string, value: unknown): unknown {
+    if (value === null || value === undefined || value === '') {
+      return value;
+    }
+    if (key === 'userId') {
+      return USER_ID_PLACEHOLDER;
+    }
+    if (SECRET_KEY.test(key)) {
+      return '<redacted>';
+    }
+    if (PERSON_KEYS.includes(key)) {
+      return `<${key}>`;
+    }
+    if (NOTE_KEYS.test(key)) {
+      return '<notes redacted>';
+    }
+    if (URL_KEY.test(key) && typeof value === 'string') {
+      return this.sanitizeUrl(value);
+    }
+    if (ID_KEY.test(key) && (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value)))) {
+      return this.pseudonymizeId(value);
+    }
+    return typeof value === 'string' ? FixtureSanitizer.scrubText(value) : value;
+  }
+
+  private sanitizeUrl(value: string): string {
+    try {
+      const url = new URL(value);
+      return `${url.origin}${this.sanitizePath(url.pathname)}`;
+    } catch {
+      return FixtureSanitizer.scrubText(value);
+    }
+  }
+
+  private static scrubText(text: string): string {
+    return text.replace(JWT_PATTERN, '<redacted>').replace(EMAIL_PATTERN, '<email>');
+  }
+}
+
+export default FixtureSanitizer;
@@ -0,0 +1,218 @@
+import axios, { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import FixtureSanitizer, { USER_ID_PLACEHOLDER } from './FixtureSanitizer';
+
+/**
+ * HttpFixtures
+ * Records WillSub API traffic to fixture files and replays it offline
+ *
+ * Modes (an axios adapter, so every request through the HTTP client is covered):
+ * - record: sends the request for real, then writes the sanitized
+ *   request/response pair to <directory>/<seq>-<method>-<path>.json
+ * - replay: never touches the network; answers each request with the next
+ *   recorded response for the same method, path and query
+ *
+ * Matching:
+ * - The user's own ID is a placeholder in recordings, so any userId matches
+ * - Date parameters (startDate, endDate) are ignored, so fixtures recorded on
+ *   one day still replay on another; same-key responses are served in
+ *   recording order and the last one repeats
+ * - An unmatched request gets a 501 (not retried) and a warning
+ *
+ * See FixtureSanitizer for what is scrubbed before writing.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface HttpFixturesOptions {
+  mode: FixtureMode;
+  directory?: string; // Default: ./fixtures/http
+  idSalt?: string; // Keeps ID pseudonyms stable across recording sessions (default: random per run)
+}
+
+export interface RecordedExchange {
+  version: 1;
+  recordedAt: string;
+  request: {
+    method: string;
+    path: string;
+    query: { [key: string]: string };
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: { [key: string]: string };
+    data: unknown;
+  };
+}
+
+const IGNORED_QUERY_PARAMS = ['startDate', 'endDate'];
+
+class HttpFixtures {
+  // userId main() uses in replay mode, where there is no login
+  public static readonly REPLAY_USER_ID = '1000';
+
+  private mode: FixtureMode;
+  private directory: string;
+  private sanitizer: FixtureSanitizer;
+  private sequence = 0;
+  private recordings: Map<string, RecordedExchange[]> | null = null;
+  private served: Map<string, number> = new Map();
+
+  constructor(options: HttpFixturesOptions) {
+    this.mode = options.mode;
+    this.directory = options.directory || './fixtures/http';
+    this.sanitizer = new FixtureSanitizer(options.idSalt || crypto.randomBytes(16).toString('hex'));
+  }
+
+  public getMode(): FixtureMode {
+    return this.mode;
+  }
+
+  /**
+   * Axios adapter for the configured mode
+   * - record wraps the given adapter (default: axios' own)
+   */
+  public createAdapter(baseAdapter?: AxiosAdapter): AxiosAdapter {
+    if (this.mode === 'replay') {
+      return config => this.replay(config);
+    }
+
+    const realAdapter = baseAdapter || axios.getAdapter(axios.defaults.adapter);
+    if (this.mode === 'off') {
+      return realAdapter;
+    }
+
+    return async config => {
+      const response = await realAdapter(config);
+      try {
+        this.record(config, response);
+      } catch (error) {
+        console.warn('⚠️  Could not write HTTP fixture:', error instanceof Error ? error.message : error);
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Matching key for a request: method, path and query without date parameters
+   */
+  public static requestKey(method: string, pathname: string, query: { [key: string]: string }): string {
+    const params = Object.keys(query)
+      .filter(key => !IGNORED_QUERY_PARAMS.includes(key))
+      .sort()
+      .map(key => `${key}=${key === 'userId' ? USER_ID_PLACEHOLDER : query[key]}`);
+    return `${method.toUpperCase()} ${pathname}${params.length > 0 ? '?' + params.join('&') : ''}`;
+  }
+
+  private record(config: InternalAxiosRequestConfig, response: AxiosResponse): void {
+    const { method, pathname, query } = HttpFixtures.describeRequest(config);
+    const exchange: RecordedExchange = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      request: {
+        method,
+        path: this.sanitizer.sanitizePath(pathname),
+        query: this.sanitizer.sanitizeQuery(query),
+        body: config.data ? this.sanitizer.sanitizeBody(HttpFixtures.parseBody(config.data)) : undefined
+      },
+      response: {
+        status: response.status,
+        headers: this.sanitizer.sanitizeHeaders(response.headers as { [key: string]: unknown }),
+        data: this.sanitizer.sanitizeBody(HttpFixtures.parseBody(response.data))
+      }
+    };
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    if (this.sequence === 0) {
+      this.sequence = this.listFixtureFiles().length;
+    }
+    this.sequence++;
+    const slug = exchange.request.path.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const filePath = path.join(this.directory, `${String(this.sequence).padStart(4, '0')}-${method.toLowerCase()}-${slug}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(exchange, null, 2) + '\n');
+    console.log(`   💾 Recorded ${method} ${exchange.request.path} (${response.status}) → ${filePath}`);
+  }
+
+  private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const { method, pathname, query } = HttpFixtures.describeRequest(config);
+    const key = HttpFixtures.requestKey(method, pathname, query);
+    const candidates = this.loadRecordings().get(key) || [];
+
+    if (candidates.length === 0) {
+      console.warn(`⚠️  No recorded fixture for ${key}`);
+      return HttpFixtures.toResponse(config, 501, {}, { message: `No recorded fixture for ${key}` });
+    }
+
+    const index = this.served.get(key) || 0;
+    this.served.set(key, index + 1);
+    const exchange = candidates[Math.min(index, candidates.length - 1)];
+    return HttpFixtures.toResponse(config, exchange.response.status, exchange.response.headers, exchange.response.data);
+  }
+
+  /**
+   * Read every fixture file once, grouped by request key in file name order
+   */
+  private loadRecordings(): Map<string, RecordedExchange[]> {
+    if (this.recordings) {
+      return this.recordings;
+    }
+
+    this.recordings = new Map();
+    const files = this.listFixtureFiles();
+    for (const file of files) {
+      const exchange = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf-8')) as RecordedExchange;
+      const key = HttpFixtures.requestKey(exchange.request.method, exchange.request.path, exchange.request.query || {});
+      const list = this.recordings.get(key) || [];
+      list.push(exchange);
+      this.recordings.set(key, list);
+    }
+    console.log(`📼 Replaying ${files.length} recorded API response(s) from ${this.directory}`);
+    return this.recordings;
+  }
+
+  private listFixtureFiles(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs.readdirSync(this.directory).filter(file => file.endsWith('.json')).sort();
+  }
+
+  private static describeRequest(config: InternalAxiosRequestConfig): { method: string; pathname: string; query: { [key: string]: string } } {
+    const url = new URL(axios.getUri(config), 'http://localhost');
+    const query: { [key: string]: string } = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    return { method: (config.method || 'get').toUpperCase(), pathname: url.pathname, query };
+  }
+
+  private static parseBody(data: unknown): unknown {
+    if (typeof data !== 'string') {
+      return data;
+    }
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+
+  private static toResponse(
+    config: InternalAxiosRequestConfig,
+    status: number,
+    headers: { [key: string]: string },
+    data: unknown
+  ): AxiosResponse {
+    const response: AxiosResponse = { status, statusText: '', headers, config, data, request: {} };
+    const validateStatus = config.validateStatus;
+    if (validateStatus && !validateStatus(status)) {
+      throw new axios.AxiosError(`Request failed with status code ${status}`, undefined, config, {}, response);
+    }
+    return response;
+  }
+}
+
+export default HttpFixtures;
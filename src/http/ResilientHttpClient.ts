@@ -0,0 +1,293 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * ResilientHttpClient
+ * Shared HTTP layer for the WillSub API calls (jobs, applications)
+ *
+ * Features:
+ * - Per-request timeout
+ * - Bounded retries with jittered exponential backoff, for GETs only
+ *   (an accept POST is never repeated automatically)
+ * - Honors Retry-After on 429/503, up to maxRetryAfterSeconds
+ * - Circuit breaker: after circuitBreakerThreshold upstream failures in a row,
+ *   requests fail fast until circuitBreakerCooldownSeconds have passed
+ * - Per-endpoint latency and error counters
+ *
+ * Callers keep using validateStatus: () => true; a 4xx/5xx that is not retried
+ * is returned as a normal response.
+ */
+
+/**
+ * The part of axios the API modules use
+ * - Both an AxiosInstance and a ResilientHttpClient satisfy it
+ */
+export interface HttpRequester {
+  get(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse>;
+  post(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse>;
+}
+
+export interface ResilientHttpOptions {
+  timeoutSeconds?: number; // Default: 15
+  maxRetries?: number; // Extra attempts for a GET (default: 3)
+  retryBaseDelayMs?: number; // First backoff, doubled per attempt (default: 500)
+  retryMaxDelayMs?: number; // Backoff cap (default: 10000)
+  maxRetryAfterSeconds?: number; // Longest Retry-After we wait for (default: 60)
+  circuitBreakerThreshold?: number; // Upstream failures in a row that open the circuit (default: 5)
+  circuitBreakerCooldownSeconds?: number; // How long the circuit stays open (default: 300)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface EndpointMetrics {
+  requests: number;
+  retries: number;
+  failures: number; // Requests that ended in a network error, timeout, 429 or 5xx
+  networkErrors: number;
+  timeouts: number;
+  statusCounts: { [status: string]: number };
+  totalLatencyMs: number; // Sum over all attempts
+  maxLatencyMs: number;
+  averageLatencyMs: number;
+}
+
+/**
+ * Error thrown instead of sending a request while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  public readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super(`Upstream circuit open after repeated failures - requests paused until ${new Date(retryAt).toLocaleTimeString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+class ResilientHttpClient implements HttpRequester {
+  private axiosInstance: AxiosInstance;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private maxRetryAfterMs: number;
+  private circuitBreakerThreshold: number;
+  private circuitBreakerCooldownMs: number;
+
+  private consecutiveFailures = 0;
+  private circuitOpenedAt: number | null = null;
+  private metrics: Map<string, EndpointMetrics> = new Map();
+
+  constructor(axiosInstance: AxiosInstance, options: ResilientHttpOptions = {}) {
+    this.axiosInstance = axiosInstance;
+    this.timeoutMs = (options.timeoutSeconds ?? 15) * 1000;
+    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 10000;
+    this.maxRetryAfterMs = (options.maxRetryAfterSeconds ?? 60) * 1000;
+    this.circuitBreakerThreshold = Math.max(1, options.circuitBreakerThreshold ?? 5);
+    this.circuitBreakerCooldownMs = (options.circuitBreakerCooldownSeconds ?? 300) * 1000;
+  }
+
+  public async get(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse> {
+    return this.execute({ ...config, method: 'get', url });
+  }
+
+  public async post(url: string, data?: any, config: AxiosRequestConfig = {}): Promise<AxiosResponse> {
+    return this.execute({ ...config, method: 'post', url, data });
+  }
+
+  /**
+   * Current circuit breaker state
+   * - open becomes half_open once the cooldown has passed; the next request decides
+   */
+  public getCircuitState(now: number = Date.now()): CircuitState {
+    if (this.circuitOpenedAt === null) {
+      return 'closed';
+    }
+    return now - this.circuitOpenedAt < this.circuitBreakerCooldownMs ? 'open' : 'half_open';
+  }
+
+  public isCircuitOpen(now: number = Date.now()): boolean {
+    return this.getCircuitState(now) === 'open';
+  }
+
+  /**
+   * When the circuit will let a request through again (null when not open)
+   */
+  public getCircuitRetryAt(): number | null {
+    return this.circuitOpenedAt === null ? null : this.circuitOpenedAt + this.circuitBreakerCooldownMs;
+  }
+
+  /**
+   * Latency and error counters per endpoint ("GET /api/substitute-jobs/available")
+   */
+  public getMetrics(): { [endpoint: string]: EndpointMetrics } {
+    const result: { [endpoint: string]: EndpointMetrics } = {};
+    for (const [endpoint, metrics] of this.metrics) {
+      result[endpoint] = { ...metrics, statusCounts: { ...metrics.statusCounts } };
+    }
+    return result;
+  }
+
+  public resetMetrics(): void {
+    this.metrics.clear();
+  }
+
+  private async execute(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    const method = (config.method || 'get').toLowerCase();
+    const endpoint = ResilientHttpClient.endpointKey(method, config.url || '');
+
+    if (this.isCircuitOpen()) {
+      throw new CircuitOpenError(this.getCircuitRetryAt() as number);
+    }
+
+    const maxAttempts = method === 'get' ? this.maxRetries + 1 : 1;
+    const metrics = this.getEndpointMetrics(endpoint);
+    metrics.requests++;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      let response: AxiosResponse | null = null;
+      let error: any = null;
+
+      try {
+        response = await this.axiosInstance.request({ timeout: this.timeoutMs, ...config });
+      } catch (requestError) {
+        error = requestError;
+        // axios attaches the response when validateStatus rejected it
+        response = axios.isAxiosError(requestError) ? requestError.response ?? null : null;
+      }
+
+      this.recordAttempt(metrics, Date.now() - startedAt, response, error);
+
+      const status = response?.status;
+      const transient = status === undefined ? !!error : RETRYABLE_STATUSES.includes(status);
+      if (transient && attempt < maxAttempts) {
+        const delayMs = this.getRetryDelayMs(attempt, response);
+        if (delayMs !== null) {
+          metrics.retries++;
+          console.log(`   🔁 ${endpoint} ${status ?? (error?.code || 'network error')} - retry ${attempt}/${this.maxRetries} in ${Math.round(delayMs)}ms`);
+          await this.sleep(delayMs);
+          continue;
+        }
+      }
+
+      const upstreamFailure = status === undefined || status >= 500 || status === 429;
+      if (upstreamFailure) {
+        metrics.failures++;
+      }
+      this.recordOutcome(upstreamFailure, endpoint);
+
+      if (error) {
+        throw error;
+      }
+      return response as AxiosResponse;
+    }
+  }
+
+  /**
+   * Delay before the next attempt
+   * - Retry-After (seconds or HTTP date) on 429/503; null when it is longer than we wait
+   * - Otherwise full jitter: random between 0 and min(max, base * 2^(attempt - 1))
+   */
+  private getRetryDelayMs(attempt: number, response: AxiosResponse | null): number | null {
+    if (response && (response.status === 429 || response.status === 503)) {
+      const retryAfterMs = ResilientHttpClient.parseRetryAfter(response.headers?.['retry-after']);
+      if (retryAfterMs !== null) {
+        return retryAfterMs <= this.maxRetryAfterMs ? retryAfterMs : null;
+      }
+    }
+
+    const ceiling = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** (attempt - 1));
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Parse a Retry-After header into milliseconds (null when absent or invalid)
+   */
+  public static parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    const text = String(value).trim();
+    if (/^\d+$/.test(text)) {
+      return parseInt(text, 10) * 1000;
+    }
+    const date = Date.parse(text);
+    return isNaN(date) ? null : Math.max(0, date - now);
+  }
+
+  /**
+   * Group URLs by path, with numeric segments (job IDs) replaced by :id
+   */
+  public static endpointKey(method: string, url: string): string {
+    let pathname = url;
+    try {
+      pathname = new URL(url, 'http://localhost').pathname;
+    } catch {
+      // Keep the URL as given
+    }
+    return `${method.toUpperCase()} ${pathname.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+  }
+
+  private recordOutcome(upstreamFailure: boolean, endpoint: string): void {
+    if (!upstreamFailure) {
+      if (this.circuitOpenedAt !== null) {
+        console.log('   ✓ Upstream recovered - circuit closed');
+      }
+      this.consecutiveFailures = 0;
+      this.circuitOpenedAt = null;
+      return;
+    }
+
+    this.consecutiveFailures++;
+    const halfOpen = this.getCircuitState() === 'half_open';
+    if (halfOpen || this.consecutiveFailures >= this.circuitBreakerThreshold) {
+      this.circuitOpenedAt = Date.now();
+      console.warn(`   ⛔ Circuit opened after ${this.consecutiveFailures} upstream failure(s) (last: ${endpoint}) - pausing for ${this.circuitBreakerCooldownMs / 1000}s`);
+    }
+  }
+
+  private recordAttempt(metrics: EndpointMetrics, latencyMs: number, response: AxiosResponse | null, error: any): void {
+    metrics.totalLatencyMs += latencyMs;
+    metrics.maxLatencyMs = Math.max(metrics.maxLatencyMs, latencyMs);
+    const attempts = metrics.requests + metrics.retries;
+    metrics.averageLatencyMs = Math.round(metrics.totalLatencyMs / attempts);
+
+    if (response) {
+      const status = String(response.status);
+      metrics.statusCounts[status] = (metrics.statusCounts[status] || 0) + 1;
+    } else if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+      metrics.timeouts++;
+    } else {
+      metrics.networkErrors++;
+    }
+  }
+
+  private getEndpointMetrics(endpoint: string): EndpointMetrics {
+    let metrics = this.metrics.get(endpoint);
+    if (!metrics) {
+      metrics = {
+        requests: 0,
+        retries: 0,
+        failures: 0,
+        networkErrors: 0,
+        timeouts: 0,
+        statusCounts: {},
+        totalLatencyMs: 0,
+        maxLatencyMs: 0,
+        averageLatencyMs: 0
+      };
+      this.metrics.set(endpoint, metrics);
+    }
+    return metrics;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default ResilientHttpClient;
@@ -0,0 +1,132 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import AuthInterceptor from '../AuthInterceptor';
+import AuthTokenHolder from '../../auth/AuthTokenHolder';
+
+/**
+ * Tests for AuthInterceptor
+ *
+ * Covers:
+ * - Bearer token added to every request
+ * - 401: one refresh, one replay with the new token
+ * - Giving up when re-authentication fails
+ * - Refresh listener and uninstall
+ */
+
+describe('AuthInterceptor', () => {
+  let axiosInstance: AxiosInstance;
+  let adapter: jest.Mock;
+  let sentTokens: Array<string | undefined>;
+  let refresher: jest.Mock;
+  let tokenHolder: AuthTokenHolder;
+  let interceptor: AuthInterceptor;
+
+  // Adapter that answers with the given statuses in order and records the Authorization header
+  const respondWith = (...statuses: number[]) => {
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) => {
+      sentTokens.push(config.headers.get('Authorization') as string | undefined);
+      return { status: statuses.length > 1 ? statuses.shift() : statuses[0], statusText: '', data: {}, headers: {}, config };
+    });
+  };
+
+  beforeEach(() => {
+    adapter = jest.fn();
+    sentTokens = [];
+    axiosInstance = axios.create({ adapter, validateStatus: () => true });
+    refresher = jest.fn();
+    tokenHolder = new AuthTokenHolder(refresher);
+    tokenHolder.set('token_old');
+    interceptor = new AuthInterceptor(tokenHolder);
+    interceptor.install(axiosInstance);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should add the current token to every request', async () => {
+    respondWith(200);
+
+    await axiosInstance.get('/api/substitute-jobs/scheduled');
+    tokenHolder.set('token_new');
+    await axiosInstance.post('/api/substitute-jobs/1/accept', {});
+
+    expect(sentTokens).toEqual(['Bearer token_old', 'Bearer token_new']);
+  });
+
+  it('should refresh once on a 401 and replay the request with the new token', async () => {
+    respondWith(401, 200);
+    refresher.mockImplementation(async () => {
+      tokenHolder.set('token_new');
+      return 'token_new';
+    });
+
+    const response = await axiosInstance.get('/api/substitute-jobs/scheduled');
+
+    expect(response.status).toBe(200);
+    expect(refresher).toHaveBeenCalledWith('token_old');
+    expect(sentTokens).toEqual(['Bearer token_old', 'Bearer token_new']);
+  });
+
+  it('should not replay a request a second time', async () => {
+    respondWith(401);
+    refresher.mockResolvedValue('token_new');
+
+    const response = await axiosInstance.get('/api/substitute-jobs/scheduled');
+
+    expect(response.status).toBe(401);
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the 401 when re-authentication fails', async () => {
+    respondWith(401);
+    refresher.mockResolvedValue(null);
+
+    const response = await axiosInstance.get('/api/substitute-jobs/scheduled');
+
+    expect(response.status).toBe(401);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recover when axios rejects the 401', async () => {
+    axiosInstance.defaults.validateStatus = status => status < 400;
+    respondWith(401, 200);
+    refresher.mockResolvedValue('token_new');
+
+    const response = await axiosInstance.get('/api/substitute-jobs/scheduled');
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should call the refresh listener only when this request caused the refresh', async () => {
+    const onRefreshed = jest.fn();
+    interceptor.setOnRefreshed(onRefreshed);
+    respondWith(401, 200);
+    refresher.mockResolvedValue('token_new');
+
+    await axiosInstance.get('/api/substitute-jobs/scheduled');
+    expect(onRefreshed).toHaveBeenCalledTimes(1);
+
+    // The holder already moved on while this request was in flight
+    adapter.mockImplementationOnce(async (config: InternalAxiosRequestConfig) => {
+      tokenHolder.set('token_newer');
+      return { status: 401, statusText: '', data: {}, headers: {}, config };
+    });
+    refresher.mockResolvedValue('token_newer');
+    await axiosInstance.get('/api/substitute-jobs/available');
+
+    expect(onRefreshed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop adding tokens after uninstall', async () => {
+    respondWith(401);
+    interceptor.uninstall();
+
+    const response = await axiosInstance.get('/api/substitute-jobs/scheduled');
+
+    expect(response.status).toBe(401);
+    expect(sentTokens).toEqual([undefined]);
+    expect(refresher).not.toHaveBeenCalled();
+  });
+});
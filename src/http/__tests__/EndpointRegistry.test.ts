@@ -0,0 +1,72 @@
+import EndpointRegistry, { DEFAULT_ENDPOINTS, EndpointTemplates } from '../EndpointRegistry';
+
+/**
+ * Tests for EndpointRegistry
+ *
+ * Covers:
+ * - Default WillSub paths joined to the base URL
+ * - Path and query placeholders from call params and configured variables
+ * - Joining through a custom buildUrl (ConfigManager.buildUrl)
+ * - Absolute templates and invalid overrides
+ */
+
+describe('EndpointRegistry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build the default URLs on the base URL', () => {
+    const registry = new EndpointRegistry({ baseUrl: 'https://staging.willsubplus.com/' });
+
+    expect(registry.url('scheduledJobs')).toBe('https://staging.willsubplus.com/api/substitute-jobs/scheduled');
+    expect(registry.url('acceptJob', { jobId: 4711 })).toBe('https://staging.willsubplus.com/api/substitute-jobs/4711/accept');
+  });
+
+  it('should fill path and query placeholders from params and variables', () => {
+    const registry = new EndpointRegistry({
+      templates: { availableJobs: '/api/{apiVersion}/jobs/available?tenant={tenant}' },
+      variables: { apiVersion: 'v2', tenant: 'north district' }
+    });
+
+    expect(registry.url('availableJobs')).toBe('https://willsubplus.com/api/v2/jobs/available?tenant=north%20district');
+    expect(registry.url('availableJobs', { apiVersion: 'v3' })).toContain('/api/v3/');
+  });
+
+  it('should encode path values', () => {
+    expect(new EndpointRegistry().url('acceptJob', { jobId: '12/../34' })).toBe(
+      'https://willsubplus.com/api/substitute-jobs/12%2F..%2F34/accept'
+    );
+  });
+
+  it('should throw when a placeholder has no value', () => {
+    expect(() => new EndpointRegistry().url('acceptJob')).toThrow('No value for {jobId}');
+  });
+
+  it('should join relative paths through buildUrl and keep defaults for unset templates', () => {
+    const registry = new EndpointRegistry({
+      templates: { availableJobs: 'substitute/jobs/available/daily', scheduledJobs: undefined },
+      buildUrl: path => `https://tenant.example.com${path}`
+    });
+
+    expect(registry.url('availableJobs')).toBe('https://tenant.example.com/substitute/jobs/available/daily');
+    expect(registry.url('scheduledJobs')).toBe('https://tenant.example.com/api/substitute-jobs/scheduled');
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('should use absolute templates as they are', () => {
+    const registry = new EndpointRegistry({ templates: { scheduledJobs: 'http://localhost:4010/scheduled' } });
+
+    expect(registry.url('scheduledJobs')).toBe('http://localhost:4010/scheduled');
+  });
+
+  it('should ignore unknown endpoints and empty templates', () => {
+    const registry = new EndpointRegistry({ templates: { acceptJob: ' ', unknownJobs: '/x' } as EndpointTemplates });
+
+    expect(registry.template('acceptJob')).toBe(DEFAULT_ENDPOINTS.acceptJob);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,134 @@
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import HttpFixtures, { RecordedExchange } from '../HttpFixtures';
+
+/**
+ * Tests for HttpFixtures
+ *
+ * Covers:
+ * - Recording sanitized exchanges to numbered files
+ * - Replaying them offline, ignoring date parameters and the user's ID
+ * - Same-key responses served in order, the last one repeating
+ * - Unmatched requests and non-2xx statuses
+ */
+
+describe('HttpFixtures', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'willsub-fixtures-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const readFixtures = (): RecordedExchange[] =>
+    fs.readdirSync(directory).sort().map(file => JSON.parse(fs.readFileSync(path.join(directory, file), 'utf-8')));
+
+  // Records whatever the given handler answers for each request
+  const recordingClient = (handler: (config: InternalAxiosRequestConfig) => { status: number; data: unknown }) => {
+    const fixtures = new HttpFixtures({ mode: 'record', directory, idSalt: 'test-salt' });
+    const baseAdapter = async (config: InternalAxiosRequestConfig) => {
+      const { status, data } = handler(config);
+      return { status, statusText: '', data, headers: { 'content-type': 'application/json', 'set-cookie': ['SESSION=xyz'] }, config };
+    };
+    return axios.create({ baseURL: 'https://willsubplus.com', adapter: fixtures.createAdapter(baseAdapter), validateStatus: () => true });
+  };
+
+  const replayClient = () => {
+    const fixtures = new HttpFixtures({ mode: 'replay', directory });
+    return axios.create({ baseURL: 'https://willsubplus.com', adapter: fixtures.createAdapter(), validateStatus: () => true });
+  };
+
+  it('should record sanitized request/response pairs in order', async () => {
+    const client = recordingClient(config => config.method === 'post'
+      ? { status: 204, data: '' }
+      : { status: 200, data: { content: [{ id: 4512, absentEmployee: { firstName: 'Jane' } }], last: true } });
+
+    await client.get('/api/substitute-jobs/available', { params: { userId: 12345, page: 0, startDate: '2026-10-19' } });
+    await client.post('/api/substitute-jobs/4512/accept', { userId: 12345 });
+
+    expect(fs.readdirSync(directory).sort()).toEqual([
+      '0001-get-api-substitute-jobs-available.json',
+      expect.stringMatching(/^0002-post-api-substitute-jobs-\d+-accept\.json$/)
+    ]);
+
+    const [list, accept] = readFixtures();
+    const listed = list.response.data as { content: Array<{ id: number; absentEmployee: { firstName: string } }> };
+    const jobId = listed.content[0].id;
+    expect(list.request.query).toEqual({ userId: '<userId>', page: '0', startDate: '2026-10-19' });
+    expect(list.response.headers).toEqual({ 'content-type': 'application/json' });
+    expect(listed.content[0].absentEmployee.firstName).toBe('<firstName>');
+    expect(jobId).not.toBe(4512);
+    expect(accept.request.path).toBe(`/api/substitute-jobs/${jobId}/accept`);
+    expect(accept.request.body).toEqual({ userId: '<userId>' });
+    expect(accept.response.status).toBe(204);
+  });
+
+  it('should continue numbering after fixtures already in the directory', async () => {
+    fs.writeFileSync(path.join(directory, '0001-get-api-substitute-jobs-scheduled.json'), '{}');
+    const client = recordingClient(() => ({ status: 200, data: [] }));
+
+    await client.get('/api/substitute-jobs/available');
+
+    expect(fs.existsSync(path.join(directory, '0002-get-api-substitute-jobs-available.json'))).toBe(true);
+  });
+
+  it('should replay recordings for any user and date', async () => {
+    const recorder = recordingClient(() => ({ status: 200, data: { content: [{ id: 1 }], last: true } }));
+    await recorder.get('/api/substitute-jobs/available', { params: { userId: 12345, page: 0, startDate: '2026-10-19' } });
+
+    const response = await replayClient().get('/api/substitute-jobs/available', {
+      params: { userId: HttpFixtures.REPLAY_USER_ID, page: 0, startDate: '2027-03-01', endDate: '2027-03-05' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.data.content).toHaveLength(1);
+  });
+
+  it('should serve same-key responses in order and repeat the last one', async () => {
+    const statuses = [503, 200];
+    const recorder = recordingClient(() => ({ status: statuses.shift() as number, data: {} }));
+    await recorder.get('/api/substitute-jobs/scheduled');
+    await recorder.get('/api/substitute-jobs/scheduled');
+
+    const client = replayClient();
+    const replayed = [];
+    for (let i = 0; i < 3; i++) {
+      replayed.push((await client.get('/api/substitute-jobs/scheduled')).status);
+    }
+
+    expect(replayed).toEqual([503, 200, 200]);
+  });
+
+  it('should answer unmatched requests with 501', async () => {
+    const response = await replayClient().get('/api/substitute-jobs/scheduled', { params: { page: 3 } });
+
+    expect(response.status).toBe(501);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('No recorded fixture for GET /api/substitute-jobs/scheduled?page=3'));
+  });
+
+  it('should reject like axios when validateStatus fails', async () => {
+    const recorder = recordingClient(() => ({ status: 404, data: { message: 'Not found' } }));
+    await recorder.get('/api/substitute-jobs/1');
+
+    const fixtures = new HttpFixtures({ mode: 'replay', directory });
+    const client = axios.create({ adapter: fixtures.createAdapter() });
+
+    await expect(client.get(`/api/substitute-jobs/${readFixtures()[0].request.path.split('/').pop()}`))
+      .rejects.toMatchObject({ response: { status: 404 } });
+  });
+
+  it('should pass requests straight through when off', async () => {
+    const baseAdapter = jest.fn();
+    const fixtures = new HttpFixtures({ mode: 'off', directory });
+
+    expect(fixtures.createAdapter(baseAdapter)).toBe(baseAdapter);
+  });
+});
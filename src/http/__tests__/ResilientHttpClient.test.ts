@@ -0,0 +1,192 @@
+import { AxiosInstance } from 'axios';
+import ResilientHttpClient, { CircuitOpenError } from '../ResilientHttpClient';
+
+/**
+ * Tests for ResilientHttpClient
+ *
+ * Covers:
+ * - Timeout applied to every request
+ * - Retries with backoff for GETs on transient failures, never for POSTs
+ * - Retry-After on 429/503
+ * - Circuit breaker open / half-open / closed
+ * - Per-endpoint metrics
+ */
+
+describe('ResilientHttpClient', () => {
+  let mockAxiosInstance: { request: jest.Mock };
+  let sleepSpy: jest.SpyInstance;
+
+  const response = (status: number, headers: { [key: string]: string } = {}) => ({ status, data: {}, headers });
+  const networkError = () => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+  function createClient(options = {}): ResilientHttpClient {
+    const client = new ResilientHttpClient(mockAxiosInstance as unknown as AxiosInstance, { retryBaseDelayMs: 100, ...options });
+    // Skip the backoff waits
+    sleepSpy = jest.spyOn(client as unknown as { sleep: (ms: number) => Promise<void> }, 'sleep').mockResolvedValue(undefined);
+    return client;
+  }
+
+  beforeEach(() => {
+    mockAxiosInstance = { request: jest.fn() };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Retries', () => {
+    it('should pass the timeout and request config to axios', async () => {
+      const client = createClient({ timeoutSeconds: 7 });
+      mockAxiosInstance.request.mockResolvedValue(response(200));
+
+      await client.get('https://willsubplus.com/api/substitute-jobs/available', { params: { page: 0 } });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'get',
+        url: 'https://willsubplus.com/api/substitute-jobs/available',
+        params: { page: 0 },
+        timeout: 7000
+      }));
+    });
+
+    it('should retry a GET on 502 and network errors, then succeed', async () => {
+      const client = createClient();
+      mockAxiosInstance.request
+        .mockResolvedValueOnce(response(502))
+        .mockRejectedValueOnce(networkError())
+        .mockResolvedValueOnce(response(200));
+
+      const result = await client.get('/api/substitute-jobs/scheduled');
+
+      expect(result.status).toBe(200);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(sleepSpy).toHaveBeenCalledTimes(2);
+      expect(sleepSpy.mock.calls[0][0]).toBeLessThanOrEqual(100);
+      expect(sleepSpy.mock.calls[1][0]).toBeLessThanOrEqual(200);
+    });
+
+    it('should return the last response once the retries are used up', async () => {
+      const client = createClient({ maxRetries: 2 });
+      mockAxiosInstance.request.mockResolvedValue(response(503));
+
+      const result = await client.get('/api/substitute-jobs/scheduled');
+
+      expect(result.status).toBe(503);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry a 4xx or a POST', async () => {
+      const client = createClient();
+      mockAxiosInstance.request.mockResolvedValueOnce(response(401)).mockResolvedValueOnce(response(502));
+
+      expect((await client.get('/api/substitute-jobs/scheduled')).status).toBe(401);
+      expect((await client.post('/api/substitute-jobs/1/accept', { userId: 1 })).status).toBe(502);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait for Retry-After on 429 and give up when it is too long', async () => {
+      const client = createClient({ maxRetryAfterSeconds: 30 });
+      mockAxiosInstance.request
+        .mockResolvedValueOnce(response(429, { 'retry-after': '3' }))
+        .mockResolvedValueOnce(response(200))
+        .mockResolvedValueOnce(response(429, { 'retry-after': '120' }));
+
+      expect((await client.get('/api/substitute-jobs/available')).status).toBe(200);
+      expect(sleepSpy).toHaveBeenCalledWith(3000);
+
+      expect((await client.get('/api/substitute-jobs/available')).status).toBe(429);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should parse Retry-After as seconds or an HTTP date', () => {
+      const now = Date.parse('2024-03-04T12:00:00Z');
+
+      expect(ResilientHttpClient.parseRetryAfter('5', now)).toBe(5000);
+      expect(ResilientHttpClient.parseRetryAfter('Mon, 04 Mar 2024 12:00:10 GMT', now)).toBe(10000);
+      expect(ResilientHttpClient.parseRetryAfter('soon', now)).toBeNull();
+      expect(ResilientHttpClient.parseRetryAfter(undefined, now)).toBeNull();
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    it('should open after repeated failures and fail fast', async () => {
+      const client = createClient({ maxRetries: 0, circuitBreakerThreshold: 2 });
+      mockAxiosInstance.request.mockRejectedValue(networkError());
+
+      await expect(client.get('/api/a')).rejects.toThrow('socket hang up');
+      expect(client.getCircuitState()).toBe('closed');
+      await expect(client.get('/api/a')).rejects.toThrow('socket hang up');
+
+      expect(client.isCircuitOpen()).toBe(true);
+      await expect(client.get('/api/a')).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let one request through after the cooldown and close on success', async () => {
+      const client = createClient({ maxRetries: 0, circuitBreakerThreshold: 1, circuitBreakerCooldownSeconds: 60 });
+      const start = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(start);
+      mockAxiosInstance.request.mockResolvedValueOnce(response(500)).mockResolvedValueOnce(response(200));
+
+      await client.get('/api/a');
+      expect(client.isCircuitOpen()).toBe(true);
+
+      nowSpy.mockReturnValue(start + 61000);
+      expect(client.getCircuitState()).toBe('half_open');
+      expect((await client.get('/api/a')).status).toBe(200);
+      expect(client.getCircuitState()).toBe('closed');
+    });
+
+    it('should reopen when the half-open request fails', async () => {
+      const client = createClient({ maxRetries: 0, circuitBreakerThreshold: 3, circuitBreakerCooldownSeconds: 60 });
+      const start = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(start);
+      mockAxiosInstance.request.mockResolvedValue(response(504));
+
+      for (let i = 0; i < 3; i++) {
+        await client.get('/api/a');
+      }
+      nowSpy.mockReturnValue(start + 61000);
+      await client.get('/api/a');
+
+      expect(client.isCircuitOpen()).toBe(true);
+      expect(client.getCircuitRetryAt()).toBe(start + 61000 + 60000);
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should count requests, retries, statuses and failures per endpoint', async () => {
+      const client = createClient({ maxRetries: 1 });
+      mockAxiosInstance.request
+        .mockResolvedValueOnce(response(502))
+        .mockResolvedValueOnce(response(200))
+        .mockResolvedValueOnce(response(204));
+
+      await client.get('https://willsubplus.com/api/substitute-jobs/available?page=0');
+      await client.post('https://willsubplus.com/api/substitute-jobs/4711/accept', {});
+
+      const metrics = client.getMetrics();
+      expect(metrics['GET /api/substitute-jobs/available']).toMatchObject({
+        requests: 1,
+        retries: 1,
+        failures: 0,
+        statusCounts: { '502': 1, '200': 1 }
+      });
+      expect(metrics['POST /api/substitute-jobs/:id/accept']).toMatchObject({ requests: 1, statusCounts: { '204': 1 } });
+    });
+
+    it('should count timeouts and network errors separately', async () => {
+      const client = createClient({ maxRetries: 0 });
+      mockAxiosInstance.request
+        .mockRejectedValueOnce(Object.assign(new Error('timeout of 15000ms exceeded'), { code: 'ECONNABORTED' }))
+        .mockRejectedValueOnce(networkError());
+
+      await expect(client.get('/api/a')).rejects.toThrow('timeout');
+      await expect(client.get('/api/a')).rejects.toThrow('socket hang up');
+
+      expect(client.getMetrics()['GET /api/a']).toMatchObject({ timeouts: 1, networkErrors: 1, failures: 2 });
+    });
+  });
+});
@@ -1,30 +1,68 @@
-import ConfigManager from './config/ConfigManager';
+import ConfigManager, { HttpClientConfig, HttpFixturesConfig, JobsApiConfig } from './config/ConfigManager';
 import PuppeteerAuthModule from './auth/PuppeteerAuthModule';
-import JobsModule from './jobs/JobsModule';
+import JobsModule, { JobsFetchResult } from './jobs/JobsModule';
 import JobPreferencesManager from './jobs/JobPreferencesManager';
+import AvailabilityRules from './jobs/AvailabilityRules';
+import BlackoutCalendar from './jobs/BlackoutCalendar';
 import JobComparisonModule from './jobs/JobComparisonModule';
+import JobScorer from './jobs/JobScorer';
 import JobApplicationModule from './jobs/JobApplicationModule';
+import { SubstituteJob } from './jobs/JobNormalizer';
+import JobSnapshotStore, { JobSnapshotDiff, SnapshotKind } from './jobs/JobSnapshotStore';
 import JobScheduler from './scheduler/JobScheduler';
 import FileLogger from './logger/FileLogger';
 import TelegramNotifier from './notifications/TelegramNotifier';
+import VaultCredentialProvider from './auth/VaultCredentialProvider';
+import ResilientHttpClient from './http/ResilientHttpClient';
+import AuthInterceptor from './http/AuthInterceptor';
+import EndpointRegistry from './http/EndpointRegistry';
+import HttpFixtures from './http/HttpFixtures';
+import MockWillSubServer from './mock/MockWillSubServer';
 import axios from 'axios';
 
+/**
+ * Record a complete fetch in the snapshot store and log what changed since the last poll
+ * - Failed or truncated fetches are skipped, they would show every missing job as removed
+ */
+function recordSnapshot(store: JobSnapshotStore | null, kind: SnapshotKind, result: JobsFetchResult): JobSnapshotDiff | null {
+  if (!store || !result.success || result.truncated) {
+    return null;
+  }
+
+  try {
+    const diff = store.record(kind, result.jobs);
+    if (diff.firstPoll) {
+      console.log(`🗂️  Snapshot (${kind}): first poll, ${diff.added.length} job(s) recorded`);
+      return diff;
+    }
+
+    const since = diff.previousPollAt ? new Date(diff.previousPollAt).toLocaleString() : 'unknown';
+    console.log(`🗂️  Snapshot (${kind}) since ${since}: +${diff.added.length} new, -${diff.removed.length} gone, ~${diff.modified.length} changed, ${diff.unchanged} unchanged`);
+    diff.added.slice(0, 5).forEach(job => console.log(`   + ${job.title} @ ${job.building?.title || 'N/A'} (${job.startDate || 'N/A'})`));
+    diff.removed.slice(0, 5).forEach(entry => console.log(`   - ${entry.job.title} @ ${entry.job.building?.title || 'N/A'} (last seen ${new Date(entry.lastSeen).toLocaleString()})`));
+    diff.modified.slice(0, 5).forEach(change => console.log(`   ~ ${change.job.title}: ${change.changedFields.join(', ')}`));
+    return diff;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️  Could not update job snapshot (${kind}): ${errorMessage}`);
+    return null;
+  }
+}
+
 /**
  * Display jobs in a formatted table
  */
-function displayJobsTable(jobs: any[]) {
+function displayJobsTable(jobs: SubstituteJob[]) {
   const displayJobs = jobs.slice(0, 10);
   const tableRows = displayJobs.map((job, idx) => {
-    const scheduleType = job.schedules?.[0]?.scheduleType || 'N/A';
-    const buildingObj = job.schedules?.[0]?.building;
-    const building = buildingObj?.title || buildingObj?.name || 'N/A';
-    const startDate = job.startDate || job.date || 'N/A';
+    const scheduleType = job.scheduleType || 'N/A';
+    const building = job.building?.title || 'N/A';
+    const startDate = job.startDate || 'N/A';
     const endDate = job.endDate || startDate;
-    const time = job.schedules?.[0]?.startTime || job.time || '';
-    const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
+    const time = job.time;
     return {
       '#': idx + 1,
-      'Title': title,
+      'Title': job.title,
       'Building': building,
       'Schedule Type': scheduleType,
       'Start Date': startDate,
@@ -57,26 +95,74 @@ function displayJobsTable(jobs: any[]) {
 }
 
 /**
- * Handle 401 errors by refreshing auth and retrying
+ * Auth module shared across scheduler cycles
+ * - Keeps the proactive token refresh timer alive between polls
  */
-async function handleAuthError(
-  authModule: PuppeteerAuthModule,
-  retryFn: (token: string) => Promise<any>,
-  telegram?: TelegramNotifier | null
-): Promise<any> {
-  console.log('\n🔄 Detected 401 - Attempting to refresh authentication...');
-  const refreshResult = await authModule.reAuthenticate();
-  
-  if (refreshResult.success && refreshResult.bearerToken) {
-    console.log('✓ Re-authentication successful - Retrying request...\n');
-    if (telegram?.isEnabled()) {
-      await telegram.notifyAuthRefresh();
+let sharedAuthModule: PuppeteerAuthModule | null = null;
+
+function getAuthModule(): PuppeteerAuthModule {
+  if (!sharedAuthModule) {
+    sharedAuthModule = new PuppeteerAuthModule();
+  }
+  return sharedAuthModule;
+}
+
+/**
+ * HTTP client shared across scheduler cycles
+ * - Keeps the circuit breaker state and endpoint metrics between polls
+ * - The auth interceptor adds the current bearer token and replays requests after a 401
+ * - With httpFixtures, traffic is recorded to or replayed from fixture files
+ */
+let sharedHttpClient: ResilientHttpClient | null = null;
+let sharedAuthInterceptor: AuthInterceptor | null = null;
+
+function getHttpClient(httpConfig?: HttpClientConfig, fixturesConfig?: HttpFixturesConfig): ResilientHttpClient {
+  if (!sharedHttpClient) {
+    const fixtures = fixturesConfig && fixturesConfig.mode !== 'off' ? new HttpFixtures(fixturesConfig) : null;
+    const axiosInstance = axios.create(fixtures ? { adapter: fixtures.createAdapter() } : {});
+    // Replay never logs in, so a recorded 401 must not trigger a real re-authentication
+    if (fixtures?.getMode() !== 'replay') {
+      getAuthInterceptor().install(axiosInstance);
     }
-    return retryFn(refreshResult.bearerToken);
-  } else {
-    console.log('✗ Re-authentication failed\n');
-    return null;
+    sharedHttpClient = new ResilientHttpClient(axiosInstance, httpConfig);
+  }
+  return sharedHttpClient;
+}
+
+/**
+ * Jobs module shared across scheduler cycles
+ * - Keeps the per-job details cache between polls
+ */
+let sharedJobsModule: JobsModule | null = null;
+
+function getJobsModule(httpClient: ResilientHttpClient, endpoints: EndpointRegistry, jobsApiConfig?: JobsApiConfig): JobsModule {
+  if (!sharedJobsModule) {
+    sharedJobsModule = new JobsModule(httpClient, 5, endpoints, jobsApiConfig); // 5 second cache for testing
   }
+  return sharedJobsModule;
+}
+
+function getAuthInterceptor(): AuthInterceptor {
+  if (!sharedAuthInterceptor) {
+    sharedAuthInterceptor = new AuthInterceptor(getAuthModule().getTokenHolder());
+  }
+  return sharedAuthInterceptor;
+}
+
+/**
+ * Log a one-line latency/error summary per endpoint
+ */
+function logHttpMetrics(httpClient: ResilientHttpClient) {
+  const metrics = httpClient.getMetrics();
+  const endpoints = Object.keys(metrics);
+  if (endpoints.length === 0) return;
+
+  console.log('📈 API metrics (since start):');
+  for (const endpoint of endpoints) {
+    const m = metrics[endpoint];
+    console.log(`   ${endpoint}: ${m.requests} request(s), avg ${m.averageLatencyMs}ms, max ${m.maxLatencyMs}ms, ${m.retries} retries, ${m.failures} failures`);
+  }
+  console.log('');
 }
 
 /**
@@ -142,6 +228,44 @@ function loadFilterPreferences(configManager: ConfigManager): { preferences: any
         }
       }
 
+      if (jobFilteringConfig.filterByAvailability?.enabled) {
+        const rules = jobFilteringConfig.filterByAvailability.rules || [];
+        const problems = AvailabilityRules.validate(rules);
+        if (problems.length > 0) {
+          console.warn(`⚠️  Availability rules have problems: ${problems.join('; ')}`);
+        }
+        preferences.availability = rules;
+      }
+
+      if (jobFilteringConfig.filterByBlackouts?.enabled) {
+        const blackoutConfig = jobFilteringConfig.filterByBlackouts;
+        const imported = [BlackoutCalendar.fromRanges(blackoutConfig.periods || [])];
+        if (blackoutConfig.calendarFile) {
+          const calendar = BlackoutCalendar.loadIcsFile(blackoutConfig.calendarFile, config?.jobsApi?.timeZone);
+          if (!calendar.success && calendar.problems.length === 0) {
+            // The file itself could not be read
+            console.warn(`⚠️  ${calendar.message}`);
+          }
+          imported.push(calendar);
+        }
+        const problems = imported.flatMap(result => result.problems);
+        if (problems.length > 0) {
+          console.warn(`⚠️  Blackouts have problems: ${problems.join('; ')}`);
+        }
+        preferences.blackouts = imported.flatMap(result => result.periods);
+      }
+
+      // Rule problems are rejected when the config is loaded
+      if (jobFilteringConfig.filterByRule?.enabled && jobFilteringConfig.filterByRule.rule) {
+        preferences.rule = jobFilteringConfig.filterByRule.rule;
+      }
+
+      if (jobFilteringConfig.filterByLeadTime?.enabled) {
+        const { minMinutes, maxDays, lastMinute } = jobFilteringConfig.filterByLeadTime;
+        preferences.leadTime = { minMinutes, maxDays, lastMinute };
+        preferences.timeZone = config?.jobsApi?.timeZone;
+      }
+
       manager.setPreferences(preferences);
     }
   } catch (error) {
@@ -151,6 +275,74 @@ function loadFilterPreferences(configManager: ConfigManager): { preferences: any
   return { preferences, manager };
 }
 
+/**
+ * Log in and verify the session (Steps 2-5)
+ * - Returns the user ID, or null when this cycle should be skipped (login throttled)
+ * - Exits the process when login fails outright
+ */
+async function logIn(telegram: TelegramNotifier | null): Promise<string | null> {
+  // Step 2: Initialize Puppeteer authentication module with caching
+  console.log('🔑 Step 2: Initializing Puppeteer Authentication Module (with Cookie Caching)');
+  const authModule = getAuthModule();
+  console.log('   ✓ Auth module ready with caching enabled\n');
+
+  // Step 3: Attempt login
+  console.log('🔐 Step 3: Testing Puppeteer Login');
+  const loginResult = await authModule.login();
+  
+  if (!loginResult.success && (loginResult.failureReason === 'throttled' || loginResult.failureReason === 'locked_out')) {
+    // Skip this cycle without exiting, so a restart loop can't retry the login either
+    console.log(`   ⏸️ ${loginResult.message}\n`);
+    if (loginResult.failureReason === 'locked_out' && telegram?.isEnabled() && authModule.claimLockoutAlert()) {
+      await telegram.notifyLoginPaused(loginResult.message || 'Too many consecutive login failures');
+    }
+    process.exitCode = 1;
+    return null;
+  }
+
+  if (!loginResult.success) {
+    console.log('   ✗ Login failed. Check credentials and try again.\n');
+    if (telegram?.isEnabled()) {
+      await telegram.notifyAuthError(
+        loginResult.message || 'Login failed. Check credentials and try again.',
+        loginResult.diagnosticsPath
+      );
+    }
+    process.exit(1);
+  }
+
+  console.log(`   ✓ Authentication Status: ${authModule.getAuthStatus()}\n`);
+  console.log('✨ Phase 1 Complete!\n');
+
+  // Get Bearer token and userId from auth result
+  const bearerToken = loginResult.bearerToken;
+  const userId = loginResult.userId;
+  
+  if (!bearerToken || !userId) {
+    console.log('✗ No Bearer token or userId available for job fetching');
+    console.log(`  Token: ${bearerToken ? 'Present' : 'Missing'}`);
+    console.log(`  UserId: ${userId ? 'Present' : 'Missing'}\n`);
+    process.exit(1);
+  }
+
+  console.log(`✓ Bearer Token: ${bearerToken.substring(0, 30)}...`);
+  console.log(`✓ User ID: ${userId}\n`);
+
+  // Step 5: Verify and refresh auth if needed before Phase 2
+  console.log('🔍 Step 5: Verifying Authentication Status');
+  const authVerification = await authModule.verifyAndRefreshAuth();
+  
+  if (!authVerification.success) {
+    console.log('   ✗ Authentication verification failed');
+    console.log(`   Error: ${authVerification.message}\n`);
+    process.exit(1);
+  }
+
+  console.log(`   ✓ Auth verified - Bearer Token valid\n`);
+
+  return userId;
+}
+
 /**
  * Main entry point for the application
  * 
@@ -193,77 +385,58 @@ async function main() {
       console.log('📱 Telegram notifications disabled (set TELEGRAM_BOT_TOKEN & TELEGRAM_CHAT_ID to enable)');
     }
 
+    // Skip the cycle while the API keeps failing, so we don't hammer it
+    const circuitClient = getHttpClient(config?.http, config?.httpFixtures);
+    if (circuitClient.isCircuitOpen()) {
+      const retryAt = circuitClient.getCircuitRetryAt();
+      console.log(`⏸️  Polling paused after repeated API failures - resuming after ${retryAt ? new Date(retryAt).toLocaleTimeString() : 'the cooldown'}\n`);
+      return;
+    }
+
     // Step 1: Initialize and load configuration
     console.log('📋 Step 1: Loading Configuration');
     console.log(`   Base URL: ${config?.baseUrl}`);
     console.log(`   Polling Interval: ${config?.pollingIntervalSeconds}s\n`);
 
-    // Step 2: Initialize Puppeteer authentication module with caching
-    console.log('🔑 Step 2: Initializing Puppeteer Authentication Module (with Cookie Caching)');
-    const authModule = new PuppeteerAuthModule();
-    console.log('   ✓ Auth module created with caching enabled\n');
-
-    // Step 3: Attempt login
-    console.log('🔐 Step 3: Testing Puppeteer Login');
-    const loginResult = await authModule.login();
-    
-    if (!loginResult.success) {
-      console.log('   ✗ Login failed. Check credentials and try again.\n');
-      if (telegram?.isEnabled()) {
-        await telegram.notifyAuthError('Login failed. Check credentials and try again.');
-      }
-      process.exit(1);
+    // Steps 2-5: Log in - not needed when replaying recorded API traffic
+    const replaying = config?.httpFixtures?.mode === 'replay';
+    if (replaying) {
+      console.log('📼 Replaying recorded API responses - skipping login\n');
+    }
+    const userId = replaying ? HttpFixtures.REPLAY_USER_ID : await logIn(telegram);
+    if (!userId) {
+      return;
     }
-
-    console.log(`   ✓ Authentication Status: ${authModule.getAuthStatus()}\n`);
-    console.log('✨ Phase 1 Complete!\n');
 
     // Step 4: Initialize Jobs Module and fetch scheduled jobs (Phase 2a)
     console.log('='.repeat(50));
     console.log('📋 Phase 2a: Fetching Scheduled (Current) Jobs\n');
 
-    const axiosInstance = axios.create();
-    const jobsModule = new JobsModule(axiosInstance, 5, config?.baseUrl); // 5 second cache for testing
-
-    // Get Bearer token and userId from auth result
-    const bearerToken = loginResult.bearerToken;
-    const userId = loginResult.userId;
-    
-    if (!bearerToken || !userId) {
-      console.log('✗ No Bearer token or userId available for job fetching');
-      console.log(`  Token: ${bearerToken ? 'Present' : 'Missing'}`);
-      console.log(`  UserId: ${userId ? 'Present' : 'Missing'}\n`);
-      process.exit(1);
-    }
-
-    console.log(`✓ Bearer Token: ${bearerToken.substring(0, 30)}...`);
-    console.log(`✓ User ID: ${userId}\n`);
-
-    // Step 5: Verify and refresh auth if needed before Phase 2
-    console.log('🔍 Step 5: Verifying Authentication Status');
-    const authVerification = await authModule.verifyAndRefreshAuth();
-    
-    if (!authVerification.success) {
-      console.log('   ✗ Authentication verification failed');
-      console.log(`   Error: ${authVerification.message}\n`);
-      process.exit(1);
+    const httpClient = getHttpClient(config?.http, config?.httpFixtures);
+    const endpoints = new EndpointRegistry({
+      templates: {
+        scheduledJobs: config?.scheduledJobsEndpoint,
+        availableJobs: config?.jobsEndpoint,
+        jobDetails: config?.jobDetailsEndpoint,
+        acceptJob: config?.jobApplicationEndpoint
+      },
+      variables: config?.endpointVariables,
+      buildUrl: path => configManager.buildUrl(path)
+    });
+    const jobsModule = getJobsModule(httpClient, endpoints, config?.jobsApi);
+    const snapshotStore = config?.jobSnapshots?.enabled
+      ? new JobSnapshotStore(config.jobSnapshots.filePath || './job_snapshots.json')
+      : null;
+
+    // Requests below get the current token from the auth interceptor, which also handles 401s
+    // (replay serves recorded responses without one, so the auth module is never created)
+    if (!replaying) {
+      const notifier = telegram;
+      getAuthInterceptor().setOnRefreshed(notifier?.isEnabled() ? () => notifier.notifyAuthRefresh() : null);
     }
-
-    let currentBearerToken = authVerification.bearerToken || bearerToken;
-    console.log(`   ✓ Auth verified - Bearer Token valid\n`);
     
     // Fetch scheduled jobs
-    let scheduledResult = await jobsModule.fetchScheduledJobs(currentBearerToken, userId);
-
-    // Handle 401 errors by refreshing auth and retrying
-    if (!scheduledResult.success && scheduledResult.statusCode === 401) {
-      const retryResult = await handleAuthError(authModule, async (newToken) => 
-        jobsModule.fetchScheduledJobs(newToken, userId)
-      , telegram);
-      if (retryResult) {
-        scheduledResult = retryResult;
-      }
-    }
+    const scheduledResult = await jobsModule.fetchScheduledJobs(userId);
 
     if (scheduledResult.success) {
       console.log(`✓ Fetched ${scheduledResult.totalCount} scheduled jobs`);
@@ -279,6 +452,7 @@ async function main() {
         console.log('   (No scheduled jobs found)\n');
       }
 
+      recordSnapshot(snapshotStore, 'scheduled', scheduledResult);
       console.log('✨ Phase 2a Complete! Scheduled jobs cached and ready\n');
     } else {
       console.log(`✗ Failed to fetch jobs: ${scheduledResult.message}\n`);
@@ -288,17 +462,7 @@ async function main() {
     console.log('='.repeat(50));
     console.log('📋 Phase 2b: Fetching Available (New) Jobs\n');
 
-    let availableResult = await jobsModule.fetchAvailableJobs(currentBearerToken, userId);
-
-    // Handle 401 errors by refreshing auth and retrying
-    if (!availableResult.success && availableResult.statusCode === 401) {
-      const retryResult = await handleAuthError(authModule, async (newToken) => 
-        jobsModule.fetchAvailableJobs(newToken, userId)
-      , telegram);
-      if (retryResult) {
-        availableResult = retryResult;
-      }
-    }
+    const availableResult = await jobsModule.fetchAvailableJobs(userId);
 
     if (availableResult.success) {
       console.log(`✓ Fetched ${availableResult.totalCount} available jobs`);
@@ -309,11 +473,8 @@ async function main() {
       if (availableResult.jobs.length > 0) {
         // Log all jobs BEFORE filtering
         console.log(`\n📋 Before Filter: ${availableResult.jobs.length} available job(s):`);
-        availableResult.jobs.forEach((job: any, idx: number) => {
-          const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
-          const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-          const date = job.startDate || job.date || 'N/A';
-          console.log(`   ${idx + 1}. ${title} @ ${building} (${date})`);
+        availableResult.jobs.forEach((job, idx) => {
+          console.log(`   ${idx + 1}. ${job.title} @ ${job.building?.title || 'N/A'} (${job.startDate || 'N/A'})`);
         });
 
         // Apply filtering if preferences are configured
@@ -323,11 +484,8 @@ async function main() {
 
         // Log jobs AFTER filtering
         console.log(`\n✅ After Filter: ${filteredJobs.length} job(s) passed:`);
-        filteredJobs.forEach((job: any, idx: number) => {
-          const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
-          const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-          const date = job.startDate || job.date || 'N/A';
-          console.log(`   ${idx + 1}. ${title} @ ${building} (${date})`);
+        filteredJobs.forEach((job, idx) => {
+          console.log(`   ${idx + 1}. ${job.title} @ ${job.building?.title || 'N/A'} (${job.startDate || 'N/A'})`);
         });
 
         console.log('\n🆕 Available Jobs (Today & Upcoming):');
@@ -351,10 +509,10 @@ async function main() {
           if (config?.display?.showFilteredJobsDetails !== false && excludedJobs.length > 0) {
             console.log(`   ${excludedJobs.length} job(s) were excluded:\n`);
             excludedJobs.slice(0, 5).forEach((item, idx) => {
-              const exTitle = item.job.positionTitle || item.job.position || item.job.positionType?.title || item.job.title || 'Untitled';
-              const exBuilding = item.job.schedules?.[0]?.building?.title || item.job.schedules?.[0]?.building?.name || 'N/A';
-              console.log(`   ${idx + 1}. ${exTitle} @ ${exBuilding}`);
-              console.log(`      Reason: ${item.reason}\n`);
+              console.log(`   ${idx + 1}. ${item.job.title} @ ${item.job.building?.title || 'N/A'}`);
+              console.log(`      Reason: ${item.reason}`);
+              (item.trace || []).forEach(line => console.log(`        ${line}`));
+              console.log('');
             });
             if (excludedJobs.length > 5) {
               console.log(`   ... and ${excludedJobs.length - 5} more excluded jobs\n`);
@@ -367,6 +525,7 @@ async function main() {
         console.log('   (No available jobs found)\n');
       }
 
+      recordSnapshot(snapshotStore, 'available', availableResult);
       console.log('✨ Phase 2b Complete! Available jobs filtered and ready\n');
     } else {
       console.log(`✗ Failed to fetch available jobs: ${availableResult.message}\n`);
@@ -377,26 +536,17 @@ async function main() {
     const jobFilteringForLongTerm = config?.jobFiltering?.filterByJobType;
     const shouldLoadLongTerm = jobFilteringForLongTerm?.enabled ? (jobFilteringForLongTerm.includeLongTerm !== false) : true;
 
-    let longTermResult: any = { success: false, jobs: [], totalCount: 0, message: 'Long-term jobs skipped (includeLongTerm is false)' };
+    let longTermResult: JobsFetchResult = { success: false, jobs: [], totalCount: 0, timestamp: Date.now(), message: 'Long-term jobs skipped (includeLongTerm is false)' };
 
     if (shouldLoadLongTerm) {
       console.log('='.repeat(50));
       console.log('🔍 VERIFICATION: Phase 2b with Long-term Jobs (with Filtering)\n');
 
-      longTermResult = await jobsModule.fetchAvailableLongTermJobs(currentBearerToken, userId);
-
-      // Handle 401 errors by refreshing auth and retrying
-      if (!longTermResult.success && longTermResult.statusCode === 401) {
-        const retryResult = await handleAuthError(authModule, async (newToken) => 
-          jobsModule.fetchAvailableLongTermJobs(newToken, userId)
-        , telegram);
-        if (retryResult) {
-          longTermResult = retryResult;
-        }
-      }
+      longTermResult = await jobsModule.fetchAvailableLongTermJobs(userId);
 
       if (longTermResult.success) {
         console.log(`✓ Fetched ${longTermResult.totalCount} long-term available jobs`);
+        recordSnapshot(snapshotStore, 'longTerm', longTermResult);
         
         if (longTermResult.jobs.length > 0) {
           // Load filter preferences from config
@@ -427,9 +577,7 @@ async function main() {
             if (config?.display?.showFilteredJobsDetails !== false && excludedLongTerm.length > 0) {
               console.log(`   ${excludedLongTerm.length} jobs were excluded:\n`);
               excludedLongTerm.slice(0, 5).forEach((item, idx) => {
-                const building = item.job.schedules?.[0]?.building?.title || item.job.schedules?.[0]?.building?.name || 'N/A';
-                const ltTitle = item.job.positionTitle || item.job.position || item.job.positionType?.title || item.job.title || 'Untitled';
-                console.log(`   ${idx + 1}. ${ltTitle} @ ${building}`);
+                console.log(`   ${idx + 1}. ${item.job.title} @ ${item.job.building?.title || 'N/A'}`);
                 console.log(`      Reason: ${item.reason}\n`);
               });
               if (excludedLongTerm.length > 5) {
@@ -464,7 +612,11 @@ async function main() {
     console.log('='.repeat(80));
     console.log('Comparing scheduled jobs vs available jobs to find new opportunities...\n');
 
-    const comparisonModule = new JobComparisonModule();
+    // Rank opportunities when a scoring model is configured
+    const scorer = config?.jobScoring?.enabled
+      ? new JobScorer(config.jobScoring, config.jobsApi?.timeZone)
+      : null;
+    const comparisonModule = new JobComparisonModule(scorer || undefined);
 
     // Use scheduled jobs for comparison
     const scheduledForComparison = scheduledResult.jobs;
@@ -480,23 +632,27 @@ async function main() {
 
     // Log all combined jobs BEFORE filtering
     console.log(`📋 Before Filter: ${allAvailableJobs.length} total available job(s):`);
-    allAvailableJobs.forEach((job: any, idx: number) => {
-      const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
-      const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-      const date = job.startDate || job.date || 'N/A';
-      console.log(`   ${idx + 1}. ${title} @ ${building} (${date})`);
+    allAvailableJobs.forEach((job, idx) => {
+      console.log(`   ${idx + 1}. ${job.title} @ ${job.building?.title || 'N/A'} (${job.startDate || 'N/A'})`);
     });
 
     const filteredAvailableResult = phase3Prefs.filterJobs(allAvailableJobs);
-    const filteredAvailableJobs = filteredAvailableResult.passed;
+    let filteredAvailableJobs = filteredAvailableResult.passed;
+
+    // Load the full records of the shortlist and filter again with every schedule day
+    if (config?.jobsApi?.fetchDetails && filteredAvailableJobs.length > 0) {
+      console.log(`\n📄 Loading details for ${filteredAvailableJobs.length} shortlisted job(s)...`);
+      const detailedResult = phase3Prefs.filterJobs(await jobsModule.withDetails(filteredAvailableJobs));
+      detailedResult.filtered.forEach(({ job, reason }) => {
+        console.log(`   ✗ ${job.title} @ ${job.building?.title || 'N/A'}: ${reason}`);
+      });
+      filteredAvailableJobs = detailedResult.passed;
+    }
 
     // Log jobs AFTER filtering
     console.log(`\n✅ After Filter: ${filteredAvailableJobs.length} job(s) passed:`);
-    filteredAvailableJobs.forEach((job: any, idx: number) => {
-      const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
-      const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-      const date = job.startDate || job.date || 'N/A';
-      console.log(`   ${idx + 1}. ${title} @ ${building} (${date})`);
+    filteredAvailableJobs.forEach((job, idx) => {
+      console.log(`   ${idx + 1}. ${job.title} @ ${job.building?.title || 'N/A'} (${job.startDate || 'N/A'})`);
     });
 
     console.log(`\n📊 Phase 3 Input: ${allAvailableJobs.length} total available jobs → ${filteredAvailableJobs.length} after filtering\n`);
@@ -521,14 +677,13 @@ async function main() {
         10
       );
       const tableRows = displayOpportunities.map((job, idx) => {
-        const scheduleType = job.schedules?.[0]?.scheduleType || 'N/A';
-        const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-        const startDate = job.startDate || job.date || 'N/A';
-        const endDate = job.endDate || startDate || 'N/A';
-        const time = job.schedules?.[0]?.startTime || job.time || '';
+        const building = job.building?.title || 'N/A';
+        const startDate = job.startDate || 'N/A';
+        const endDate = job.endDate || startDate;
+        const time = job.time;
         return {
           '#': idx + 1,
-          'Title': job.positionTitle || job.position || job.positionType?.title || 'N/A',
+          'Title': job.title,
           'Building': building,
           'Start': startDate,
           'End': endDate,
@@ -562,6 +717,14 @@ async function main() {
           `\n   ... and ${comparisonResult.newOpportunities.length - 10} more opportunities\n`
         );
       }
+
+      // Explain the ranking of the best few
+      if (comparisonResult.scores.length > 0) {
+        console.log('\n🏅 Scores (best first):');
+        comparisonResult.scores.slice(0, 5).forEach((score, idx) => {
+          console.log(`   ${idx + 1}. ${score.job.title} @ ${score.job.building?.title || 'N/A'}: ${JobScorer.formatBreakdown(score)}`);
+        });
+      }
     } else {
       console.log('\n❌ No new opportunities found (all available jobs either filtered out or conflict with schedule)\n');
     }
@@ -572,14 +735,8 @@ async function main() {
       console.log('');
 
       comparisonResult.conflicts.slice(0, 5).forEach((conflict, idx) => {
-        const availablePos =
-          conflict.available.position ||
-          conflict.available.positionType?.title ||
-          'N/A';
-        const scheduledPos =
-          conflict.scheduled.position ||
-          conflict.scheduled.positionType?.title ||
-          'N/A';
+        const availablePos = conflict.available.title;
+        const scheduledPos = conflict.scheduled.title;
         console.log(
           `   ${idx + 1}. Available: ${availablePos} vs Scheduled: ${scheduledPos}`
         );
@@ -628,6 +785,12 @@ async function main() {
     console.log(`   • Enabled: ${autoApplyConfig?.enabled ? '✅ Yes' : '❌ No'}`);
     console.log(`   • Auto-Apply: ${autoApplyConfig?.autoApplyOnMatches ? '✅ Auto' : '❌ Manual Review'}`);
     console.log(`   • Dry-Run Mode: ${autoApplyConfig?.dryRunMode ? '✅ Enabled (Preview)' : '❌ Disabled (Live)'}`);
+    if (autoApplyConfig?.maxApplicationsPerRun !== undefined) {
+      console.log(`   • Max Applications Per Run: ${autoApplyConfig.maxApplicationsPerRun}`);
+    }
+    if (autoApplyConfig?.minScore !== undefined) {
+      console.log(`   • Minimum Score: ${autoApplyConfig.minScore}`);
+    }
     console.log('');
 
     if (!autoApplyConfig?.enabled) {
@@ -637,7 +800,7 @@ async function main() {
         console.log('ℹ️  No new opportunities to apply to. Phase 4 complete.\n');
       } else {
         // Initialize Application Module
-        const applicationModule = new JobApplicationModule(config?.baseUrl || 'http://localhost:8080', axiosInstance);
+        const applicationModule = new JobApplicationModule(endpoints, httpClient);
 
         // Apply to opportunities
         console.log(`🎯 Found ${comparisonResult.newOpportunities.length} opportunity(ies) matching your preferences...\n`);
@@ -646,9 +809,13 @@ async function main() {
           // Auto-apply mode
           const applicationResult = await applicationModule.applyToJobs(
             comparisonResult.newOpportunities,
-            currentBearerToken,
             userId,
-            autoApplyConfig.dryRunMode
+            autoApplyConfig.dryRunMode,
+            {
+              scores: scorer ? comparisonResult.scores : undefined,
+              minScore: autoApplyConfig.minScore,
+              maxApplications: autoApplyConfig.maxApplicationsPerRun
+            }
           );
 
           console.log('\n' + applicationModule.getSummary(applicationResult));
@@ -668,10 +835,7 @@ async function main() {
           // Manual review mode - show what would be applied
           console.log('📋 Reviewing opportunities for manual approval:\n');
           comparisonResult.newOpportunities.slice(0, 5).forEach((job, idx) => {
-            const title = job.positionTitle || job.position || job.positionType?.title || 'Unknown';
-            const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-            const date = job.startDate || job.date || 'N/A';
-            console.log(`   ${idx + 1}. ${title} at ${building} (${date})`);
+            console.log(`   ${idx + 1}. ${job.title} at ${job.building?.title || 'N/A'} (${job.startDate || 'N/A'})`);
           });
 
           if (comparisonResult.newOpportunities.length > 5) {
@@ -685,6 +849,8 @@ async function main() {
 
     console.log('✨ Phase 4 Complete! Auto-apply analysis finished\n');
 
+    logHttpMetrics(httpClient);
+
     console.log('='.repeat(80));
     console.log('🚀 All Phases Complete!');
     console.log('='.repeat(80));
@@ -746,5 +912,86 @@ function initializeScheduler() {
   }
 }
 
-// Run the scheduler (which executes main periodically or once)
-initializeScheduler();
+/**
+ * Clear a login lockout left by repeated failed logins (operator action)
+ */
+function clearLoginLockout() {
+  const configManager = ConfigManager.getInstance();
+  configManager.loadConfig();
+
+  const authModule = new PuppeteerAuthModule();
+  if (!authModule.clearLoginLockout()) {
+    console.log('✓ No login failures recorded - nothing to clear');
+  }
+}
+
+/**
+ * Encrypt WILLSUB_USERNAME, WILLSUB_PASSWORD and WILLSUB_TOTP_SECRET into the credential vault
+ */
+function writeCredentialVault() {
+  const configManager = ConfigManager.getInstance();
+  configManager.loadConfig();
+  const providerConfig = configManager.get('authentication')?.credentialProvider;
+  const vaultFile = providerConfig?.vaultFile || './credentials.vault.json';
+
+  const username = process.env.WILLSUB_USERNAME;
+  const password = process.env.WILLSUB_PASSWORD;
+  if (!username || !password) {
+    console.error('❌ Set WILLSUB_USERNAME and WILLSUB_PASSWORD to write the credential vault');
+    process.exit(1);
+  }
+
+  try {
+    const key = VaultCredentialProvider.resolveKey(providerConfig?.vaultKeyFile);
+    VaultCredentialProvider.write(vaultFile, { username, password, totpSecret: process.env.WILLSUB_TOTP_SECRET }, key);
+    console.log(`🔐 Credential vault written to ${vaultFile}`);
+  } catch (error) {
+    console.error('❌ Failed to write credential vault:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the mock WillSub server until stopped (for end-to-end testing)
+ * - Port from WILLSUB_MOCK_PORT (default 4010); the login user from
+ *   WILLSUB_USERNAME / WILLSUB_PASSWORD when set
+ */
+async function runMockServer() {
+  const server = new MockWillSubServer({
+    port: parseInt(process.env.WILLSUB_MOCK_PORT || '4010', 10),
+    user: {
+      ...(process.env.WILLSUB_USERNAME ? { username: process.env.WILLSUB_USERNAME } : {}),
+      ...(process.env.WILLSUB_PASSWORD ? { password: process.env.WILLSUB_PASSWORD } : {})
+    }
+  });
+
+  try {
+    const baseUrl = await server.start();
+    const user = server.getUser();
+    console.log(`🧪 Mock WillSub server listening on ${baseUrl}`);
+    console.log(`   Login: ${user.username} / ${user.password} (userId ${user.userId})`);
+    console.log(`   Point the app at it: WILLSUB_BASE_URL=${baseUrl}`);
+    console.log(`   For the http login strategy: authentication.oidc = { "issuer": "${server.getIssuer()}", "clientId": "${server.getClientId()}" }`);
+    console.log(`   ${server.getAvailableJobs().length} available and ${server.getScheduledJobs().length} scheduled job(s) loaded - Ctrl+C to stop`);
+  } catch (error) {
+    console.error('❌ Failed to start mock server:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (process.argv.includes('--clear-login-lockout')) {
+  clearLoginLockout();
+} else if (process.argv.includes('--write-credential-vault')) {
+  writeCredentialVault();
+} else if (process.argv.includes('--mock-server')) {
+  runMockServer();
+} else {
+  // Run the scheduler (which executes main periodically or once)
+  initializeScheduler();
+}
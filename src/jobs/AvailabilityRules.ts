@@ -0,0 +1,204 @@
+import { JobSchedule, SubstituteJob } from './JobNormalizer';
+import SearchWindows from './SearchWindows';
+
+/**
+ * AvailabilityRules
+ * Checks jobs against weekly availability, e.g. "Mon/Wed/Fri 7:30-15:30, Tue half days only"
+ *
+ * How a job is checked:
+ * - Every schedule entry must fit a rule for its weekday, not just the first one
+ * - A rule fits when the entry starts at or after `from`, ends at or before `until`,
+ *   and (if the rule lists schedule types) has one of them
+ * - Days without a rule are unavailable
+ * - Entries without a date take each school day of the job (or its single day);
+ *   entries without times are only checked by day and schedule type
+ * - The first entry that breaks the rules is named in the reason
+ */
+
+export interface AvailabilityRule {
+  days: string[]; // e.g. ["monday", "wed", "fri"] or ["mon-fri"]
+  from?: string; // Earliest start, "HH:MM" (24h) or "7:30 AM"
+  until?: string; // Latest end
+  scheduleTypes?: string[]; // e.g. ["HALF_DAY"] - only these schedule types on these days
+}
+
+export interface ScheduleDay {
+  date: string; // YYYY-MM-DD
+  schedule: JobSchedule | null;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/;
+
+class AvailabilityRules {
+  /**
+   * Reason the job does not fit the rules, or null when every schedule entry fits
+   */
+  public static check(job: SubstituteJob, rules: AvailabilityRule[]): string | null {
+    for (const { date, schedule } of AvailabilityRules.scheduleDays(job)) {
+      const weekday = AvailabilityRules.weekday(date);
+      const label = AvailabilityRules.capitalize(weekday);
+      const dayRules = rules.filter(rule => AvailabilityRules.parseDays(rule.days).includes(weekday));
+      if (dayRules.length === 0) {
+        return `Not available on ${label}s (${date})`;
+      }
+
+      const violations = dayRules.map(rule => AvailabilityRules.violation(schedule, rule));
+      if (violations.every(violation => violation !== null)) {
+        return `${label} ${date}: ${violations[0]}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Problems in the configured rules (unknown days, unreadable times), for a startup warning
+   */
+  public static validate(rules: AvailabilityRule[]): string[] {
+    const problems: string[] = [];
+    rules.forEach((rule, index) => {
+      const days = Array.isArray(rule.days) ? rule.days : [];
+      if (days.length === 0) {
+        problems.push(`rule ${index + 1}: no days`);
+      }
+      for (const day of days) {
+        if (AvailabilityRules.parseDays([day]).length === 0) {
+          problems.push(`rule ${index + 1}: unknown day "${day}"`);
+        }
+      }
+      for (const time of [rule.from, rule.until]) {
+        if (time !== undefined && AvailabilityRules.parseTime(time) === null) {
+          problems.push(`rule ${index + 1}: unreadable time "${time}"`);
+        }
+      }
+    });
+    return problems;
+  }
+
+  /**
+   * Short description of a rule, e.g. "monday, wednesday 07:30-15:30 (HALF_DAY)"
+   */
+  public static describe(rule: AvailabilityRule): string {
+    const days = AvailabilityRules.parseDays(rule.days).join(', ') || 'no days';
+    const times = rule.from || rule.until ? ` ${rule.from || ''}-${rule.until || ''}` : ' any time';
+    const types = rule.scheduleTypes?.length ? ` (${rule.scheduleTypes.join(', ')})` : '';
+    return `${days}${times}${types}`;
+  }
+
+  /**
+   * Why an entry does not fit one rule, or null when it does
+   */
+  private static violation(schedule: JobSchedule | null, rule: AvailabilityRule): string | null {
+    const scheduleType = schedule?.scheduleType || '';
+    if (rule.scheduleTypes?.length && !rule.scheduleTypes.some(type => type.toUpperCase() === scheduleType.toUpperCase())) {
+      return `${scheduleType || 'unknown schedule type'} not allowed (only ${rule.scheduleTypes.join(', ')})`;
+    }
+
+    const start = AvailabilityRules.parseTime(schedule?.startTime || '');
+    const end = AvailabilityRules.parseTime(schedule?.endTime || '');
+    const from = rule.from !== undefined ? AvailabilityRules.parseTime(rule.from) : null;
+    const until = rule.until !== undefined ? AvailabilityRules.parseTime(rule.until) : null;
+    const hours = `${schedule?.startTime || '?'}-${schedule?.endTime || '?'}`;
+
+    if (from !== null && start !== null && start < from) {
+      return `starts ${hours}, before ${rule.from}`;
+    }
+    if (until !== null && end !== null && end > until) {
+      return `ends ${hours}, after ${rule.until}`;
+    }
+    return null;
+  }
+
+  /**
+   * Every day worked, with the schedule entry that covers it
+   */
+  public static scheduleDays(job: SubstituteJob): ScheduleDay[] {
+    const days: ScheduleDay[] = [];
+    const undated = job.schedules.filter(schedule => !schedule.date);
+
+    for (const schedule of job.schedules) {
+      if (schedule.date) {
+        days.push({ date: schedule.date.substring(0, 10), schedule });
+      }
+    }
+
+    if (undated.length > 0 || job.schedules.length === 0) {
+      for (const date of AvailabilityRules.jobDates(job)) {
+        if (undated.length === 0) {
+          days.push({ date, schedule: null });
+        }
+        for (const schedule of undated) {
+          days.push({ date, schedule });
+        }
+      }
+    }
+    return days;
+  }
+
+  /**
+   * School days from the job's start to end date (the start date alone for single-day jobs)
+   */
+  private static jobDates(job: SubstituteJob): string[] {
+    const start = job.startDate.substring(0, 10);
+    const end = (job.endDate || job.startDate).substring(0, 10);
+    if (!SearchWindows.isValidDate(start)) {
+      return [];
+    }
+    if (!SearchWindows.isValidDate(end) || end <= start) {
+      return [start];
+    }
+    const dates: string[] = [];
+    for (let date = start; date <= end && dates.length < 366; date = SearchWindows.addDays(date, 1)) {
+      if (SearchWindows.isSchoolDay(date)) {
+        dates.push(date);
+      }
+    }
+    return dates;
+  }
+
+  /**
+   * Weekday names for day names, 3-letter abbreviations and ranges like "mon-fri"
+   */
+  private static parseDays(days: string[] | undefined): string[] {
+    const result: string[] = [];
+    for (const entry of Array.isArray(days) ? days : []) {
+      const [first, last] = String(entry).toLowerCase().split('-').map(part => AvailabilityRules.dayIndex(part.trim()));
+      if (first === -1 || last === -1) continue;
+      for (let i = first, steps = 0; steps < 7; i = (i + 1) % 7, steps++) {
+        if (!result.includes(WEEKDAYS[i])) result.push(WEEKDAYS[i]);
+        if (last === undefined || i === last) break;
+      }
+    }
+    return result;
+  }
+
+  private static dayIndex(day: string): number {
+    return day.length >= 3 ? WEEKDAYS.findIndex(weekday => weekday.startsWith(day)) : -1;
+  }
+
+  /**
+   * Minutes after midnight for "HH:MM", "HH:MM:SS" or "h:MM AM/PM"; null when unreadable
+   */
+  public static parseTime(time: string): number | null {
+    const match = TIME_PATTERN.exec(time.trim());
+    if (!match) return null;
+    let hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+    }
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+  }
+
+  private static weekday(date: string): string {
+    return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  }
+
+  private static capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
+
+export default AvailabilityRules;
@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+import { SubstituteJob } from './JobNormalizer';
+import AvailabilityRules from './AvailabilityRules';
+import SearchWindows, { DEFAULT_TIME_ZONE } from './SearchWindows';
+
+/**
+ * BlackoutCalendar
+ * Busy periods (vacations, appointments, recurring commitments) that jobs must not overlap
+ *
+ * Sources:
+ * - Blackout ranges from config: whole days, or the same hours on each day of the range
+ * - A local iCalendar (.ics) file: VEVENTs with DTSTART/DTEND or DURATION, all-day events,
+ *   UTC / TZID / floating times, RRULE (DAILY, WEEKLY with BYDAY, MONTHLY, YEARLY;
+ *   INTERVAL, COUNT, UNTIL) and EXDATE. Cancelled and transparent (free) events are skipped,
+ *   and so are events whose TZID is not an IANA zone (e.g. Outlook's "Eastern Standard Time")
+ *
+ * How periods are compared:
+ * - Everything is converted to local wall time in the jobs time zone ("YYYY-MM-DDTHH:MM"),
+ *   which is how the API gives schedule times
+ * - Every schedule day of a job is checked; a day without times counts as the whole day
+ * - Recurring events are expanded from today up to a year ahead (from DTSTART when they
+ *   have a COUNT); moved occurrences (RECURRENCE-ID) are added as extra periods, so a
+ *   calendar blocks too much rather than too little
+ */
+
+export interface BusyPeriod {
+  name: string; // Event summary or configured name
+  start: string; // Local "YYYY-MM-DDTHH:MM", inclusive
+  end: string; // Local "YYYY-MM-DDTHH:MM", exclusive
+  source: 'config' | 'calendar';
+}
+
+export interface BlackoutRange {
+  name?: string; // e.g. "Spring vacation"
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive (default: startDate)
+  from?: string; // Only these hours on each day, e.g. "10:00"
+  until?: string; // e.g. "11:30"
+}
+
+export interface BlackoutImportResult {
+  success: boolean;
+  periods: BusyPeriod[];
+  problems: string[]; // Events or ranges that were skipped or only partly understood
+  message?: string;
+}
+
+interface IcsProperty {
+  params: { [name: string]: string };
+  value: string;
+}
+
+interface IcsEvent {
+  properties: { [name: string]: IcsProperty | undefined }; // First of each property
+  exdates: IcsProperty[]; // EXDATE may repeat
+}
+
+interface IcsTime {
+  local: string; // "YYYY-MM-DDTHH:MM" in the target time zone
+  allDay: boolean;
+}
+
+const HORIZON_DAYS = 366;
+const MAX_RECURRENCE_DAYS = 366 * 20;
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'WKST'];
+
+class BlackoutCalendar {
+  /**
+   * Reason the job overlaps a busy period, or null when it is clear
+   */
+  public static check(job: SubstituteJob, periods: BusyPeriod[]): string | null {
+    for (const { date, schedule } of AvailabilityRules.scheduleDays(job)) {
+      const startMinutes = AvailabilityRules.parseTime(schedule?.startTime || '');
+      const endMinutes = AvailabilityRules.parseTime(schedule?.endTime || '');
+      const timed = startMinutes !== null && endMinutes !== null && endMinutes > startMinutes;
+      const jobStart = timed ? `${date}T${BlackoutCalendar.clock(startMinutes!)}` : `${date}T00:00`;
+      const jobEnd = timed ? `${date}T${BlackoutCalendar.clock(endMinutes!)}` : `${SearchWindows.addDays(date, 1)}T00:00`;
+
+      const period = periods.find(busy => busy.start < jobEnd && busy.end > jobStart);
+      if (period) {
+        const day = timed ? `${date} ${schedule!.startTime}-${schedule!.endTime}` : date;
+        return `Blackout "${period.name}" (${BlackoutCalendar.describe(period)}) overlaps ${day}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Busy periods for the blackout ranges from config
+   */
+  public static fromRanges(ranges: BlackoutRange[]): BlackoutImportResult {
+    const periods: BusyPeriod[] = [];
+    const problems: string[] = [];
+
+    ranges.forEach((range, index) => {
+      const name = range.name || `Blackout ${index + 1}`;
+      const startDate = range.startDate;
+      const endDate = range.endDate || range.startDate;
+      if (!SearchWindows.isValidDate(startDate || '') || !SearchWindows.isValidDate(endDate || '') || endDate < startDate) {
+        problems.push(`"${name}": invalid dates ${startDate} to ${endDate}`);
+        return;
+      }
+
+      if (range.from === undefined && range.until === undefined) {
+        periods.push({ name, start: `${startDate}T00:00`, end: `${SearchWindows.addDays(endDate, 1)}T00:00`, source: 'config' });
+        return;
+      }
+
+      const from = AvailabilityRules.parseTime(range.from || '00:00');
+      const until = range.until !== undefined ? AvailabilityRules.parseTime(range.until) : 24 * 60;
+      if (from === null || until === null || until <= from) {
+        problems.push(`"${name}": invalid hours ${range.from || ''}-${range.until || ''}`);
+        return;
+      }
+      for (let date = startDate; date <= endDate; date = SearchWindows.addDays(date, 1)) {
+        const end = until === 24 * 60 ? `${SearchWindows.addDays(date, 1)}T00:00` : `${date}T${BlackoutCalendar.clock(until)}`;
+        periods.push({ name, start: `${date}T${BlackoutCalendar.clock(from)}`, end, source: 'config' });
+      }
+    });
+
+    return { success: problems.length === 0, periods, problems };
+  }
+
+  /**
+   * Read busy periods from a local .ics file
+   */
+  public static loadIcsFile(
+    filePath: string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+    now: Date = new Date()
+  ): BlackoutImportResult {
+    try {
+      const text = fs.readFileSync(filePath, 'utf-8');
+      const result = BlackoutCalendar.parseIcs(text, timeZone, now);
+      return { ...result, message: `Imported ${result.periods.length} busy period(s) from ${filePath}` };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, periods: [], problems: [], message: `Cannot read calendar ${filePath}: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Busy periods in an iCalendar document, from today up to a year ahead
+   */
+  public static parseIcs(text: string, timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): BlackoutImportResult {
+    const zone = SearchWindows.isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+    const today = SearchWindows.localDate(now, zone);
+    const horizon = `${SearchWindows.addDays(today, HORIZON_DAYS)}T00:00`;
+    const periods: BusyPeriod[] = [];
+    const problems: string[] = [];
+
+    for (const { properties: event, exdates } of BlackoutCalendar.parseEvents(text)) {
+      const name = BlackoutCalendar.unescape(event.SUMMARY?.value || '') || 'Busy';
+      if (event.STATUS?.value.toUpperCase() === 'CANCELLED' || event.TRANSP?.value.toUpperCase() === 'TRANSPARENT') {
+        continue;
+      }
+
+      const unknownZone = [event.DTSTART, event.DTEND]
+        .map(property => property && BlackoutCalendar.unknownZone(property))
+        .find(Boolean);
+      if (unknownZone) {
+        problems.push(`"${name}": unknown time zone "${unknownZone}", expected an IANA name such as America/Chicago`);
+        continue;
+      }
+
+      const start = event.DTSTART ? BlackoutCalendar.parseIcsTime(event.DTSTART, zone) : null;
+      if (!start) {
+        problems.push(`"${name}": missing or unreadable DTSTART`);
+        continue;
+      }
+
+      const end = event.DTEND ? BlackoutCalendar.parseIcsTime(event.DTEND, zone) : null;
+      const duration = event.DURATION ? BlackoutCalendar.parseDuration(event.DURATION.value) : null;
+      const length = end
+        ? BlackoutCalendar.toMinutes(end.local) - BlackoutCalendar.toMinutes(start.local)
+        : duration ?? (start.allDay ? 24 * 60 : 0);
+      if (length < 0) {
+        problems.push(`"${name}": ends before it starts`);
+        continue;
+      }
+
+      const starts = event.RRULE
+        ? BlackoutCalendar.expand(start, event.RRULE.value, exdates, zone, {
+          // Earliest start of an occurrence that still reaches into today
+          from: BlackoutCalendar.fromMinutes(BlackoutCalendar.toMinutes(`${today}T00:00`) - length).substring(0, 10),
+          horizon
+        }, name, problems)
+        : [start.local];
+      for (const occurrence of starts) {
+        const occurrenceEnd = BlackoutCalendar.fromMinutes(BlackoutCalendar.toMinutes(occurrence) + length);
+        if (occurrenceEnd > `${today}T00:00` && occurrence < horizon) {
+          periods.push({ name, start: occurrence, end: occurrenceEnd, source: 'calendar' });
+        }
+      }
+    }
+
+    periods.sort((a, b) => a.start.localeCompare(b.start));
+    return { success: problems.length === 0, periods, problems };
+  }
+
+  /**
+   * Short description of a period, e.g. "2024-03-05 10:00-11:00" or "2024-03-04 to 2024-03-08"
+   */
+  public static describe(period: BusyPeriod): string {
+    const [startDate, startTime] = period.start.split('T');
+    const [endDate, endTime] = period.end.split('T');
+    if (startTime === '00:00' && endTime === '00:00') {
+      const lastDay = SearchWindows.addDays(endDate, -1);
+      return lastDay <= startDate ? startDate : `${startDate} to ${lastDay}`;
+    }
+    return startDate === endDate ? `${startDate} ${startTime}-${endTime}` : `${startDate} ${startTime} to ${endDate} ${endTime}`;
+  }
+
+  /**
+   * Occurrence start times of a recurring event, from the window start up to the horizon
+   * - With a COUNT, occurrences are counted from DTSTART, so the expansion starts there
+   * - Occurrences before the window start may be included
+   */
+  private static expand(
+    start: IcsTime,
+    rrule: string,
+    exdates: IcsProperty[],
+    timeZone: string,
+    window: { from: string; horizon: string },
+    name: string,
+    problems: string[]
+  ): string[] {
+    const horizon = window.horizon;
+    const rule: { [part: string]: string } = {};
+    for (const part of rrule.split(';')) {
+      const [key, value] = part.split('=');
+      if (key && value !== undefined) rule[key.toUpperCase()] = value.toUpperCase();
+    }
+
+    const freq = rule.FREQ;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+      problems.push(`"${name}": unsupported recurrence ${rrule}, using the first occurrence only`);
+      return [start.local];
+    }
+    const unsupported = Object.keys(rule).filter(key => !SUPPORTED_RRULE_PARTS.includes(key) || (key === 'BYDAY' && freq !== 'WEEKLY'));
+    if (unsupported.length > 0) {
+      problems.push(`"${name}": ignoring ${unsupported.join(', ')} in recurrence`);
+    }
+
+    const interval = Math.max(1, parseInt(rule.INTERVAL || '1', 10) || 1);
+    const count = rule.COUNT ? parseInt(rule.COUNT, 10) : Infinity;
+    const untilTime = rule.UNTIL ? BlackoutCalendar.parseIcsTime({ params: {}, value: rule.UNTIL }, timeZone) : null;
+    const until = untilTime ? (untilTime.allDay ? `${untilTime.local.substring(0, 10)}T23:59` : untilTime.local) : horizon;
+    const byDay = freq === 'WEEKLY' && rule.BYDAY
+      ? rule.BYDAY.split(',').map(day => ICS_WEEKDAYS.indexOf(day.trim().slice(-2))).filter(day => day !== -1)
+      : [];
+
+    const excluded = new Set<string>();
+    for (const exdate of exdates) {
+      const unknownZone = BlackoutCalendar.unknownZone(exdate);
+      if (unknownZone) {
+        problems.push(`"${name}": ignoring EXDATE in unknown time zone "${unknownZone}"`);
+        continue;
+      }
+      for (const value of exdate.value.split(',')) {
+        const time = BlackoutCalendar.parseIcsTime({ params: exdate.params, value }, timeZone);
+        if (time) excluded.add(time.allDay ? time.local.substring(0, 10) : time.local);
+      }
+    }
+
+    const [firstDate, clockTime] = start.local.split('T');
+    const first = new Date(`${firstDate}T00:00:00Z`);
+    const weekStart = BlackoutCalendar.toMinutes(`${firstDate}T00:00`) / (24 * 60) - ((first.getUTCDay() + 6) % 7);
+    const occurrences: string[] = [];
+    let found = 0;
+
+    // Nothing to count without a COUNT: jump to the window instead of walking from DTSTART
+    const skipDays = count === Infinity
+      ? Math.max(0, (BlackoutCalendar.toMinutes(`${window.from}T00:00`) - BlackoutCalendar.toMinutes(`${firstDate}T00:00`)) / (24 * 60))
+      : 0;
+
+    for (let offset = skipDays; offset < skipDays + MAX_RECURRENCE_DAYS && found < count; offset++) {
+      const date = SearchWindows.addDays(firstDate, offset);
+      const occurrence = `${date}T${clockTime}`;
+      if (occurrence > until || occurrence >= horizon) break;
+
+      const day = new Date(`${date}T00:00:00Z`);
+      let matches: boolean;
+      switch (freq) {
+        case 'DAILY':
+          matches = offset % interval === 0;
+          break;
+        case 'WEEKLY': {
+          const week = Math.floor((BlackoutCalendar.toMinutes(`${date}T00:00`) / (24 * 60) - weekStart) / 7);
+          const days = byDay.length > 0 ? byDay : [first.getUTCDay()];
+          matches = week % interval === 0 && days.includes(day.getUTCDay());
+          break;
+        }
+        case 'MONTHLY': {
+          const months = (day.getUTCFullYear() - first.getUTCFullYear()) * 12 + day.getUTCMonth() - first.getUTCMonth();
+          matches = day.getUTCDate() === first.getUTCDate() && months % interval === 0;
+          break;
+        }
+        default: {
+          const years = day.getUTCFullYear() - first.getUTCFullYear();
+          matches = day.getUTCMonth() === first.getUTCMonth() && day.getUTCDate() === first.getUTCDate() && years % interval === 0;
+        }
+      }
+      if (!matches) continue;
+
+      found++;
+      if (!excluded.has(occurrence) && !excluded.has(date)) {
+        occurrences.push(occurrence);
+      }
+    }
+    return occurrences;
+  }
+
+  /**
+   * VEVENT blocks with their properties (folded lines joined)
+   */
+  private static parseEvents(text: string): IcsEvent[] {
+    const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+    const events: IcsEvent[] = [];
+    let current: IcsEvent | null = null;
+
+    for (const line of lines) {
+      const upper = line.trim().toUpperCase();
+      if (upper === 'BEGIN:VEVENT') {
+        current = { properties: {}, exdates: [] };
+        continue;
+      }
+      if (upper === 'END:VEVENT') {
+        if (current) events.push(current);
+        current = null;
+        continue;
+      }
+      if (!current) continue;
+
+      const colon = line.indexOf(':');
+      if (colon === -1) continue;
+      const [name, ...paramParts] = line.substring(0, colon).split(';');
+      const params: { [name: string]: string } = {};
+      for (const param of paramParts) {
+        const [key, value] = param.split('=');
+        if (key && value !== undefined) params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+      }
+      const property: IcsProperty = { params, value: line.substring(colon + 1).trim() };
+      const key = name.toUpperCase();
+      if (key === 'EXDATE') {
+        current.exdates.push(property);
+      } else if (!(key in current.properties)) {
+        current.properties[key] = property;
+      }
+    }
+    return events;
+  }
+
+  /**
+   * TZID of a property when it is not a known IANA time zone, otherwise null
+   */
+  private static unknownZone(property: IcsProperty): string | null {
+    const zone = property.params.TZID;
+    return zone && !SearchWindows.isValidTimeZone(zone) ? zone : null;
+  }
+
+  /**
+   * DATE or DATE-TIME value in local wall time of the target time zone
+   * - "Z" suffix: UTC; TZID parameter: that zone; neither: floating (already local)
+   * - null when unreadable, including an unknown TZID (see unknownZone)
+   */
+  private static parseIcsTime(property: IcsProperty, timeZone: string): IcsTime | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+    if (!match) return null;
+    const [, year, month, day, hours, minutes, , utc] = match;
+    const date = `${year}-${month}-${day}`;
+    if (!SearchWindows.isValidDate(date)) return null;
+    if (hours === undefined) {
+      return { local: `${date}T00:00`, allDay: true };
+    }
+
+    const wall = `${date}T${hours}:${minutes}`;
+    const sourceZone = utc ? 'UTC' : property.params.TZID;
+    if (!sourceZone || sourceZone === timeZone) {
+      return { local: wall, allDay: false };
+    }
+    if (!SearchWindows.isValidTimeZone(sourceZone)) {
+      return null;
+    }
+
+    // Wall time in the source zone -> instant -> wall time in the target zone
+    return { local: SearchWindows.wallTime(SearchWindows.toInstant(wall, sourceZone), timeZone), allDay: false };
+  }
+
+  /**
+   * Minutes in an ISO 8601 duration such as "PT1H30M" or "P1D"; null when unreadable
+   */
+  private static parseDuration(value: string): number | null {
+    const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const [, weeks, days, hours, minutes] = match.map(part => Number(part || 0));
+    return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+  }
+
+  private static unescape(text: string): string {
+    return text.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+  }
+
+  private static toMinutes(local: string): number {
+    return Date.parse(`${local}:00Z`) / 60000;
+  }
+
+  private static fromMinutes(minutes: number): string {
+    return new Date(minutes * 60000).toISOString().substring(0, 16);
+  }
+
+  private static clock(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+}
+
+export default BlackoutCalendar;
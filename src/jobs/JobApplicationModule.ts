@@ -4,21 +4,36 @@
  * 
  * Features:
  * - Apply to single or multiple jobs
+ * - Best-scored jobs first, with an optional top-N limit and minimum score
  * - Dry-run mode (preview without applying)
  * - Application tracking
  * - Success/failure reporting
+ * - The HTTP client adds the bearer token; a token expiring mid-batch is
+ *   refreshed and the accept replayed by AuthInterceptor
+ * - Accept requests are never retried on upstream errors (see ResilientHttpClient)
  */
 
-import axios, { AxiosInstance } from 'axios';
+import { HttpRequester } from '../http/ResilientHttpClient';
+import EndpointRegistry from '../http/EndpointRegistry';
+import { SubstituteJob } from './JobNormalizer';
+import { JobScore } from './JobScorer';
 
 export interface ApplicationResult {
-  jobId: number;
+  jobId: string;
   jobTitle: string;
   status: 'success' | 'failed' | 'skipped';
   message?: string;
+  statusCode?: number; // HTTP status of the accept request, when one was sent
+  score?: number; // JobScorer score, when the batch was ranked
   timestamp?: Date;
 }
 
+export interface ApplicationLimits {
+  scores?: JobScore[]; // Apply in score order (highest first); needed for minScore
+  minScore?: number; // Skip jobs scoring below this (0-100)
+  maxApplications?: number; // Take at most this many jobs (dry-run picks count; failed accepts do not)
+}
+
 export interface BatchApplicationResult {
   totalRequested: number;
   successful: number;
@@ -30,26 +45,25 @@ export interface BatchApplicationResult {
 }
 
 class JobApplicationModule {
-  private baseUrl: string;
-  private axiosInstance: AxiosInstance;
+  private endpoints: EndpointRegistry;
+  private httpClient: HttpRequester;
 
-  constructor(baseUrl: string, axiosInstance: AxiosInstance) {
-    this.baseUrl = baseUrl;
-    this.axiosInstance = axiosInstance;
+  constructor(endpoints: EndpointRegistry, httpClient: HttpRequester) {
+    this.endpoints = endpoints;
+    this.httpClient = httpClient;
   }
 
   /**
    * Apply to a single job
    */
   public async applyToJob(
-    job: any,
-    bearerToken: string,
+    job: SubstituteJob,
     userId: string,
     dryRunMode: boolean = true
   ): Promise<ApplicationResult> {
     const jobId = job.id;
-    const jobTitle = job.position || job.positionType?.title || 'Unknown';
-    const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
+    const jobTitle = job.title;
+    const building = job.building?.title || 'N/A';
 
     if (dryRunMode) {
       return {
@@ -64,12 +78,11 @@ class JobApplicationModule {
       console.log(`   📝 Accepting ${jobTitle} at ${building}...`);
       console.log(`   🔍 Job ID: ${jobId}, User ID: ${userId}`);
 
-      const response = await this.axiosInstance.post(
-        `${this.baseUrl}/api/substitute-jobs/${jobId}/accept`,
+      const response = await this.httpClient.post(
+        this.endpoints.url('acceptJob', { jobId }),
         { userId: Number(userId) },
         {
           headers: {
-            'Authorization': `Bearer ${bearerToken}`,
             'Accept': 'application/json',
             'Content-Type': 'application/json'
           },
@@ -85,6 +98,7 @@ class JobApplicationModule {
           jobTitle,
           status: 'success',
           message: `Successfully accepted ${jobTitle} at ${building}`,
+          statusCode: response.status,
           timestamp: new Date()
         };
       } else if (response.status === 400) {
@@ -93,21 +107,24 @@ class JobApplicationModule {
           jobId,
           jobTitle,
           status: 'failed',
-          message: `Cannot accept job: ${errorMsg}`
+          message: `Cannot accept job: ${errorMsg}`,
+          statusCode: response.status
         };
       } else if (response.status === 409) {
         return {
           jobId,
           jobTitle,
           status: 'failed',
-          message: `Already accepted or job no longer available (${response.status})`
+          message: `Already accepted or job no longer available (${response.status})`,
+          statusCode: response.status
         };
       } else {
         return {
           jobId,
           jobTitle,
           status: 'failed',
-          message: `API error: ${response.status}`
+          message: `API error: ${response.status}`,
+          statusCode: response.status
         };
       }
     } catch (error) {
@@ -123,17 +140,25 @@ class JobApplicationModule {
 
   /**
    * Apply to multiple jobs in batch
+   * - With limits.scores, the best-scored jobs are tried first; jobs below
+   *   minScore or past maxApplications are reported as skipped
    */
   public async applyToJobs(
-    jobs: any[],
-    bearerToken: string,
+    jobs: SubstituteJob[],
     userId: string,
-    dryRunMode: boolean = true
+    dryRunMode: boolean = true,
+    limits: ApplicationLimits = {}
   ): Promise<BatchApplicationResult> {
     const results: ApplicationResult[] = [];
     let successful = 0;
     let failed = 0;
     let skipped = 0;
+    let taken = 0;
+
+    const scoreById = new Map((limits.scores || []).map(entry => [entry.job.id, entry.score]));
+    const ordered = limits.scores
+      ? [...jobs].sort((a, b) => (scoreById.get(b.id) ?? -Infinity) - (scoreById.get(a.id) ?? -Infinity))
+      : jobs;
 
     console.log(`\n📋 Processing ${jobs.length} job application(s)...`);
     if (dryRunMode) {
@@ -142,8 +167,32 @@ class JobApplicationModule {
       console.log('   (LIVE MODE - Applications will be submitted)\n');
     }
 
-    for (const job of jobs) {
-      const result = await this.applyToJob(job, bearerToken, userId, dryRunMode);
+    for (const job of ordered) {
+      const score = scoreById.get(job.id);
+      let result: ApplicationResult;
+      if (limits.minScore !== undefined && (score === undefined || score < limits.minScore)) {
+        result = {
+          jobId: job.id,
+          jobTitle: job.title,
+          status: 'skipped',
+          message: `${job.title}: score ${score ?? 'n/a'} is below the minimum of ${limits.minScore}`
+        };
+      } else if (limits.maxApplications !== undefined && taken >= limits.maxApplications) {
+        result = {
+          jobId: job.id,
+          jobTitle: job.title,
+          status: 'skipped',
+          message: `${job.title}: limit of ${limits.maxApplications} application(s) per run reached`
+        };
+      } else {
+        result = await this.applyToJob(job, userId, dryRunMode);
+        if (result.status !== 'failed') {
+          taken++;
+        }
+      }
+      if (score !== undefined) {
+        result.score = score;
+      }
       results.push(result);
 
       if (result.status === 'success') {
@@ -3,20 +3,24 @@
  * Compares scheduled jobs vs available jobs
  * 
  * Provides:
- * - New opportunities (available jobs not in schedule)
- * - Conflicts (overlapping dates/buildings)
+ * - New opportunities (available jobs not in schedule), best score first when a JobScorer is given
+ * - Conflicts (overlapping dates/buildings; exact schedule days when both jobs list them)
  * - Match recommendations
  * - Gap analysis
  */
 
+import { SubstituteJob } from './JobNormalizer';
+import JobScorer, { JobScore } from './JobScorer';
+
 export interface ComparisonResult {
-  newOpportunities: any[];
+  newOpportunities: SubstituteJob[];
   conflicts: Array<{
-    available: any;
-    scheduled: any;
+    available: SubstituteJob;
+    scheduled: SubstituteJob;
     reason: string;
   }>;
   recommendations: string[];
+  scores: JobScore[]; // Scores of the new opportunities, highest first (empty without a scorer)
   summary: {
     totalScheduled: number;
     totalAvailable: number;
@@ -25,7 +29,16 @@ export interface ComparisonResult {
   };
 }
 
+// Opportunities at or above this score are called out in the recommendations
+const HIGH_SCORE = 70;
+
 class JobComparisonModule {
+  private scorer: JobScorer | null;
+
+  constructor(scorer?: JobScorer) {
+    this.scorer = scorer || null;
+  }
+
   /**
    * Parse date string to Date object
    */
@@ -53,35 +66,56 @@ class JobComparisonModule {
   /**
    * Get building ID from job
    */
-  private getBuildingId(job: any): number | null {
-    return job.schedules?.[0]?.building?.id || null;
+  private getBuildingId(job: SubstituteJob): number | null {
+    return job.building?.id || null;
   }
 
   /**
    * Get date range from job
    */
-  private getDateRange(job: any): { start: Date; end: Date } | null {
-    const startStr = job.startDate || job.date;
-    const endStr = job.endDate || job.date;
-
-    const start = this.parseDate(startStr);
-    const end = this.parseDate(endStr);
+  private getDateRange(job: SubstituteJob): { start: Date; end: Date } | null {
+    const start = this.parseDate(job.startDate);
+    const end = this.parseDate(job.endDate);
 
     if (!start || !end) return null;
     return { start, end };
   }
 
+  /**
+   * Get the exact schedule days of a job (YYYY-MM-DD)
+   * - null unless the job was loaded with fetchJobDetails and every schedule has a date;
+   *   list responses may carry only some of the days
+   */
+  private getScheduleDates(job: SubstituteJob): Set<string> | null {
+    if (!job.details || job.schedules.length === 0 || job.schedules.some(schedule => !schedule.date)) {
+      return null;
+    }
+    return new Set(job.schedules.map(schedule => (schedule.date as string).substring(0, 10)));
+  }
+
+  /**
+   * Check whether two jobs that overlap by date range really share a day
+   * - A Mon/Wed job and a Tue/Thu job in the same week do not conflict
+   * - Without details on both jobs, the date-range overlap decides
+   */
+  private sharesScheduleDay(a: SubstituteJob, b: SubstituteJob): boolean {
+    const aDates = this.getScheduleDates(a);
+    const bDates = this.getScheduleDates(b);
+    if (!aDates || !bDates) return true;
+    return [...aDates].some(date => bDates.has(date));
+  }
+
   /**
    * Compare scheduled jobs with available jobs
    */
   public compare(
-    scheduledJobs: any[],
-    availableJobs: any[]
+    scheduledJobs: SubstituteJob[],
+    availableJobs: SubstituteJob[]
   ): ComparisonResult {
-    const newOpportunities: any[] = [];
+    const newOpportunities: SubstituteJob[] = [];
     const conflicts: Array<{
-      available: any;
-      scheduled: any;
+      available: SubstituteJob;
+      scheduled: SubstituteJob;
       reason: string;
     }> = [];
     const recommendations: string[] = [];
@@ -109,9 +143,10 @@ class JobComparisonModule {
             availableDateRange.end,
             scheduledDateRange.start,
             scheduledDateRange.end
-          )
+          ) &&
+          this.sharesScheduleDay(available, scheduled)
         ) {
-          const buildingName = scheduled.schedules?.[0]?.building?.name || "Unknown";
+          const buildingName = scheduled.building?.title || "Unknown";
           const reason =
             availableBuilding === scheduledBuilding
               ? `Same building (${buildingName}) on overlapping dates: ${scheduledDateRange.start.toLocaleDateString()} to ${scheduledDateRange.end.toLocaleDateString()}`
@@ -133,10 +168,17 @@ class JobComparisonModule {
       }
     }
 
+    // Rank new opportunities by score
+    const scores = this.scorer ? this.scorer.rank(newOpportunities) : [];
+    if (this.scorer) {
+      newOpportunities.splice(0, newOpportunities.length, ...scores.map(score => score.job));
+    }
+
     // Generate recommendations
     this.generateRecommendations(
       scheduledJobs,
       newOpportunities,
+      scores,
       recommendations
     );
 
@@ -144,6 +186,7 @@ class JobComparisonModule {
       newOpportunities,
       conflicts,
       recommendations,
+      scores,
       summary: {
         totalScheduled: scheduledJobs.length,
         totalAvailable: availableJobs.length,
@@ -157,8 +200,9 @@ class JobComparisonModule {
    * Generate smart recommendations
    */
   private generateRecommendations(
-    scheduledJobs: any[],
-    newOpportunities: any[],
+    scheduledJobs: SubstituteJob[],
+    newOpportunities: SubstituteJob[],
+    scores: JobScore[],
     recommendations: string[]
   ): void {
     if (newOpportunities.length === 0) {
@@ -166,27 +210,25 @@ class JobComparisonModule {
       return;
     }
 
-    // Identify high-priority opportunities
-    const highPriorityCount = newOpportunities.filter((job) => {
-      const positionType = job.positionType?.title || "";
-      const position = job.position || "";
-      return (
-        positionType.toLowerCase().includes("teacher") ||
-        position.toLowerCase().includes("math") ||
-        position.toLowerCase().includes("science")
-      );
-    }).length;
-
-    if (highPriorityCount > 0) {
+    // Identify high-scoring opportunities (only when scoring is configured)
+    if (scores.length > 0) {
+      const top = scores[0];
       recommendations.push(
-        `🌟 ${highPriorityCount} high-priority Teacher/Math/Science position(s) available`
+        `🏆 Top pick: ${top.job.title} at ${top.job.building?.title || "N/A"} (score ${top.score})`
       );
+
+      const highScoreCount = scores.filter((score) => score.score >= HIGH_SCORE).length;
+      if (highScoreCount > 0) {
+        recommendations.push(
+          `🌟 ${highScoreCount} high-scoring opportunity(ies) (score ${HIGH_SCORE}+)`
+        );
+      }
     }
 
     // Identify long-term vs short-term
     const longTermCount = newOpportunities.filter((job) => {
-      const start = this.parseDate(job.startDate || job.date);
-      const end = this.parseDate(job.endDate || job.date);
+      const start = this.parseDate(job.startDate);
+      const end = this.parseDate(job.endDate);
       if (!start || !end) return false;
       const duration = Math.ceil(
         (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)
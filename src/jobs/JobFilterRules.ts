@@ -0,0 +1,428 @@
+import JobNormalizer, { SubstituteJob } from './JobNormalizer';
+import AvailabilityRules, { ScheduleDay } from './AvailabilityRules';
+
+/**
+ * JobFilterRules
+ * Boolean rule expressions over typed job fields, for filters the fixed preference lists
+ * cannot express, e.g. "Teacher at building 1674 OR any FULL_DAY at 1709, but never Para":
+ *
+ *   { "all": [
+ *     { "not": { "field": "positionType", "contains": "Para" } },
+ *     { "any": [
+ *       { "all": [{ "field": "positionType", "contains": "Teacher" }, { "field": "buildingId", "equals": 1674 }] },
+ *       { "all": [{ "field": "scheduleType", "equals": "FULL_DAY" }, { "field": "buildingId", "equals": 1709 }] }
+ *     ] }
+ *   ] }
+ *
+ * Semantics:
+ * - all / any / not groups nest freely; an empty all matches, an empty any does not
+ * - A condition has one field and one operator: equals, in, contains, matches (regex),
+ *   gt / gte / lt / lte (numbers, dates YYYY-MM-DD, times HH:MM)
+ * - Text comparisons ignore case; regexes are case-insensitive
+ * - Fields with one value per schedule day (building, buildingId, scheduleType, weekday,
+ *   startTime, endTime) are checked per schedule entry: an all that uses them must hold on
+ *   one and the same entry, and everything nested in it (except not) sees only that entry.
+ *   A lone condition matches when any day matches
+ * - not always looks at the whole job, so "not buildingId = 1709" means "on no day"
+ * - A field without a value (e.g. lessonPlan before details are loaded) matches nothing
+ * - The evaluation trace lists the clauses that decided the outcome, with the values seen
+ */
+
+export type RuleField =
+  | 'title'
+  | 'positionType'
+  | 'building'
+  | 'buildingId'
+  | 'scheduleType'
+  | 'weekday'
+  | 'startDate'
+  | 'endDate'
+  | 'startTime'
+  | 'endTime'
+  | 'days'
+  | 'longTerm'
+  | 'lessonPlan'
+  | 'status'
+  | 'absentEmployee';
+
+export type RuleValue = string | number | boolean;
+
+export interface RuleCondition {
+  field: RuleField;
+  equals?: RuleValue;
+  in?: RuleValue[];
+  contains?: string;
+  matches?: string; // Regular expression
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  label?: string; // Name shown in the trace instead of the condition
+}
+
+export type FilterRule =
+  | { all: FilterRule[]; label?: string }
+  | { any: FilterRule[]; label?: string }
+  | { not: FilterRule; label?: string }
+  | RuleCondition;
+
+export interface RuleEvaluation {
+  matched: boolean;
+  reason: string; // The clause that decided the outcome
+  trace: string[]; // Deciding clauses, indented by nesting level
+}
+
+type FieldType = 'text' | 'number' | 'date' | 'time' | 'boolean';
+
+const FIELD_TYPES: { [field in RuleField]: FieldType } = {
+  title: 'text',
+  positionType: 'text',
+  building: 'text',
+  buildingId: 'number',
+  scheduleType: 'text',
+  weekday: 'text',
+  startDate: 'date',
+  endDate: 'date',
+  startTime: 'time',
+  endTime: 'time',
+  days: 'number',
+  longTerm: 'boolean',
+  lessonPlan: 'boolean',
+  status: 'text',
+  absentEmployee: 'text'
+};
+
+const OPERATORS = ['equals', 'in', 'contains', 'matches', 'gt', 'gte', 'lt', 'lte'] as const;
+type Operator = typeof OPERATORS[number];
+
+const OPERATOR_SYMBOLS: { [operator in Operator]: string } = {
+  equals: '=',
+  in: 'in',
+  contains: 'contains',
+  matches: 'matches',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+};
+
+const PER_SCHEDULE_FIELDS: RuleField[] = ['building', 'buildingId', 'scheduleType', 'weekday', 'startTime', 'endTime'];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const INDENT = '  ';
+
+class JobFilterRules {
+  /**
+   * Evaluate a rule against a job
+   */
+  public static evaluate(rule: FilterRule, job: SubstituteJob): RuleEvaluation {
+    return JobFilterRules.evaluateRule(rule, job);
+  }
+
+  /**
+   * Problems in a rule (unknown fields or operators, bad regexes, wrong value types)
+   */
+  public static validate(rule: FilterRule, path: string = 'rule'): string[] {
+    if (!rule || typeof rule !== 'object') {
+      return [`${path}: not an object`];
+    }
+    if ('all' in rule) {
+      return JobFilterRules.validateChildren(rule.all, `${path}.all`);
+    }
+    if ('any' in rule) {
+      return JobFilterRules.validateChildren(rule.any, `${path}.any`);
+    }
+    if ('not' in rule) {
+      return JobFilterRules.validate(rule.not, `${path}.not`);
+    }
+
+    const condition = rule as RuleCondition;
+    const type = FIELD_TYPES[condition.field];
+    if (!type) {
+      return [`${path}: unknown field "${condition.field}"`];
+    }
+    const operators = OPERATORS.filter(operator => condition[operator] !== undefined);
+    if (operators.length !== 1) {
+      return [`${path}: needs exactly one of ${OPERATORS.join(', ')}`];
+    }
+
+    const operator = operators[0];
+    const operand = condition[operator];
+    if (operator === 'in' && !Array.isArray(operand)) {
+      return [`${path}: "in" needs a list`];
+    }
+    if (operator === 'matches') {
+      try {
+        new RegExp(String(operand), 'i');
+      } catch {
+        return [`${path}: invalid regex ${operand}`];
+      }
+    }
+    if (['gt', 'gte', 'lt', 'lte'].includes(operator)) {
+      if (type === 'text' || type === 'boolean') {
+        return [`${path}: ${operator} does not apply to ${type} field "${condition.field}"`];
+      }
+      if (JobFilterRules.toComparable(operand as RuleValue, type) === null) {
+        return [`${path}: ${JSON.stringify(operand)} is not a ${type}`];
+      }
+    }
+    return [];
+  }
+
+  private static validateChildren(children: FilterRule[], path: string): string[] {
+    if (!Array.isArray(children)) {
+      return [`${path}: must be a list`];
+    }
+    return children.flatMap((child, index) => JobFilterRules.validate(child, `${path}[${index}]`));
+  }
+
+  /**
+   * One-line form of a rule, e.g. "all(not(positionType contains Para), buildingId = 1674)"
+   */
+  public static describe(rule: FilterRule): string {
+    if (rule.label) return rule.label;
+    if ('all' in rule) return `all(${rule.all.map(child => JobFilterRules.describe(child)).join(', ')})`;
+    if ('any' in rule) return `any(${rule.any.map(child => JobFilterRules.describe(child)).join(', ')})`;
+    if ('not' in rule) return `not(${JobFilterRules.describe(rule.not)})`;
+
+    const operator = OPERATORS.find(candidate => rule[candidate] !== undefined);
+    if (!operator) return `${rule.field} (no operator)`;
+    const operand = rule[operator];
+    const shown = operator === 'in' && Array.isArray(operand)
+      ? `[${operand.join(', ')}]`
+      : operator === 'matches' ? `/${operand}/` : String(operand);
+    return `${rule.field} ${OPERATOR_SYMBOLS[operator]} ${shown}`;
+  }
+
+  /**
+   * Evaluate a rule, within one schedule entry when one is given
+   */
+  private static evaluateRule(rule: FilterRule, job: SubstituteJob, entry?: ScheduleDay): RuleEvaluation {
+    if ('all' in rule) {
+      if (entry === undefined && JobFilterRules.usesSchedule(rule)) {
+        const entries = AvailabilityRules.scheduleDays(job);
+        if (entries.length > 0) {
+          return JobFilterRules.evaluatePerEntry(rule, job, entries);
+        }
+      }
+      return JobFilterRules.evaluateGroup(rule, 'all', rule.all, job, entry);
+    }
+
+    if ('any' in rule) {
+      return JobFilterRules.evaluateGroup(rule, 'any', rule.any, job, entry);
+    }
+
+    if ('not' in rule) {
+      const result = JobFilterRules.evaluateRule(rule.not, job);
+      return JobFilterRules.group(rule, 'not', !result.matched, [result], `not ${result.reason}`);
+    }
+
+    return JobFilterRules.evaluateCondition(rule, job, entry);
+  }
+
+  /**
+   * An all over per-schedule fields: matches when one schedule entry meets every clause
+   */
+  private static evaluatePerEntry(rule: { all: FilterRule[]; label?: string }, job: SubstituteJob, entries: ScheduleDay[]): RuleEvaluation {
+    const results = entries.map(entry => JobFilterRules.evaluateGroup(rule, 'all', rule.all, job, entry, `on ${entry.date}`));
+    const match = results.find(result => result.matched);
+    if (match) {
+      return match;
+    }
+
+    // Every entry failed the same way (e.g. on a job-level clause): show it once
+    if (new Set(results.map(result => result.reason)).size === 1) {
+      return JobFilterRules.evaluateGroup(rule, 'all', rule.all, job, entries[0]);
+    }
+    return JobFilterRules.group(rule, 'all', false, results, `no single schedule day matches ${JobFilterRules.describe(rule)}`, 'no single schedule day');
+  }
+
+  private static evaluateGroup(
+    rule: FilterRule,
+    kind: 'all' | 'any',
+    children: FilterRule[],
+    job: SubstituteJob,
+    entry?: ScheduleDay,
+    note?: string
+  ): RuleEvaluation {
+    const results: RuleEvaluation[] = [];
+    for (const child of children || []) {
+      const result = JobFilterRules.evaluateRule(child, job, entry);
+      if (result.matched === (kind === 'any')) {
+        // The first failing child of all, or the first matching child of any, decides
+        return JobFilterRules.group(rule, kind, result.matched, [result], result.reason, note);
+      }
+      results.push(result);
+    }
+    return JobFilterRules.group(rule, kind, kind === 'all', results, JobFilterRules.describe(rule), note);
+  }
+
+  /**
+   * Whether an all / any uses per-schedule fields outside a not
+   */
+  private static usesSchedule(rule: FilterRule): boolean {
+    if ('all' in rule) return (rule.all || []).some(child => JobFilterRules.usesSchedule(child));
+    if ('any' in rule) return (rule.any || []).some(child => JobFilterRules.usesSchedule(child));
+    if ('not' in rule) return false;
+    return PER_SCHEDULE_FIELDS.includes(rule.field);
+  }
+
+  /**
+   * Result of a group: its own trace line, then the deciding children's traces indented
+   */
+  private static group(
+    rule: FilterRule,
+    kind: 'all' | 'any' | 'not',
+    matched: boolean,
+    deciding: RuleEvaluation[],
+    reason: string,
+    note?: string
+  ): RuleEvaluation {
+    const heading = `${rule.label ? `${kind} "${rule.label}"` : kind}${note ? ` (${note})` : ''}`;
+    const trace = [`${matched ? '✓' : '✗'} ${heading}`, ...deciding.flatMap(result => result.trace.map(line => INDENT + line))];
+    return { matched, reason: rule.label && rule.label !== reason ? `${rule.label}: ${reason}` : reason, trace };
+  }
+
+  private static evaluateCondition(condition: RuleCondition, job: SubstituteJob, entry?: ScheduleDay): RuleEvaluation {
+    const type = FIELD_TYPES[condition.field];
+    const operator = OPERATORS.find(candidate => condition[candidate] !== undefined);
+    const values = !type
+      ? []
+      : entry && PER_SCHEDULE_FIELDS.includes(condition.field)
+        ? JobFilterRules.entryValues(condition.field, entry, job)
+        : JobFilterRules.fieldValues(condition.field, job);
+    const seen = values.length === 0
+      ? 'no value'
+      : `was ${values.map(value => (typeof value === 'string' ? `"${value}"` : String(value))).join(', ')}`;
+
+    const matched = !!type && !!operator && values.some(value =>
+      JobFilterRules.compare(value, operator, condition[operator] as RuleValue | RuleValue[], type));
+    const reason = `${JobFilterRules.describe(condition)} (${seen})`;
+    return { matched, reason, trace: [`${matched ? '✓' : '✗'} ${reason}`] };
+  }
+
+  private static compare(value: RuleValue, operator: Operator, operand: RuleValue | RuleValue[], type: FieldType): boolean {
+    switch (operator) {
+      case 'equals':
+        return JobFilterRules.equals(value, operand as RuleValue, type);
+      case 'in':
+        return Array.isArray(operand) && operand.some(candidate => JobFilterRules.equals(value, candidate, type));
+      case 'contains':
+        return String(value).toLowerCase().includes(String(operand).toLowerCase());
+      case 'matches':
+        try {
+          return new RegExp(String(operand), 'i').test(String(value));
+        } catch {
+          return false;
+        }
+      default: {
+        const left = JobFilterRules.toComparable(value, type);
+        const right = JobFilterRules.toComparable(operand as RuleValue, type);
+        if (left === null || right === null) return false;
+        if (operator === 'gt') return left > right;
+        if (operator === 'gte') return left >= right;
+        if (operator === 'lt') return left < right;
+        return left <= right;
+      }
+    }
+  }
+
+  private static equals(value: RuleValue, operand: RuleValue, type: FieldType): boolean {
+    if (type === 'text') {
+      return String(value).toLowerCase() === String(operand).toLowerCase();
+    }
+    if (type === 'boolean') {
+      return value === (typeof operand === 'string' ? operand.toLowerCase() === 'true' : operand);
+    }
+    const left = JobFilterRules.toComparable(value, type);
+    return left !== null && left === JobFilterRules.toComparable(operand, type);
+  }
+
+  /**
+   * Number, date or time as something ordered (dates stay YYYY-MM-DD strings, times become minutes)
+   */
+  private static toComparable(value: RuleValue, type: FieldType): number | string | null {
+    if (type === 'number') {
+      const number = typeof value === 'number' ? value : Number(value);
+      return value !== '' && isFinite(number) ? number : null;
+    }
+    if (type === 'date') {
+      const date = String(value).substring(0, 10);
+      return DATE_PATTERN.test(date) ? date : null;
+    }
+    if (type === 'time') {
+      return AvailabilityRules.parseTime(String(value));
+    }
+    return null;
+  }
+
+  /**
+   * Values of a field on a job (several for per-schedule fields, none when unknown)
+   */
+  private static fieldValues(field: RuleField, job: SubstituteJob): RuleValue[] {
+    const unique = (values: RuleValue[]) => [...new Set(values)];
+    switch (field) {
+      case 'title':
+        return [job.title];
+      case 'positionType':
+        return job.positionType?.title ? [job.positionType.title] : [];
+      case 'building':
+        return unique(JobNormalizer.buildings(job).map(building => building.title).filter(title => title !== ''));
+      case 'buildingId':
+        return unique(JobNormalizer.buildings(job).map(building => building.id).filter((id): id is number => id !== null));
+      case 'scheduleType':
+        return unique((job.schedules.length > 0 ? job.schedules.map(schedule => schedule.scheduleType) : [job.scheduleType]).filter(type => type !== ''));
+      case 'weekday':
+        return unique(AvailabilityRules.scheduleDays(job).map(day => WEEKDAYS[new Date(`${day.date}T00:00:00Z`).getUTCDay()]));
+      case 'startDate':
+        return job.startDate ? [job.startDate.substring(0, 10)] : [];
+      case 'endDate':
+        return job.endDate || job.startDate ? [(job.endDate || job.startDate).substring(0, 10)] : [];
+      case 'startTime':
+        return unique(job.schedules.map(schedule => schedule.startTime).filter(time => time !== ''));
+      case 'endTime':
+        return unique(job.schedules.map(schedule => schedule.endTime).filter(time => time !== ''));
+      case 'days': {
+        const start = Date.parse(job.startDate.substring(0, 10));
+        const end = Date.parse((job.endDate || job.startDate).substring(0, 10));
+        return isNaN(start) || isNaN(end) ? [] : [Math.round((end - start) / (24 * 60 * 60 * 1000)) + 1];
+      }
+      case 'longTerm':
+        return [job.longTerm];
+      case 'lessonPlan':
+        return job.details ? [job.details.lessonPlanAvailable] : [];
+      case 'status':
+        return job.status ? [job.status] : [];
+      case 'absentEmployee':
+        return job.absentEmployee?.fullName ? [job.absentEmployee.fullName] : [];
+    }
+  }
+
+  /**
+   * Values of a per-schedule field on one schedule entry
+   */
+  private static entryValues(field: RuleField, entry: ScheduleDay, job: SubstituteJob): RuleValue[] {
+    const building = entry.schedule ? entry.schedule.building : job.building;
+    switch (field) {
+      case 'building':
+        return building?.title ? [building.title] : [];
+      case 'buildingId':
+        return building && building.id !== null ? [building.id] : [];
+      case 'scheduleType': {
+        const scheduleType = entry.schedule ? entry.schedule.scheduleType : job.scheduleType;
+        return scheduleType ? [scheduleType] : [];
+      }
+      case 'weekday':
+        return [WEEKDAYS[new Date(`${entry.date}T00:00:00Z`).getUTCDay()]];
+      case 'startTime':
+        return entry.schedule?.startTime ? [entry.schedule.startTime] : [];
+      case 'endTime':
+        return entry.schedule?.endTime ? [entry.schedule.endTime] : [];
+      default:
+        return JobFilterRules.fieldValues(field, job);
+    }
+  }
+}
+
+export default JobFilterRules;
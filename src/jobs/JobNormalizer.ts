@@ -0,0 +1,285 @@
+import SearchWindows, { DEFAULT_TIME_ZONE } from './SearchWindows';
+
+/**
+ * JobNormalizer
+ * Turns raw substitute-job payloads from the API into typed SubstituteJob objects
+ *
+ * Why:
+ * - The API is not consistent about field names (positionTitle vs position vs
+ *   positionType.title, building.title vs building.name)
+ * - Every consumer resolves those once here instead of with its own fallback chain
+ * - validate() reports missing and unknown fields so API changes show up in the logs
+ */
+
+export interface JobBuilding {
+  id: number | null;
+  title: string; // building.title, falling back to building.name
+}
+
+export interface JobPositionType {
+  id: number | null;
+  title: string;
+}
+
+export interface JobSchedule {
+  date: string | null;
+  startTime: string;
+  endTime: string;
+  scheduleType: string; // e.g. FULL_DAY, HALF_DAY ('' when not given)
+  building: JobBuilding | null;
+}
+
+export interface AbsentEmployee {
+  id: number | null;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+}
+
+export interface JobAttachment {
+  id: number | null;
+  name: string; // fileName, falling back to name / title
+  url: string; // '' when the API does not give a download link
+  contentType: string;
+}
+
+/**
+ * Extra fields only the job detail endpoint returns
+ */
+export interface JobDetails {
+  notes: string; // Notes for the substitute ('' when none)
+  lessonPlanAvailable: boolean;
+  attachments: JobAttachment[];
+  fetchedAt: number; // ms since epoch
+}
+
+export interface SubstituteJob {
+  id: string;
+  title: string;
+  positionType: JobPositionType | null;
+  schedules: JobSchedule[];
+  building: JobBuilding | null; // Building of the first schedule
+  scheduleType: string; // Schedule type of the first schedule
+  startDate: string;
+  endDate: string; // Same as startDate for single-day jobs
+  date: string; // Same as startDate
+  time: string; // Start time of the first schedule
+  location: string; // Building title of the first schedule
+  status: string;
+  longTerm: boolean;
+  absentEmployee: AbsentEmployee | null;
+  details?: JobDetails; // Only set on jobs loaded through JobsModule.fetchJobDetails
+  raw: Record<string, unknown>; // Untouched API payload
+}
+
+export type JobKind = 'scheduled' | 'available';
+
+export interface JobValidationResult {
+  valid: boolean;
+  missing: string[];
+  unknown: string[];
+}
+
+// Fields the API is known to send; anything else is reported as unknown
+const KNOWN_JOB_FIELDS = [
+  'id', 'jobId', 'substitutionJobId', 'substituteJobId',
+  'title', 'positionTitle', 'position', 'positionType',
+  'startDate', 'endDate', 'date', 'schedules', 'status', 'longTerm',
+  'absentEmployee'
+];
+const REQUIRED_JOB_FIELDS = ['id', 'startDate', 'schedules'];
+const KNOWN_SCHEDULE_FIELDS = ['id', 'date', 'startTime', 'endTime', 'scheduleType', 'building'];
+const REQUIRED_SCHEDULE_FIELDS = ['startTime', 'building'];
+
+class JobNormalizer {
+  /**
+   * Normalize one raw job
+   * - Available jobs without a start date are treated as today's jobs (today in timeZone)
+   */
+  public static normalize(raw: any, kind: JobKind, timeZone: string = DEFAULT_TIME_ZONE): SubstituteJob {
+    const source: Record<string, any> = raw && typeof raw === 'object' ? raw : {};
+
+    const schedules: JobSchedule[] = Array.isArray(source.schedules)
+      ? source.schedules.map((schedule: any) => JobNormalizer.normalizeSchedule(schedule))
+      : [];
+    const firstSchedule = schedules[0];
+    const positionType = JobNormalizer.normalizePositionType(source.positionType ?? source.position);
+
+    const defaultStartDate = kind === 'available' ? SearchWindows.localDate(new Date(), timeZone) : '';
+    const startDate = JobNormalizer.text(source.startDate) || JobNormalizer.text(source.date) || defaultStartDate;
+    const building = firstSchedule?.building || null;
+
+    return {
+      id: String(source.id ?? source.jobId ?? ''),
+      title: JobNormalizer.text(source.positionTitle)
+        || JobNormalizer.text(source.position)
+        || positionType?.title
+        || JobNormalizer.text(source.title)
+        || 'Untitled',
+      positionType,
+      schedules,
+      building,
+      scheduleType: firstSchedule?.scheduleType || '',
+      startDate,
+      endDate: JobNormalizer.text(source.endDate) || startDate,
+      date: startDate,
+      time: firstSchedule?.startTime || '',
+      location: building?.title || '',
+      status: JobNormalizer.text(source.status) || kind,
+      longTerm: source.longTerm === true,
+      absentEmployee: JobNormalizer.normalizeEmployee(source.absentEmployee),
+      raw: source
+    };
+  }
+
+  /**
+   * Normalize a raw job from the detail endpoint
+   * - Same fields as normalize(), plus notes, lesson plan and attachments
+   */
+  public static normalizeDetails(
+    raw: any,
+    kind: JobKind,
+    fetchedAt: number = Date.now(),
+    timeZone: string = DEFAULT_TIME_ZONE
+  ): SubstituteJob {
+    const job = JobNormalizer.normalize(raw, kind, timeZone);
+    const source = job.raw as Record<string, any>;
+    const lessonPlan = source.lessonPlan;
+    const attachments = Array.isArray(source.attachments) ? source.attachments : Array.isArray(source.files) ? source.files : [];
+
+    job.details = {
+      notes: JobNormalizer.text(source.notesToSubstitute)
+        || JobNormalizer.text(source.substituteNotes)
+        || JobNormalizer.text(source.notes),
+      lessonPlanAvailable: source.lessonPlanAvailable === true
+        || source.hasLessonPlan === true
+        || (typeof lessonPlan === 'string' ? lessonPlan !== '' : !!lessonPlan && typeof lessonPlan === 'object'),
+      attachments: attachments
+        .filter((attachment: any) => attachment && typeof attachment === 'object')
+        .map((attachment: any) => JobNormalizer.normalizeAttachment(attachment)),
+      fetchedAt
+    };
+    return job;
+  }
+
+  /**
+   * Normalize every job in a list
+   */
+  public static normalizeAll(rawJobs: any[], kind: JobKind, timeZone: string = DEFAULT_TIME_ZONE): SubstituteJob[] {
+    return rawJobs.map(raw => JobNormalizer.normalize(raw, kind, timeZone));
+  }
+
+  /**
+   * Buildings of every schedule day (the job's own building when it has no schedules)
+   */
+  public static buildings(job: SubstituteJob): JobBuilding[] {
+    const buildings = job.schedules
+      .map(schedule => schedule.building)
+      .filter((building): building is JobBuilding => building !== null);
+    if (buildings.length === 0 && job.building) {
+      buildings.push(job.building);
+    }
+    return buildings;
+  }
+
+  /**
+   * Check a raw job against the fields the normalizer knows about
+   * - missing: required fields that are absent (schedule fields as schedules[i].field)
+   * - unknown: fields the normalizer ignores (they stay available on job.raw)
+   */
+  public static validate(raw: any): JobValidationResult {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { valid: false, missing: [...REQUIRED_JOB_FIELDS], unknown: [] };
+    }
+
+    const missing = REQUIRED_JOB_FIELDS.filter(field => raw[field] === undefined || raw[field] === null || raw[field] === '');
+    const unknown = Object.keys(raw).filter(field => !KNOWN_JOB_FIELDS.includes(field));
+
+    if (!(raw.positionTitle || raw.position || raw.positionType?.title || raw.title)) {
+      missing.push('positionTitle');
+    }
+
+    if (Array.isArray(raw.schedules)) {
+      raw.schedules.forEach((schedule: any, index: number) => {
+        const source = schedule && typeof schedule === 'object' ? schedule : {};
+        for (const field of REQUIRED_SCHEDULE_FIELDS) {
+          if (source[field] === undefined || source[field] === null) {
+            missing.push(`schedules[${index}].${field}`);
+          }
+        }
+        for (const field of Object.keys(source)) {
+          if (!KNOWN_SCHEDULE_FIELDS.includes(field) && !unknown.includes(`schedules[].${field}`)) {
+            unknown.push(`schedules[].${field}`);
+          }
+        }
+      });
+    } else if (raw.schedules !== undefined && !missing.includes('schedules')) {
+      missing.push('schedules');
+    }
+
+    return { valid: missing.length === 0, missing, unknown };
+  }
+
+  private static normalizeSchedule(raw: any): JobSchedule {
+    const source: Record<string, any> = raw && typeof raw === 'object' ? raw : {};
+    return {
+      date: JobNormalizer.text(source.date) || null,
+      startTime: JobNormalizer.text(source.startTime),
+      endTime: JobNormalizer.text(source.endTime),
+      scheduleType: JobNormalizer.text(source.scheduleType),
+      building: JobNormalizer.normalizeBuilding(source.building)
+    };
+  }
+
+  private static normalizeBuilding(raw: any): JobBuilding | null {
+    if (!raw || typeof raw !== 'object') return null;
+    return {
+      id: JobNormalizer.toId(raw.id),
+      title: JobNormalizer.text(raw.title) || JobNormalizer.text(raw.name)
+    };
+  }
+
+  private static normalizePositionType(raw: any): JobPositionType | null {
+    // position is sometimes a plain title string; that is handled by the title fallback
+    if (!raw || typeof raw !== 'object') return null;
+    return {
+      id: JobNormalizer.toId(raw.id),
+      title: JobNormalizer.text(raw.title) || JobNormalizer.text(raw.name)
+    };
+  }
+
+  private static normalizeAttachment(raw: Record<string, any>): JobAttachment {
+    return {
+      id: JobNormalizer.toId(raw.id),
+      name: JobNormalizer.text(raw.fileName) || JobNormalizer.text(raw.name) || JobNormalizer.text(raw.title),
+      url: JobNormalizer.text(raw.url) || JobNormalizer.text(raw.downloadUrl),
+      contentType: JobNormalizer.text(raw.contentType) || JobNormalizer.text(raw.mimeType)
+    };
+  }
+
+  private static normalizeEmployee(raw: any): AbsentEmployee | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const firstName = JobNormalizer.text(raw.firstName);
+    const lastName = JobNormalizer.text(raw.lastName);
+    return {
+      id: JobNormalizer.toId(raw.id),
+      firstName,
+      lastName,
+      fullName: JobNormalizer.text(raw.fullName) || JobNormalizer.text(raw.name) || `${firstName} ${lastName}`.trim()
+    };
+  }
+
+  private static toId(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const id = Number(value);
+    return Number.isFinite(id) ? id : null;
+  }
+
+  private static text(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    return '';
+  }
+}
+
+export default JobNormalizer;
@@ -8,8 +8,19 @@
  * - Preferred schedule types
  * - Exclude titles/buildings
  * - Minimum/maximum hour requirements
+ * - Weekly availability (days and times we are free), checked on every schedule day
+ * - Blackouts (vacations, appointments, calendar events) no schedule day may overlap
+ * - An optional rule expression (all / any / not over typed fields), checked first
+ * - Minimum / maximum lead time before the first start, with a last-minute exception
+ *   for nearby buildings
  */
 
+import JobNormalizer, { SubstituteJob } from './JobNormalizer';
+import AvailabilityRules, { AvailabilityRule } from './AvailabilityRules';
+import BlackoutCalendar, { BusyPeriod } from './BlackoutCalendar';
+import JobFilterRules, { FilterRule } from './JobFilterRules';
+import LeadTime, { LeadTimePolicy } from './LeadTime';
+
 export interface JobPreferences {
   // Include filters (job must match at least one if specified)
   preferredPositionTypes?: string[]; // e.g., ["Teacher", "Math"] - filters by positionType.title
@@ -30,11 +41,23 @@ export interface JobPreferences {
   onlyMultipleDays?: boolean; // Only show jobs that span multiple days
   minDays?: number; // Minimum number of days for contract
   maxDays?: number; // Maximum number of days for contract
+  availability?: AvailabilityRule[]; // e.g. [{ days: ["mon", "wed", "fri"], from: "07:30", until: "15:30" }]
+  blackouts?: BusyPeriod[]; // From BlackoutCalendar.fromRanges / loadIcsFile
+  rule?: FilterRule; // See JobFilterRules; the fixed filters above still apply to jobs it accepts
+  leadTime?: LeadTimePolicy; // e.g. { minMinutes: 90, maxDays: 14, lastMinute: { minMinutes: 30, buildings: ["Lincoln"] } }
+  timeZone?: string; // District time zone for schedule times (default: America/Chicago)
 }
 
 export interface FilterResult {
   passed: boolean;
   reason?: string;
+  trace?: string[]; // Rule clauses that decided the outcome, when a rule is configured
+}
+
+export interface FilteredJob {
+  job: SubstituteJob;
+  reason: string;
+  trace?: string[];
 }
 
 class JobPreferencesManager {
@@ -62,11 +85,31 @@ class JobPreferencesManager {
 
   /**
    * Check if a job passes all filters
+   * - The rule expression decides first; its trace is returned with the result
    */
-  public filterJob(job: any): FilterResult {
+  public filterJob(job: SubstituteJob, now: Date = new Date()): FilterResult {
+    if (!this.preferences.rule) {
+      return this.checkPreferences(job, now);
+    }
+
+    const evaluation = JobFilterRules.evaluate(this.preferences.rule, job);
+    if (!evaluation.matched) {
+      return {
+        passed: false,
+        reason: `Rule not matched: ${evaluation.reason}`,
+        trace: evaluation.trace
+      };
+    }
+    return { ...this.checkPreferences(job, now), trace: evaluation.trace };
+  }
+
+  /**
+   * The fixed preference filters: excludes first, then each preferred list, availability, lead time and duration
+   */
+  private checkPreferences(job: SubstituteJob, now: Date): FilterResult {
     // Check exclude filters first (reject immediately)
     if (this.preferences.excludePositionTypes && this.preferences.excludePositionTypes.length > 0) {
-      const positionType = job.positionType?.title || job.position?.title || '';
+      const positionType = job.positionType?.title || '';
       for (const excludeType of this.preferences.excludePositionTypes) {
         if (positionType.toLowerCase().includes(excludeType.toLowerCase())) {
           return {
@@ -77,31 +120,36 @@ class JobPreferencesManager {
       }
     }
 
+    // Exclusions apply to every schedule day, not just the first one
     if (this.preferences.excludeBuildings && this.preferences.excludeBuildings.length > 0) {
-      const buildingName = job.schedules?.[0]?.building?.name || '';
-      for (const excludeBuilding of this.preferences.excludeBuildings) {
-        if (buildingName.toLowerCase().includes(excludeBuilding.toLowerCase())) {
-          return {
-            passed: false,
-            reason: `Excluded building: "${excludeBuilding}" found in "${buildingName}"`
-          };
+      for (const building of JobNormalizer.buildings(job)) {
+        const buildingName = building.title;
+        for (const excludeBuilding of this.preferences.excludeBuildings) {
+          if (buildingName.toLowerCase().includes(excludeBuilding.toLowerCase())) {
+            return {
+              passed: false,
+              reason: `Excluded building: "${excludeBuilding}" found in "${buildingName}"`
+            };
+          }
         }
       }
     }
 
     if (this.preferences.excludeBuildingIds && this.preferences.excludeBuildingIds.length > 0) {
-      const buildingId = job.schedules?.[0]?.building?.id;
-      if (buildingId && this.preferences.excludeBuildingIds.includes(buildingId)) {
-        return {
-          passed: false,
-          reason: `Excluded building ID: ${buildingId}`
-        };
+      for (const building of JobNormalizer.buildings(job)) {
+        const buildingId = building.id;
+        if (buildingId && this.preferences.excludeBuildingIds.includes(buildingId)) {
+          return {
+            passed: false,
+            reason: `Excluded building ID: ${buildingId}`
+          };
+        }
       }
     }
 
     // Check job type filters (long-term vs short-term)
     if (this.preferences.includeLongTerm !== undefined || this.preferences.includeShortTerm !== undefined) {
-      const isLongTerm = job.longTerm === true;
+      const isLongTerm = job.longTerm;
       const includeLongTerm = this.preferences.includeLongTerm !== false; // default true
       const includeShortTerm = this.preferences.includeShortTerm !== false; // default true
 
@@ -123,7 +171,7 @@ class JobPreferencesManager {
     // Check include filters (must match at least one if specified)
     if (this.preferences.preferredPositionTypes && this.preferences.preferredPositionTypes.length > 0) {
       let positionMatches = false;
-      const positionType = job.positionType?.title || job.position?.title || '';
+      const positionType = job.positionType?.title || '';
       for (const preferredType of this.preferences.preferredPositionTypes) {
         if (positionType.toLowerCase().includes(preferredType.toLowerCase())) {
           positionMatches = true;
@@ -140,7 +188,7 @@ class JobPreferencesManager {
 
     if (this.preferences.preferredBuildings && this.preferences.preferredBuildings.length > 0) {
       let buildingMatches = false;
-      const buildingName = job.schedules?.[0]?.building?.name || '';
+      const buildingName = job.building?.title || '';
       for (const preferredBuilding of this.preferences.preferredBuildings) {
         if (buildingName.toLowerCase().includes(preferredBuilding.toLowerCase())) {
           buildingMatches = true;
@@ -156,7 +204,7 @@ class JobPreferencesManager {
     }
 
     if (this.preferences.preferredBuildingIds && this.preferences.preferredBuildingIds.length > 0) {
-      const buildingId = job.schedules?.[0]?.building?.id;
+      const buildingId = job.building?.id;
       if (!buildingId || !this.preferences.preferredBuildingIds.includes(buildingId)) {
         return {
           passed: false,
@@ -166,8 +214,9 @@ class JobPreferencesManager {
     }
 
     if (this.preferences.preferredScheduleTypes && this.preferences.preferredScheduleTypes.length > 0) {
-      const scheduleType = job.schedules?.[0]?.scheduleType || '';
-      if (!this.preferences.preferredScheduleTypes.includes(scheduleType)) {
+      const scheduleTypes = job.schedules.length > 0 ? job.schedules.map(schedule => schedule.scheduleType) : [job.scheduleType];
+      const scheduleType = scheduleTypes.find(type => !this.preferences.preferredScheduleTypes!.includes(type));
+      if (scheduleType !== undefined) {
         return {
           passed: false,
           reason: `Schedule type "${scheduleType}" not in preferred: ${this.preferences.preferredScheduleTypes.join(', ')}`
@@ -175,10 +224,40 @@ class JobPreferencesManager {
       }
     }
 
+    if (this.preferences.availability && this.preferences.availability.length > 0) {
+      const reason = AvailabilityRules.check(job, this.preferences.availability);
+      if (reason) {
+        return {
+          passed: false,
+          reason: `Outside availability: ${reason}`
+        };
+      }
+    }
+
+    if (this.preferences.blackouts && this.preferences.blackouts.length > 0) {
+      const reason = BlackoutCalendar.check(job, this.preferences.blackouts);
+      if (reason) {
+        return {
+          passed: false,
+          reason
+        };
+      }
+    }
+
+    if (this.preferences.leadTime) {
+      const reason = LeadTime.check(job, this.preferences.leadTime, this.preferences.timeZone, now);
+      if (reason) {
+        return {
+          passed: false,
+          reason
+        };
+      }
+    }
+
     // Check duration constraints
     if (this.preferences.onlyMultipleDays) {
-      const startDate = new Date(job.date);
-      const endDate = new Date(job.endDate || job.date);
+      const startDate = new Date(job.startDate);
+      const endDate = new Date(job.endDate);
       const durationDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
       
       if (durationDays < 2) {
@@ -190,8 +269,8 @@ class JobPreferencesManager {
     }
 
     if (this.preferences.minDays && this.preferences.minDays > 0) {
-      const startDate = new Date(job.date);
-      const endDate = new Date(job.endDate || job.date);
+      const startDate = new Date(job.startDate);
+      const endDate = new Date(job.endDate);
       const durationDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
       
       if (durationDays < this.preferences.minDays) {
@@ -203,8 +282,8 @@ class JobPreferencesManager {
     }
 
     if (this.preferences.maxDays && this.preferences.maxDays > 0) {
-      const startDate = new Date(job.date);
-      const endDate = new Date(job.endDate || job.date);
+      const startDate = new Date(job.startDate);
+      const endDate = new Date(job.endDate);
       const durationDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
       
       if (durationDays > this.preferences.maxDays) {
@@ -221,16 +300,16 @@ class JobPreferencesManager {
   /**
    * Filter an array of jobs
    */
-  public filterJobs(jobs: any[]): { passed: any[]; filtered: Array<{ job: any; reason: string }> } {
-    const passed: any[] = [];
-    const filtered: Array<{ job: any; reason: string }> = [];
+  public filterJobs(jobs: SubstituteJob[], now: Date = new Date()): { passed: SubstituteJob[]; filtered: FilteredJob[] } {
+    const passed: SubstituteJob[] = [];
+    const filtered: FilteredJob[] = [];
 
     for (const job of jobs) {
-      const result = this.filterJob(job);
+      const result = this.filterJob(job, now);
       if (result.passed) {
         passed.push(job);
       } else {
-        filtered.push({ job, reason: result.reason || 'Unknown reason' });
+        filtered.push({ job, reason: result.reason || 'Unknown reason', trace: result.trace });
       }
     }
 
@@ -288,6 +367,19 @@ class JobPreferencesManager {
     if (this.preferences.maxDays) {
       parts.push(`✓ Maximum ${this.preferences.maxDays} days`);
     }
+    if (this.preferences.availability?.length) {
+      parts.push(`✓ Available: ${this.preferences.availability.map(rule => AvailabilityRules.describe(rule)).join('; ')}`);
+    }
+    if (this.preferences.leadTime) {
+      parts.push(`✓ Lead time: ${LeadTime.describe(this.preferences.leadTime)}`);
+    }
+    if (this.preferences.rule) {
+      parts.push(`✓ Rule: ${JobFilterRules.describe(this.preferences.rule)}`);
+    }
+    if (this.preferences.blackouts?.length) {
+      const names = [...new Set(this.preferences.blackouts.map(period => period.name))];
+      parts.push(`✗ Blackouts: ${this.preferences.blackouts.length} period(s) - ${names.slice(0, 3).join(', ')}${names.length > 3 ? ', ...' : ''}`);
+    }
 
     return parts.length > 0 ? parts.join('\n') : 'No filters configured';
   }
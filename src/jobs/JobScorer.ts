@@ -0,0 +1,284 @@
+import JobNormalizer, { SubstituteJob } from './JobNormalizer';
+import SearchWindows, { DEFAULT_TIME_ZONE } from './SearchWindows';
+
+/**
+ * JobScorer
+ * Scores jobs against weighted preferences so opportunities can be ranked
+ *
+ * How a score is built:
+ * - Each factor rates the job from -1 (avoid) through 0 (no preference) to 1 (ideal)
+ * - Factors are combined by weight into 0-100, where 50 is neutral
+ * - The breakdown lists every weighted factor with its points and the reason,
+ *   so a ranking can be explained in the logs and notifications
+ *
+ * Factors:
+ * - building, positionType, scheduleType, dayOfWeek: configured ratings, matched
+ *   like JobPreferencesManager (building ID, or part of the name / title);
+ *   jobs spanning several days or buildings get the average
+ * - duration, leadTime: 1 inside the preferred range, dropping by 0.5 per day outside it
+ * - lessonPlan: 1 with a lesson plan, -1 without (0 until details are loaded)
+ */
+
+export type ScoringFactor = 'building' | 'positionType' | 'scheduleType' | 'duration' | 'leadTime' | 'dayOfWeek' | 'lessonPlan';
+
+export interface ScoringRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ScoringModel {
+  weights?: { [factor in ScoringFactor]?: number }; // Default: DEFAULT_WEIGHTS; 0 turns a factor off
+  buildings?: { [nameOrId: string]: number }; // e.g. { "Lincoln": 1, "42": -0.5 }
+  positionTypes?: { [title: string]: number }; // e.g. { "Math": 1, "Aide": -1 }
+  scheduleTypes?: { [type: string]: number }; // e.g. { "FULL_DAY": 1, "HALF_DAY": 0.3 }
+  daysOfWeek?: { [day: string]: number }; // monday ... sunday
+  durationDays?: ScoringRange; // Preferred number of workdays
+  leadTimeDays?: ScoringRange; // Preferred days from today to the first day
+}
+
+export interface ScoreFactor {
+  factor: ScoringFactor;
+  weight: number;
+  rating: number; // -1 to 1
+  points: number; // Contribution to the score relative to 50
+  reason: string;
+}
+
+export interface JobScore {
+  job: SubstituteJob;
+  score: number; // 0-100, one decimal
+  breakdown: ScoreFactor[];
+}
+
+export const DEFAULT_WEIGHTS: { [factor in ScoringFactor]: number } = {
+  building: 3,
+  positionType: 3,
+  scheduleType: 2,
+  duration: 1,
+  leadTime: 1,
+  dayOfWeek: 1,
+  lessonPlan: 1
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface Rating {
+  rating: number;
+  reason: string;
+}
+
+class JobScorer {
+  private model: ScoringModel;
+  private weights: { [factor in ScoringFactor]: number };
+  private timeZone: string;
+
+  constructor(model: ScoringModel = {}, timeZone: string = DEFAULT_TIME_ZONE) {
+    this.model = model;
+    this.weights = { ...DEFAULT_WEIGHTS };
+    for (const [factor, weight] of Object.entries(model.weights || {})) {
+      if (!(factor in DEFAULT_WEIGHTS)) {
+        console.warn(`⚠️  Ignoring unknown scoring factor "${factor}"`);
+      } else if (typeof weight !== 'number' || !(weight >= 0)) {
+        console.warn(`⚠️  Ignoring invalid weight for scoring factor "${factor}": ${weight}`);
+      } else {
+        this.weights[factor as ScoringFactor] = weight;
+      }
+    }
+    this.timeZone = SearchWindows.isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  }
+
+  /**
+   * Score one job
+   */
+  public score(job: SubstituteJob, now: Date = new Date()): JobScore {
+    const factors = (Object.keys(DEFAULT_WEIGHTS) as ScoringFactor[]).filter(factor => this.weights[factor] > 0);
+    const totalWeight = factors.reduce((sum, factor) => sum + this.weights[factor], 0);
+
+    const breakdown: ScoreFactor[] = factors.map(factor => {
+      const { rating, reason } = this.rate(factor, job, now);
+      const weight = this.weights[factor];
+      return { factor, weight, rating, points: JobScorer.round(50 * weight * rating / totalWeight), reason };
+    });
+
+    const weighted = breakdown.reduce((sum, entry) => sum + entry.weight * entry.rating, 0);
+    const score = totalWeight > 0 ? 50 + 50 * weighted / totalWeight : 50;
+    return { job, score: JobScorer.round(score), breakdown };
+  }
+
+  /**
+   * Score jobs and sort them, highest first (ties keep their order)
+   */
+  public rank(jobs: SubstituteJob[], now: Date = new Date()): JobScore[] {
+    return jobs.map(job => this.score(job, now)).sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * One-line explanation of a score, e.g. "82.5 = building +18.8 (...), leadTime -3.1 (...)"
+   */
+  public static formatBreakdown(score: JobScore): string {
+    const parts = score.breakdown
+      .filter(entry => entry.points !== 0)
+      .map(entry => `${entry.factor} ${entry.points > 0 ? '+' : ''}${entry.points} (${entry.reason})`);
+    return `${score.score} = 50${parts.length > 0 ? ' ' + parts.join(', ') : ' (no preferences matched)'}`;
+  }
+
+  private rate(factor: ScoringFactor, job: SubstituteJob, now: Date): Rating {
+    switch (factor) {
+      case 'building':
+        return this.rateBuildings(job);
+      case 'positionType':
+        return this.ratePositionType(job);
+      case 'scheduleType':
+        return this.rateScheduleTypes(job);
+      case 'duration':
+        return this.rateDuration(job);
+      case 'leadTime':
+        return this.rateLeadTime(job, now);
+      case 'dayOfWeek':
+        return this.rateDaysOfWeek(job);
+      case 'lessonPlan':
+        return this.rateLessonPlan(job);
+    }
+  }
+
+  private rateBuildings(job: SubstituteJob): Rating {
+    const ratings = this.model.buildings || {};
+    const buildings = JobNormalizer.buildings(job);
+
+    return JobScorer.average(buildings.map(building => {
+      const key = Object.keys(ratings).find(candidate =>
+        (building.id !== null && candidate === String(building.id)) ||
+        (building.title !== '' && building.title.toLowerCase().includes(candidate.toLowerCase())));
+      return key === undefined
+        ? { rating: 0, reason: `${building.title || building.id}: no preference` }
+        : { rating: JobScorer.clamp(ratings[key]), reason: `${building.title || building.id} matches "${key}"` };
+    }), 'no building');
+  }
+
+  private ratePositionType(job: SubstituteJob): Rating {
+    const ratings = this.model.positionTypes || {};
+    const title = job.positionType?.title || job.title;
+    const key = Object.keys(ratings).find(candidate =>
+      title.toLowerCase().includes(candidate.toLowerCase()) || job.title.toLowerCase().includes(candidate.toLowerCase()));
+    return key === undefined
+      ? { rating: 0, reason: `${title}: no preference` }
+      : { rating: JobScorer.clamp(ratings[key]), reason: `${title} matches "${key}"` };
+  }
+
+  private rateScheduleTypes(job: SubstituteJob): Rating {
+    const ratings = this.model.scheduleTypes || {};
+    const types = job.schedules.length > 0 ? job.schedules.map(schedule => schedule.scheduleType) : [job.scheduleType];
+
+    return JobScorer.average(types.filter(type => type !== '').map(type => {
+      const key = Object.keys(ratings).find(candidate => candidate.toUpperCase() === type.toUpperCase());
+      return key === undefined
+        ? { rating: 0, reason: `${type}: no preference` }
+        : { rating: JobScorer.clamp(ratings[key]), reason: type };
+    }), 'no schedule type');
+  }
+
+  private rateDuration(job: SubstituteJob): Rating {
+    const days = JobScorer.workdays(job);
+    if (days === null) {
+      return { rating: 0, reason: 'no dates' };
+    }
+    return JobScorer.rateRange(days, this.model.durationDays, `${days} day(s)`);
+  }
+
+  private rateLeadTime(job: SubstituteJob, now: Date): Rating {
+    const start = job.startDate.substring(0, 10);
+    if (!SearchWindows.isValidDate(start)) {
+      return { rating: 0, reason: 'no start date' };
+    }
+    const today = SearchWindows.localDate(now, this.timeZone);
+    const days = Math.round((Date.parse(`${start}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+    return JobScorer.rateRange(days, this.model.leadTimeDays, `starts in ${days} day(s)`);
+  }
+
+  private rateDaysOfWeek(job: SubstituteJob): Rating {
+    const ratings: { [day: string]: number } = {};
+    for (const [day, rating] of Object.entries(this.model.daysOfWeek || {})) {
+      ratings[day.toLowerCase()] = rating;
+    }
+
+    return JobScorer.average(JobScorer.jobDates(job).map(date => {
+      const day = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+      return ratings[day] === undefined
+        ? { rating: 0, reason: `${day}: no preference` }
+        : { rating: JobScorer.clamp(ratings[day]), reason: day };
+    }), 'no dates');
+  }
+
+  private rateLessonPlan(job: SubstituteJob): Rating {
+    if (!job.details) {
+      return { rating: 0, reason: 'details not loaded' };
+    }
+    return job.details.lessonPlanAvailable
+      ? { rating: 1, reason: 'lesson plan available' }
+      : { rating: -1, reason: 'no lesson plan' };
+  }
+
+  /**
+   * 1 inside the range, then 0.5 less per unit outside it (down to -1); 0 without a range
+   */
+  private static rateRange(value: number, range: ScoringRange | undefined, label: string): Rating {
+    if (!range || (range.min === undefined && range.max === undefined)) {
+      return { rating: 0, reason: `${label}: no preference` };
+    }
+    const below = range.min !== undefined ? range.min - value : 0;
+    const above = range.max !== undefined ? value - range.max : 0;
+    const distance = Math.max(0, below, above);
+    const bounds = `${range.min ?? ''}-${range.max ?? ''}`;
+    return distance === 0
+      ? { rating: 1, reason: `${label}, within ${bounds}` }
+      : { rating: Math.max(-1, 1 - distance / 2), reason: `${label}, outside ${bounds}` };
+  }
+
+  /**
+   * Schedule dates when every schedule has one, otherwise each day from start to end
+   */
+  private static jobDates(job: SubstituteJob): string[] {
+    if (job.schedules.length > 0 && job.schedules.every(schedule => schedule.date)) {
+      return [...new Set(job.schedules.map(schedule => (schedule.date as string).substring(0, 10)))];
+    }
+    const start = job.startDate.substring(0, 10);
+    const end = (job.endDate || job.startDate).substring(0, 10);
+    if (!SearchWindows.isValidDate(start) || !SearchWindows.isValidDate(end) || end < start) {
+      return [];
+    }
+    const dates: string[] = [];
+    for (let date = start; date <= end && dates.length < 366; date = SearchWindows.addDays(date, 1)) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  /**
+   * Number of days worked: schedule days, or school days between start and end
+   */
+  private static workdays(job: SubstituteJob): number | null {
+    const dates = JobScorer.jobDates(job);
+    if (dates.length === 0) return null;
+    const hasScheduleDates = job.schedules.length > 0 && job.schedules.every(schedule => schedule.date);
+    return hasScheduleDates ? dates.length : Math.max(1, dates.filter(date => SearchWindows.isSchoolDay(date)).length);
+  }
+
+  private static average(ratings: Rating[], emptyReason: string): Rating {
+    if (ratings.length === 0) {
+      return { rating: 0, reason: emptyReason };
+    }
+    const rating = ratings.reduce((sum, entry) => sum + entry.rating, 0) / ratings.length;
+    const reasons = [...new Set(ratings.map(entry => entry.reason))];
+    return { rating, reason: reasons.length > 2 ? `${reasons.slice(0, 2).join('; ')}; ...` : reasons.join('; ') };
+  }
+
+  private static clamp(rating: number): number {
+    return typeof rating === 'number' && isFinite(rating) ? Math.max(-1, Math.min(1, rating)) : 0;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+export default JobScorer;
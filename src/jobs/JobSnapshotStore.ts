@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import { SubstituteJob } from './JobNormalizer';
+import { JobType } from './JobsModule';
+
+/**
+ * JobSnapshotStore
+ * Remembers the jobs seen on each poll on disk and reports what changed since the last one
+ *
+ * Features:
+ * - One snapshot per kind (scheduled, available, long-term available)
+ * - Diff per poll: added, removed (taken by someone else or cancelled) and modified jobs
+ * - First-seen and last-seen timestamps per job ID
+ * - Survives restarts (JSON file, atomic writes)
+ *
+ * Note: only record complete fetches - a failed or truncated fetch would
+ * report every missing job as removed
+ */
+
+export type SnapshotKind = JobType | 'longTerm';
+
+export type StoredJob = Omit<SubstituteJob, 'raw'>;
+
+export interface JobSnapshotEntry {
+  id: string;
+  firstSeen: number; // ms since epoch
+  lastSeen: number; // ms since epoch
+  job: StoredJob;
+}
+
+export interface JobModification {
+  job: SubstituteJob;
+  previous: StoredJob;
+  changedFields: string[];
+  firstSeen: number;
+}
+
+export interface JobSnapshotDiff {
+  kind: SnapshotKind;
+  firstPoll: boolean; // True when there was no earlier snapshot to compare against
+  previousPollAt: number | null;
+  added: SubstituteJob[];
+  removed: JobSnapshotEntry[];
+  modified: JobModification[];
+  unchanged: number;
+}
+
+interface KindSnapshot {
+  updatedAt: number;
+  jobs: { [id: string]: JobSnapshotEntry };
+}
+
+interface SnapshotFile {
+  version: 1;
+  kinds: { [kind: string]: KindSnapshot };
+}
+
+// Normalized fields compared between polls (date/time/location repeat other fields)
+const COMPARED_FIELDS: Array<keyof StoredJob> = [
+  'title', 'positionType', 'schedules', 'startDate', 'endDate',
+  'status', 'longTerm', 'absentEmployee'
+];
+
+class JobSnapshotStore {
+  private filePath: string;
+  private data: SnapshotFile | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Record the jobs from a complete poll and return what changed since the previous one
+   */
+  public record(kind: SnapshotKind, jobs: SubstituteJob[], now: number = Date.now()): JobSnapshotDiff {
+    const data = this.load();
+    const previous = data.kinds[kind];
+    const previousJobs = previous?.jobs || {};
+    const nextJobs: { [id: string]: JobSnapshotEntry } = {};
+
+    const added: SubstituteJob[] = [];
+    const modified: JobModification[] = [];
+    let unchanged = 0;
+
+    for (const job of jobs) {
+      if (!job.id || nextJobs[job.id]) continue;
+
+      const stored = JobSnapshotStore.toStored(job);
+      const existing = previousJobs[job.id];
+      nextJobs[job.id] = {
+        id: job.id,
+        firstSeen: existing?.firstSeen ?? now,
+        lastSeen: now,
+        job: stored
+      };
+
+      if (!existing) {
+        added.push(job);
+        continue;
+      }
+
+      const changedFields = COMPARED_FIELDS.filter(
+        field => JSON.stringify(existing.job[field]) !== JSON.stringify(stored[field])
+      );
+      if (changedFields.length > 0) {
+        modified.push({ job, previous: existing.job, changedFields, firstSeen: existing.firstSeen });
+      } else {
+        unchanged++;
+      }
+    }
+
+    const removed = Object.values(previousJobs).filter(entry => !nextJobs[entry.id]);
+
+    data.kinds[kind] = { updatedAt: now, jobs: nextJobs };
+    this.save(data);
+
+    return {
+      kind,
+      firstPoll: !previous,
+      previousPollAt: previous?.updatedAt ?? null,
+      added,
+      removed,
+      modified,
+      unchanged
+    };
+  }
+
+  /**
+   * Get the stored entry for a job (null if it was not in the last snapshot)
+   */
+  public getEntry(kind: SnapshotKind, jobId: string): JobSnapshotEntry | null {
+    return this.load().kinds[kind]?.jobs[jobId] || null;
+  }
+
+  /**
+   * Get every entry from the last snapshot of a kind
+   */
+  public getEntries(kind: SnapshotKind): JobSnapshotEntry[] {
+    return Object.values(this.load().kinds[kind]?.jobs || {});
+  }
+
+  /**
+   * Delete the snapshot file
+   * - Returns true if a file was removed
+   */
+  public clear(): boolean {
+    this.data = null;
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Read the snapshot file once per instance
+   * - An unreadable file is set aside and replaced by a fresh snapshot
+   */
+  private load(): SnapshotFile {
+    if (this.data) {
+      return this.data;
+    }
+
+    this.data = { version: 1, kinds: {} };
+    if (!fs.existsSync(this.filePath)) {
+      return this.data;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (parsed?.version !== 1 || typeof parsed.kinds !== 'object') {
+        throw new Error('unsupported snapshot format');
+      }
+      this.data = parsed;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const asidePath = `${this.filePath}.corrupt-${Date.now()}`;
+      console.warn(`⚠️  Unreadable job snapshot (${errorMessage}) - moved to ${asidePath}, starting fresh`);
+      fs.renameSync(this.filePath, asidePath);
+    }
+    return this.data as SnapshotFile;
+  }
+
+  private save(data: SnapshotFile): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(data));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      throw error;
+    }
+  }
+
+  private static toStored(job: SubstituteJob): StoredJob {
+    const { raw, ...stored } = job;
+    return stored;
+  }
+}
+
+export default JobSnapshotStore;
@@ -1,30 +1,30 @@
-import axios, { AxiosInstance } from 'axios';
+import { HttpRequester } from '../http/ResilientHttpClient';
+import EndpointRegistry from '../http/EndpointRegistry';
+import JobNormalizer, { SubstituteJob } from './JobNormalizer';
+import SearchWindows, { DEFAULT_TIME_ZONE, SearchWindow, SearchWindowDefinition } from './SearchWindows';
 
 /**
  * JobsModule - Fetch and manage job data
  * 
  * Features:
- * - Fetch jobs from API endpoints
+ * - Fetch jobs from the API endpoints in the EndpointRegistry
  * - Cache jobs in memory
- * - Parse and structure job data
+ * - Normalize job data into typed SubstituteJob objects and report API shape changes
  * - Support for current/scheduled jobs and available jobs
+ * - Walks every page of the paginated API (configurable page size, safety cap)
+ * - Available jobs can be searched over several date windows (see SearchWindows),
+ *   merged and de-duplicated by job ID
+ * - Full job records (all schedule days, notes, lesson plan, attachments) on demand,
+ *   cached per job ID
+ * - No token handling here: the HTTP client adds the bearer token and recovers from 401s
  * 
  * Types of jobs:
  * - Scheduled/Current: Jobs user already has scheduled
- * - Available: New job opportunities available today
+ * - Available: New job opportunities from today on (or within the configured windows)
  */
 
-export interface Job {
-  id: string;
-  title: string;
-  date: string;
-  time?: string;
-  location?: string;
-  pay?: number;
-  duration?: string;
-  status?: string;
-  [key: string]: any; // Allow other fields from API
-}
+// Jobs are normalized into the typed SubstituteJob model (see JobNormalizer)
+export type Job = SubstituteJob;
 
 export interface JobsFetchResult {
   success: boolean;
@@ -33,23 +33,165 @@ export interface JobsFetchResult {
   timestamp: number;
   message?: string;
   statusCode?: number;
+  pagesFetched?: number;
+  truncated?: boolean; // True when maxPages was reached before the last page
+}
+
+export interface JobDetailsResult {
+  success: boolean;
+  job: Job | null;
+  fromCache: boolean;
+  message?: string;
+  statusCode?: number;
 }
 
 export type JobType = 'scheduled' | 'available';
 
+export interface PaginationOptions {
+  pageSize?: number; // Jobs requested per page (default: 100)
+  maxPages?: number; // Safety cap on pages per fetch (default: 50)
+}
+
+export interface JobsModuleOptions extends PaginationOptions {
+  timeZone?: string; // Time zone that decides what "today" is (default: America/Chicago)
+  searchWindows?: SearchWindowDefinition[]; // Date windows for available jobs (default: today on)
+  detailsCacheTTLSeconds?: number; // How long fetchJobDetails reuses a job's record (default: 600)
+}
+
+interface PagedResponse {
+  success: boolean;
+  items: any[];
+  firstPage: any;
+  totalElements?: number;
+  pagesFetched: number;
+  truncated: boolean;
+  status: number;
+}
+
 class JobsModule {
-  private axiosInstance: AxiosInstance;
-  private baseUrl: string;
+  private httpClient: HttpRequester;
+  private endpoints: EndpointRegistry;
   private cachedJobs: Map<JobType, Job[]> = new Map();
   private cacheTimestamp: Map<JobType, number> = new Map();
+  private cacheTotals: Map<JobType, { totalCount: number; truncated: boolean }> = new Map();
   private cacheTTL: number = 5 * 60 * 1000; // 5 minutes default
-
-  constructor(axiosInstance: AxiosInstance, cacheTTLSeconds?: number, baseUrl: string = 'https://willsubplus.com') {
-    this.axiosInstance = axiosInstance;
-    this.baseUrl = baseUrl;
+  private pageSize: number = 100;
+  private maxPages: number = 50;
+  private timeZone: string = DEFAULT_TIME_ZONE;
+  private searchWindows: SearchWindowDefinition[] | undefined;
+  private cachedDetails: Map<string, Job> = new Map();
+  private detailsCacheTTL: number = 10 * 60 * 1000; // 10 minutes default
+
+  constructor(
+    httpClient: HttpRequester,
+    cacheTTLSeconds?: number,
+    endpoints: EndpointRegistry = new EndpointRegistry(),
+    options: JobsModuleOptions = {}
+  ) {
+    this.httpClient = httpClient;
+    this.endpoints = endpoints;
     if (cacheTTLSeconds) {
       this.cacheTTL = cacheTTLSeconds * 1000;
     }
+    if (options.pageSize && options.pageSize > 0) {
+      this.pageSize = options.pageSize;
+    }
+    if (options.maxPages && options.maxPages > 0) {
+      this.maxPages = options.maxPages;
+    }
+    if (options.timeZone) {
+      if (SearchWindows.isValidTimeZone(options.timeZone)) {
+        this.timeZone = options.timeZone;
+      } else {
+        console.warn(`⚠️  Unknown time zone "${options.timeZone}" - using ${DEFAULT_TIME_ZONE}`);
+      }
+    }
+    this.searchWindows = options.searchWindows;
+    if (options.detailsCacheTTLSeconds !== undefined && options.detailsCacheTTLSeconds >= 0) {
+      this.detailsCacheTTL = options.detailsCacheTTLSeconds * 1000;
+    }
+  }
+
+  /**
+   * GET every page of a paginated endpoint, starting at startPage
+   * - Stops when the server reports the last page (last / totalPages),
+   *   when a page comes back short, or when maxPages is reached
+   * - Responses that are not paginated (plain arrays) are returned as one page
+   * - Any non-200 page fails the whole fetch rather than returning a partial list
+   */
+  private async fetchAllPages(
+    url: string,
+    params: { [key: string]: any },
+    startPage: number,
+    size: number
+  ): Promise<PagedResponse> {
+    const items: any[] = [];
+    const seenIds = new Set<any>();
+    let firstPage: any = null;
+    let totalElements: number | undefined;
+    let pagesFetched = 0;
+
+    for (let page = startPage; pagesFetched < this.maxPages; page++) {
+      const response = await this.httpClient.get(url, {
+        params: { page, size, ...params },
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json'
+        },
+        validateStatus: () => true // Don't throw on any status code
+      });
+      pagesFetched++;
+
+      if (response.status !== 200) {
+        return { success: false, items: [], firstPage, pagesFetched, truncated: false, status: response.status };
+      }
+
+      const data = response.data;
+      if (pagesFetched === 1) {
+        firstPage = data;
+      }
+
+      const paginated = !!data && Array.isArray(data.content);
+      const pageItems: any[] = paginated ? data.content : this.extractJobList(data);
+      for (const item of pageItems) {
+        // Jobs can shift between pages while we walk them; keep the first copy
+        const id = item?.id ?? item?.jobId;
+        if (id !== undefined && id !== null) {
+          if (seenIds.has(id)) continue;
+          seenIds.add(id);
+        }
+        items.push(item);
+      }
+
+      if (!paginated) {
+        return { success: true, items, firstPage, pagesFetched, truncated: false, status: 200 };
+      }
+      if (typeof data.totalElements === 'number') {
+        totalElements = data.totalElements;
+      }
+
+      const isLast = data.last === true ||
+        (typeof data.totalPages === 'number' && page + 1 >= data.totalPages) ||
+        (data.last === undefined && data.totalPages === undefined && pageItems.length < size) ||
+        pageItems.length === 0;
+      if (isLast) {
+        return { success: true, items, firstPage, totalElements, pagesFetched, truncated: false, status: 200 };
+      }
+    }
+
+    console.warn(`⚠️  Stopped after ${this.maxPages} pages (maxPages) - results are incomplete`);
+    return { success: true, items, firstPage, totalElements, pagesFetched, truncated: true, status: 200 };
+  }
+
+  /**
+   * Find the job array in a response body (content, plain array or jobs)
+   */
+  private extractJobList(data: any): any[] {
+    if (!data) return [];
+    if (data.content && Array.isArray(data.content)) return data.content;
+    if (Array.isArray(data)) return data;
+    if (data.jobs && Array.isArray(data.jobs)) return data.jobs;
+    return [];
   }
 
   /**
@@ -77,12 +219,30 @@ class JobsModule {
     return null;
   }
 
+  /**
+   * Result for a cache hit, with the total and truncation of the fetch that filled the cache
+   */
+  private cachedResult(jobType: JobType, jobs: Job[]): JobsFetchResult {
+    const totals = this.cacheTotals.get(jobType);
+    return {
+      success: true,
+      jobs,
+      totalCount: totals?.totalCount ?? jobs.length,
+      timestamp: Date.now(),
+      message: 'Loaded from cache',
+      truncated: totals?.truncated ?? false
+    };
+  }
+
   /**
    * Save jobs to cache
+   * - Keeps the server total and whether maxPages cut the fetch short, so cache hits
+   *   are not mistaken for a complete job list
    */
-  private saveToCache(jobType: JobType, jobs: Job[]): void {
+  private saveToCache(jobType: JobType, jobs: Job[], totalCount: number, truncated: boolean): void {
     this.cachedJobs.set(jobType, jobs);
     this.cacheTimestamp.set(jobType, Date.now());
+    this.cacheTotals.set(jobType, { totalCount, truncated });
     console.log(`💾 Cached ${jobs.length} ${jobType} jobs`);
   }
 
@@ -91,51 +251,35 @@ class JobsModule {
    * - These are jobs the user already has scheduled
    * - Used as baseline to avoid duplicate applications
    */
-  public async fetchScheduledJobs(bearerToken: string, userId: string, page: number = 0, size: number = 1000): Promise<JobsFetchResult> {
+  public async fetchScheduledJobs(userId: string, page: number = 0, size: number = this.pageSize): Promise<JobsFetchResult> {
     try {
       // Check cache first
       const cached = this.getFromCache('scheduled');
       if (cached) {
-        return {
-          success: true,
-          jobs: cached,
-          totalCount: cached.length,
-          timestamp: Date.now(),
-          message: 'Loaded from cache'
-        };
+        return this.cachedResult('scheduled', cached);
       }
 
       console.log('📅 Fetching scheduled jobs from API...');
+      const url = this.endpoints.url('scheduledJobs');
       
       // Debug logging
       console.log('🔍 Request Details:');
-      console.log(`   URL: ${this.baseUrl}/api/substitute-jobs/scheduled`);
+      console.log(`   URL: ${url}`);
       console.log(`   Method: GET`);
       console.log(`   Query: page=${page}&size=${size}&userId=${userId}`);
-      console.log(`   Bearer Token: ${bearerToken ? `Yes (${bearerToken.length} chars)` : 'No'}`);
-
-      const response = await this.axiosInstance.get(
-        `${this.baseUrl}/api/substitute-jobs/scheduled`,
-        {
-          params: {
-            page,
-            size,
-            userId
-          },
-          headers: {
-            'Authorization': `Bearer ${bearerToken}`,
-            'Accept': 'application/json',
-            'Content-Type': 'application/json'
-          },
-          validateStatus: () => true // Don't throw on any status code
-        }
+
+      const response = await this.fetchAllPages(
+        url,
+        { userId },
+        page,
+        size
       );
 
-      console.log(`📨 Response Status: ${response.status}`);
-      console.log(`📨 Response Data (first 300 chars):`, JSON.stringify(response.data).substring(0, 300));
+      console.log(`📨 Response Status: ${response.status} (${response.pagesFetched} page(s))`);
+      console.log(`📨 Response Data (first 300 chars):`, JSON.stringify(response.firstPage).substring(0, 300));
 
       // Check for error status
-      if (response.status !== 200) {
+      if (!response.success) {
         console.warn(`⚠️  Unexpected status code: ${response.status}`);
         return {
           success: false,
@@ -148,19 +292,22 @@ class JobsModule {
       }
 
       // Parse response - adapt based on actual API structure
-      const jobs = this.parseScheduledJobs(response.data);
+      const jobs = this.parseScheduledJobs(response.items);
+      const totalCount = response.totalElements ?? jobs.length;
       
-      console.log(`✓ Retrieved ${jobs.length} scheduled jobs`);
+      console.log(`✓ Retrieved ${jobs.length} of ${totalCount} scheduled jobs`);
 
       // Cache the jobs
-      this.saveToCache('scheduled', jobs);
+      this.saveToCache('scheduled', jobs, totalCount, response.truncated);
 
       return {
         success: true,
         jobs,
-        totalCount: jobs.length,
+        totalCount,
         timestamp: Date.now(),
-        message: `Fetched ${jobs.length} scheduled jobs`
+        message: `Fetched ${jobs.length} scheduled jobs`,
+        pagesFetched: response.pagesFetched,
+        truncated: response.truncated
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -180,91 +327,97 @@ class JobsModule {
 
   /**
    * Fetch available jobs
-   * - These are new job opportunities available today
+   * - These are new job opportunities from today on, or within the configured search windows
+   * - Each window is fetched separately; results are merged and de-duplicated by job ID
    * - User will compare these against scheduled jobs
    */
-  public async fetchAvailableJobs(bearerToken: string, userId: string, page: number = 0, size: number = 1000): Promise<JobsFetchResult> {
+  public async fetchAvailableJobs(userId: string, page: number = 0, size: number = this.pageSize): Promise<JobsFetchResult> {
     try {
       // Check cache first
       const cached = this.getFromCache('available');
       if (cached) {
-        return {
-          success: true,
-          jobs: cached,
-          totalCount: cached.length,
-          timestamp: Date.now(),
-          message: 'Loaded from cache'
-        };
+        return this.cachedResult('available', cached);
       }
 
       console.log('🔍 Fetching available jobs from API...');
-      
-      // Get today's date in YYYY-MM-DD format
-      const today = new Date().toISOString().split('T')[0];
 
-      // Debug logging
-      console.log('🔍 Request Details:');
-      console.log(`   URL: ${this.baseUrl}/api/substitute-jobs/available`);
-      console.log(`   Method: GET`);
-      console.log(`   Query: page=${page}&size=${size}&userId=${userId}&longTerm=false&startDate=${today}`);
-      console.log(`   Bearer Token: ${bearerToken ? `Yes (${bearerToken.length} chars)` : 'No'}`);
-
-      const response = await this.axiosInstance.get(
-        `${this.baseUrl}/api/substitute-jobs/available`,
-        {
-          params: {
-            page,
-            size,
-            userId,
-            longTerm: false,
-            startDate: today
-          },
-          headers: {
-            'Authorization': `Bearer ${bearerToken}`,
-            'Accept': 'application/json',
-            'Content-Type': 'application/json'
-          },
-          validateStatus: () => true // Don't throw on any status code
+      const url = this.endpoints.url('availableJobs');
+      const windows = this.getSearchWindows();
+      const jobsById: Map<string, Job> = new Map();
+      let totalElements: number | undefined;
+      let pagesFetched = 0;
+      let truncated = false;
+
+      for (const window of windows) {
+        const params: { [key: string]: any } = { userId, longTerm: false, startDate: window.startDate };
+        if (window.endDate) {
+          params.endDate = window.endDate;
         }
-      );
 
-      console.log(`📨 Response Status: ${response.status}`);
-      console.log(`📨 Available Jobs Response (first 500 chars):`, JSON.stringify(response.data).substring(0, 500));
+        // Debug logging
+        console.log(`🔍 Request Details (${window.label}):`);
+        console.log(`   URL: ${url}`);
+        console.log(`   Method: GET`);
+        console.log(`   Query: page=${page}&size=${size}&${Object.entries(params).map(([key, value]) => `${key}=${value}`).join('&')}`);
+
+        const response = await this.fetchAllPages(
+          url,
+          params,
+          page,
+          size
+        );
+        pagesFetched += response.pagesFetched;
+
+        console.log(`📨 Response Status: ${response.status} (${response.pagesFetched} page(s))`);
+        console.log(`📨 Available Jobs Response (first 500 chars):`, JSON.stringify(response.firstPage).substring(0, 500));
+
+        // Log first job's full keys for debugging apply endpoint
+        if (response.firstPage?.content?.[0]) {
+          const firstJob = response.firstPage.content[0];
+          console.log(`📨 First available job keys:`, Object.keys(firstJob).join(', '));
+          console.log(`📨 First job id: ${firstJob.id}, substitutionJobId: ${firstJob.substitutionJobId}, substituteJobId: ${firstJob.substituteJobId}`);
+        }
 
-      // Log first job's full keys for debugging apply endpoint
-      if (response.data?.content?.[0]) {
-        const firstJob = response.data.content[0];
-        console.log(`📨 First available job keys:`, Object.keys(firstJob).join(', '));
-        console.log(`📨 First job id: ${firstJob.id}, substitutionJobId: ${firstJob.substitutionJobId}, substituteJobId: ${firstJob.substituteJobId}`);
-      }
+        // Check for error status - a missing window would look like removed jobs, so fail the whole fetch
+        if (!response.success) {
+          console.warn(`⚠️  Unexpected status code: ${response.status}`);
+          return {
+            success: false,
+            jobs: [],
+            totalCount: 0,
+            timestamp: Date.now(),
+            message: `API returned ${response.status}`,
+            statusCode: response.status
+          };
+        }
 
-      // Check for error status
-      if (response.status !== 200) {
-        console.warn(`⚠️  Unexpected status code: ${response.status}`);
-        return {
-          success: false,
-          jobs: [],
-          totalCount: 0,
-          timestamp: Date.now(),
-          message: `API returned ${response.status}`,
-          statusCode: response.status
-        };
+        // Parse response - adapt based on actual API structure
+        for (const job of this.parseAvailableJobs(response.items)) {
+          if (SearchWindows.overlaps(job, window) && !jobsById.has(job.id)) {
+            jobsById.set(job.id, job);
+          }
+        }
+        totalElements = response.totalElements;
+        truncated = truncated || response.truncated;
       }
 
-      // Parse response - adapt based on actual API structure
-      const jobs = this.parseAvailableJobs(response.data);
+      const jobs = [...jobsById.values()];
+      // The server's total only describes the whole result when there is one window
+      const totalCount = windows.length === 1 ? totalElements ?? jobs.length : jobs.length;
       
-      console.log(`✓ Retrieved ${jobs.length} available jobs`);
+      console.log(`✓ Retrieved ${jobs.length} of ${totalCount} available jobs${windows.length > 1 ? ` across ${windows.length} search windows` : ''}`);
 
       // Cache the jobs
-      this.saveToCache('available', jobs);
+      this.saveToCache('available', jobs, totalCount, truncated);
 
       return {
         success: true,
         jobs,
-        totalCount: jobs.length,
+        totalCount,
         timestamp: Date.now(),
-        message: `Fetched ${jobs.length} available jobs`
+        message: `Fetched ${jobs.length} available jobs`,
+        pagesFetched,
+        truncated
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -283,51 +436,88 @@ class JobsModule {
   }
 
   /**
-   * Parse scheduled jobs from API response
-   * Handles paginated API responses with content array
+   * Date windows the next available-jobs fetch covers, resolved in the configured time zone
    */
-  private parseScheduledJobs(data: any): Job[] {
-    if (!data) return [];
+  public getSearchWindows(now: Date = new Date()): SearchWindow[] {
+    return SearchWindows.resolve(this.searchWindows, now, this.timeZone);
+  }
 
-    // Handle paginated response with content array
-    let jobList = [];
-    if (data.content && Array.isArray(data.content)) {
-      jobList = data.content;
-    } else if (Array.isArray(data)) {
-      jobList = data;
-    } else if (data.jobs && Array.isArray(data.jobs)) {
-      jobList = data.jobs;
-    } else {
-      return [];
+  /**
+   * Fetch the full record of one job
+   * - All schedule days, notes for substitutes, lesson plan availability,
+   *   absent teacher and attachments (see JobNormalizer.normalizeDetails)
+   * - Cached per job ID for detailsCacheTTLSeconds
+   */
+  public async fetchJobDetails(jobId: string, kind: JobType = 'available'): Promise<JobDetailsResult> {
+    const cached = this.cachedDetails.get(jobId);
+    if (cached?.details && Date.now() - cached.details.fetchedAt < this.detailsCacheTTL) {
+      return { success: true, job: cached, fromCache: true, message: 'Loaded from cache' };
     }
 
-    return jobList.map((job: any) => {
-      // Extract job info
-      const id = job.id || job.jobId || '';
-      const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
-      const startDate = job.startDate || '';
-      const endDate = job.endDate || '';
-
-      // Extract first schedule info (if multiple schedules exist)
-      let time = '';
-      let location = '';
-      if (job.schedules && job.schedules.length > 0) {
-        const schedule = job.schedules[0];
-        time = schedule.startTime ? `${schedule.startTime}` : '';
-        location = schedule.building?.title || '';
+    try {
+      const response = await this.httpClient.get(this.endpoints.url('jobDetails', { jobId }), {
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json'
+        },
+        validateStatus: () => true // Don't throw on any status code
+      });
+
+      if (response.status !== 200 || !response.data || typeof response.data !== 'object') {
+        console.warn(`⚠️  Job ${jobId} details: unexpected status code ${response.status}`);
+        return {
+          success: false,
+          job: null,
+          fromCache: false,
+          message: `API returned ${response.status}`,
+          statusCode: response.status
+        };
       }
 
-      return {
-        id,
-        title,
-        date: startDate,
-        time,
-        location,
-        status: job.status || 'scheduled',
-        // Preserve all additional fields
-        ...job
-      };
-    });
+      const job = JobNormalizer.normalizeDetails(response.data, kind, Date.now(), this.timeZone);
+      this.cachedDetails.set(jobId, job);
+      return { success: true, job, fromCache: false, message: `Fetched details for job ${jobId}` };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Failed to fetch details for job ${jobId}:`, errorMessage);
+      return { success: false, job: null, fromCache: false, message: errorMessage };
+    }
+  }
+
+  /**
+   * Replace shortlisted jobs by their full records
+   * - Fetched one at a time; a job whose details fail keeps its summary data
+   */
+  public async withDetails(jobs: Job[], kind: JobType = 'available'): Promise<Job[]> {
+    const detailed: Job[] = [];
+    let fetched = 0;
+    let failed = 0;
+
+    for (const job of jobs) {
+      const result = await this.fetchJobDetails(job.id, kind);
+      if (result.success && result.job) {
+        detailed.push(result.job);
+        if (!result.fromCache) fetched++;
+      } else {
+        detailed.push(job);
+        failed++;
+      }
+    }
+
+    if (jobs.length > 0) {
+      console.log(`📄 Job details: ${jobs.length - failed}/${jobs.length} loaded (${fetched} from API)${failed > 0 ? `, ${failed} kept summary data` : ''}`);
+    }
+    return detailed;
+  }
+
+  /**
+   * Parse scheduled jobs from API response
+   * Handles paginated API responses with content array
+   */
+  private parseScheduledJobs(data: any): Job[] {
+    const jobList = this.extractJobList(data);
+    this.reportShapeIssues(jobList, 'scheduled');
+    return JobNormalizer.normalizeAll(jobList, 'scheduled', this.timeZone);
   }
 
   /**
@@ -335,47 +525,29 @@ class JobsModule {
    * Handles paginated API responses with content array
    */
   private parseAvailableJobs(data: any): Job[] {
-    if (!data) return [];
+    const jobList = this.extractJobList(data);
+    this.reportShapeIssues(jobList, 'available');
+    return JobNormalizer.normalizeAll(jobList, 'available', this.timeZone);
+  }
 
-    // Handle paginated response with content array
-    let jobList = [];
-    if (data.content && Array.isArray(data.content)) {
-      jobList = data.content;
-    } else if (Array.isArray(data)) {
-      jobList = data;
-    } else if (data.jobs && Array.isArray(data.jobs)) {
-      jobList = data.jobs;
-    } else {
-      return [];
+  /**
+   * Log (once per fetch) any missing or unknown fields in the raw jobs
+   */
+  private reportShapeIssues(jobList: any[], jobType: JobType): void {
+    const missing = new Set<string>();
+    const unknown = new Set<string>();
+    for (const raw of jobList) {
+      const validation = JobNormalizer.validate(raw);
+      validation.missing.forEach(field => missing.add(field));
+      validation.unknown.forEach(field => unknown.add(field));
     }
 
-    return jobList.map((job: any) => {
-      // Extract job info
-      const id = job.id || job.jobId || '';
-      const title = job.positionTitle || job.position || job.positionType?.title || job.title || 'Untitled';
-      const startDate = job.startDate || new Date().toISOString().split('T')[0];
-      const endDate = job.endDate || startDate;
-
-      // Extract first schedule info (if multiple schedules exist)
-      let time = '';
-      let location = '';
-      if (job.schedules && job.schedules.length > 0) {
-        const schedule = job.schedules[0];
-        time = schedule.startTime ? `${schedule.startTime}` : '';
-        location = schedule.building?.title || '';
-      }
-
-      return {
-        id,
-        title,
-        date: startDate,
-        time,
-        location,
-        status: job.status || 'available',
-        // Preserve all additional fields
-        ...job
-      };
-    });
+    if (missing.size > 0) {
+      console.warn(`⚠️  Some ${jobType} jobs are missing fields: ${[...missing].join(', ')}`);
+    }
+    if (unknown.size > 0) {
+      console.log(`🔍 Unrecognized ${jobType} job fields (kept on job.raw): ${[...unknown].join(', ')}`);
+    }
   }
 
   /**
@@ -392,10 +564,13 @@ class JobsModule {
     if (jobType) {
       this.cachedJobs.delete(jobType);
       this.cacheTimestamp.delete(jobType);
+      this.cacheTotals.delete(jobType);
       console.log(`🗑️ Cleared ${jobType} jobs cache`);
     } else {
       this.cachedJobs.clear();
       this.cacheTimestamp.clear();
+      this.cacheTotals.clear();
+      this.cachedDetails.clear();
       console.log('🗑️ Cleared all jobs cache');
     }
   }
@@ -421,42 +596,32 @@ class JobsModule {
    * - For testing/verification purposes
    * - Shows that Phase 2b parsing works with actual job data
    */
-  public async fetchAvailableLongTermJobs(bearerToken: string, userId: string, page: number = 0, size: number = 1000): Promise<JobsFetchResult> {
+  public async fetchAvailableLongTermJobs(userId: string, page: number = 0, size: number = this.pageSize): Promise<JobsFetchResult> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = SearchWindows.localDate(new Date(), this.timeZone);
+
+      const url = this.endpoints.url('availableJobs');
 
       console.log('📋 Fetching available long-term jobs (for verification)...');
-      console.log(`   URL: ${this.baseUrl}/api/substitute-jobs/available?longTerm=true&startDate=${today}`);
-
-      const response = await this.axiosInstance.get(
-        `${this.baseUrl}/api/substitute-jobs/available`,
-        {
-          params: {
-            page,
-            size,
-            userId,
-            longTerm: true,
-            startDate: today
-          },
-          headers: {
-            'Authorization': `Bearer ${bearerToken}`,
-            'Accept': 'application/json',
-            'Content-Type': 'application/json'
-          },
-          validateStatus: () => true
-        }
+      console.log(`   URL: ${url} (longTerm=true&startDate=${today})`);
+
+      const response = await this.fetchAllPages(
+        url,
+        { userId, longTerm: true, startDate: today },
+        page,
+        size
       );
 
-      console.log(`   Response Status: ${response.status}`);
+      console.log(`   Response Status: ${response.status} (${response.pagesFetched} page(s))`);
 
       // Log first long-term job's structure for debugging
-      if (response.data?.content?.[0]) {
-        const firstJob = response.data.content[0];
+      if (response.firstPage?.content?.[0]) {
+        const firstJob = response.firstPage.content[0];
         console.log(`   📨 First long-term job keys:`, Object.keys(firstJob).join(', '));
         console.log(`   📨 First long-term job full JSON (1000 chars):`, JSON.stringify(firstJob).substring(0, 1000));
       }
 
-      if (response.status !== 200) {
+      if (!response.success) {
         console.warn(`   ⚠️  Unexpected status code: ${response.status}`);
         return {
           success: false,
@@ -468,15 +633,18 @@ class JobsModule {
         };
       }
 
-      const jobs = this.parseAvailableJobs(response.data);
-      console.log(`   ✓ Retrieved ${jobs.length} long-term available jobs`);
+      const jobs = this.parseAvailableJobs(response.items);
+      const totalCount = response.totalElements ?? jobs.length;
+      console.log(`   ✓ Retrieved ${jobs.length} of ${totalCount} long-term available jobs`);
 
       return {
         success: true,
         jobs,
-        totalCount: jobs.length,
+        totalCount,
         timestamp: Date.now(),
-        message: `Fetched ${jobs.length} long-term available jobs`
+        message: `Fetched ${jobs.length} long-term available jobs`,
+        pagesFetched: response.pagesFetched,
+        truncated: response.truncated
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,142 @@
+import { JobBuilding, SubstituteJob } from './JobNormalizer';
+import AvailabilityRules from './AvailabilityRules';
+import SearchWindows, { DEFAULT_TIME_ZONE } from './SearchWindows';
+
+/**
+ * LeadTime
+ * Checks the time between now and a job's first schedule start
+ *
+ * Rules:
+ * - minMinutes: jobs starting sooner cannot be reached in time (already started jobs never pass)
+ * - maxDays: jobs posted further out are skipped
+ * - lastMinute: a shorter minimum, only when the first day is at one of the listed buildings
+ *   (e.g. close to home); buildings match by ID or part of the name, like JobPreferencesManager
+ *
+ * The first start is the earliest schedule day and start time, read as wall time in the
+ * district time zone; a day without a start time counts from midnight.
+ */
+
+export interface LastMinutePolicy {
+  minMinutes: number; // Shorter minimum lead time allowed at these buildings
+  buildings?: string[]; // e.g. ["Lincoln"] - part of the building name
+  buildingIds?: (string | number)[]; // e.g. [1674]
+}
+
+export interface LeadTimePolicy {
+  minMinutes?: number; // e.g. 90 - at least this long before the first start
+  maxDays?: number; // e.g. 14 - at most this far ahead
+  lastMinute?: LastMinutePolicy;
+}
+
+export interface JobStart {
+  wallTime: string; // Local "YYYY-MM-DDTHH:MM"
+  building: JobBuilding | null; // Building of the first schedule day
+  leadMinutes: number; // From now; negative once started
+}
+
+class LeadTime {
+  /**
+   * Reason the job's lead time breaks the policy, or null when it fits
+   */
+  public static check(
+    job: SubstituteJob,
+    policy: LeadTimePolicy,
+    timeZone: string = DEFAULT_TIME_ZONE,
+    now: Date = new Date()
+  ): string | null {
+    const start = LeadTime.firstStart(job, timeZone, now);
+    if (!start) {
+      return null;
+    }
+
+    const startsAt = start.wallTime.replace('T', ' ');
+    if (start.leadMinutes < 0) {
+      return `Already started ${LeadTime.format(-start.leadMinutes)} ago (${startsAt})`;
+    }
+    const when = `${LeadTime.format(start.leadMinutes)} (${startsAt})`;
+    if (policy.maxDays !== undefined && start.leadMinutes > policy.maxDays * 24 * 60) {
+      return `Starts in ${when}, more than the maximum lead time of ${policy.maxDays} day(s)`;
+    }
+
+    const minMinutes = policy.minMinutes ?? 0;
+    if (start.leadMinutes >= minMinutes) {
+      return null;
+    }
+
+    const lastMinute = policy.lastMinute;
+    if (!lastMinute) {
+      return `Starts in ${when}, less than the minimum lead time of ${minMinutes} min`;
+    }
+    const buildingName = start.building?.title || start.building?.id || 'unknown building';
+    if (!LeadTime.isLastMinuteBuilding(start.building, lastMinute)) {
+      return `Starts in ${when}, less than the minimum lead time of ${minMinutes} min (last-minute jobs only at ${LeadTime.describeBuildings(lastMinute)}, not ${buildingName})`;
+    }
+    if (start.leadMinutes < lastMinute.minMinutes) {
+      return `Starts in ${when}, less than the last-minute minimum of ${lastMinute.minMinutes} min at ${buildingName}`;
+    }
+    return null;
+  }
+
+  /**
+   * Earliest schedule start of a job, or null when it has no usable date
+   */
+  public static firstStart(job: SubstituteJob, timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): JobStart | null {
+    const zone = SearchWindows.isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+    let first: { wallTime: string; building: JobBuilding | null } | null = null;
+
+    for (const { date, schedule } of AvailabilityRules.scheduleDays(job)) {
+      if (!SearchWindows.isValidDate(date)) continue;
+      const minutes = AvailabilityRules.parseTime(schedule?.startTime || '') ?? 0;
+      const clock = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+      const wallTime = `${date}T${clock}`;
+      if (!first || wallTime < first.wallTime) {
+        first = { wallTime, building: schedule?.building || job.building };
+      }
+    }
+    if (!first) {
+      return null;
+    }
+
+    const leadMinutes = Math.floor((SearchWindows.toInstant(first.wallTime, zone).getTime() - now.getTime()) / 60000);
+    return { ...first, leadMinutes };
+  }
+
+  /**
+   * Short description of a policy, e.g. "at least 90 min, at most 14 day(s); 30 min at Lincoln"
+   */
+  public static describe(policy: LeadTimePolicy): string {
+    const parts: string[] = [];
+    if (policy.minMinutes !== undefined) parts.push(`at least ${policy.minMinutes} min`);
+    if (policy.maxDays !== undefined) parts.push(`at most ${policy.maxDays} day(s)`);
+    const base = parts.length > 0 ? parts.join(', ') : 'any';
+    return policy.lastMinute
+      ? `${base}; ${policy.lastMinute.minMinutes} min at ${LeadTime.describeBuildings(policy.lastMinute)}`
+      : base;
+  }
+
+  private static isLastMinuteBuilding(building: JobBuilding | null, lastMinute: LastMinutePolicy): boolean {
+    if (!building) {
+      return false;
+    }
+    const byId = building.id !== null && (lastMinute.buildingIds || []).some(id => String(id) === String(building.id));
+    const byName = building.title !== '' && (lastMinute.buildings || []).some(name =>
+      building.title.toLowerCase().includes(name.toLowerCase()));
+    return byId || byName;
+  }
+
+  private static describeBuildings(lastMinute: LastMinutePolicy): string {
+    const buildings = [...(lastMinute.buildings || []), ...(lastMinute.buildingIds || []).map(id => `#${id}`)];
+    return buildings.length > 0 ? buildings.join(', ') : 'no buildings';
+  }
+
+  /**
+   * "45 min", "5.5 h" or "3.2 days"
+   */
+  private static format(minutes: number): string {
+    if (minutes < 120) return `${minutes} min`;
+    if (minutes < 48 * 60) return `${Math.round(minutes / 6) / 10} h`;
+    return `${Math.round(minutes / 144) / 10} days`;
+  }
+}
+
+export default LeadTime;
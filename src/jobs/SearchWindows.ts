@@ -0,0 +1,200 @@
+import { SubstituteJob } from './JobNormalizer';
+
+/**
+ * SearchWindows
+ * Works out which date ranges the available-jobs search covers
+ *
+ * Features:
+ * - "Today" is the calendar date in the configured time zone, not UTC
+ *   (toISOString() rolls over to tomorrow in the evening in Chicago)
+ * - Windows of today plus the next N school days (Monday-Friday)
+ * - Explicit date ranges; past ranges are dropped, ranges that started earlier are clipped to today
+ * - Date math on plain YYYY-MM-DD strings, so DST changes cannot shift a day
+ */
+
+export interface SearchWindowDefinition {
+  schoolDaysAhead?: number; // Today plus the next N school days (Mon-Fri)
+  startDate?: string; // Explicit range start (YYYY-MM-DD), used when schoolDaysAhead is not set
+  endDate?: string; // Explicit range end (default: startDate)
+}
+
+export interface SearchWindow {
+  label: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // null: open-ended, whatever the API returns from startDate on
+}
+
+export const DEFAULT_TIME_ZONE = 'America/Chicago';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class SearchWindows {
+  /**
+   * Resolve the configured windows against the current date
+   * - No windows configured: today only, open-ended (the original behavior)
+   * - Invalid or past windows are skipped; if none are left, falls back to today
+   */
+  public static resolve(
+    definitions: SearchWindowDefinition[] | undefined,
+    now: Date = new Date(),
+    timeZone: string = DEFAULT_TIME_ZONE
+  ): SearchWindow[] {
+    const today = SearchWindows.localDate(now, timeZone);
+    const fallback: SearchWindow[] = [{ label: 'today', startDate: today, endDate: null }];
+    if (!definitions || definitions.length === 0) {
+      return fallback;
+    }
+
+    const windows: SearchWindow[] = [];
+    for (const definition of definitions) {
+      const window = SearchWindows.resolveOne(definition, today);
+      if (window) {
+        windows.push(window);
+      }
+    }
+
+    if (windows.length === 0) {
+      console.warn('⚠️  No usable job search windows (all invalid or in the past) - searching today only');
+      return fallback;
+    }
+    return windows;
+  }
+
+  private static resolveOne(definition: SearchWindowDefinition, today: string): SearchWindow | null {
+    if (definition.schoolDaysAhead !== undefined) {
+      const days = Math.floor(definition.schoolDaysAhead);
+      if (!(days >= 0)) {
+        console.warn(`⚠️  Ignoring job search window with schoolDaysAhead=${definition.schoolDaysAhead}`);
+        return null;
+      }
+      return {
+        label: `today + ${days} school day(s)`,
+        startDate: today,
+        endDate: SearchWindows.addSchoolDays(today, days)
+      };
+    }
+
+    const startDate = definition.startDate;
+    const endDate = definition.endDate || startDate;
+    if (!startDate || !SearchWindows.isValidDate(startDate) || !endDate || !SearchWindows.isValidDate(endDate) || endDate < startDate) {
+      console.warn(`⚠️  Ignoring job search window with invalid dates: ${startDate || '?'} to ${endDate || '?'}`);
+      return null;
+    }
+    if (endDate < today) {
+      console.log(`   Skipping past job search window ${startDate} to ${endDate}`);
+      return null;
+    }
+
+    const clippedStart = startDate < today ? today : startDate;
+    return { label: `${clippedStart} to ${endDate}`, startDate: clippedStart, endDate };
+  }
+
+  /**
+   * Calendar date (YYYY-MM-DD) of an instant in a time zone
+   */
+  public static localDate(now: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  }
+
+  /**
+   * Local "YYYY-MM-DDTHH:MM" of an instant in a time zone
+   */
+  public static wallTime(instant: Date, timeZone: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).formatToParts(instant);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    return `${part('year')}-${part('month')}-${part('day')}T${part('hour')}:${part('minute')}`;
+  }
+
+  /**
+   * Instant of a local "YYYY-MM-DDTHH:MM" in a time zone
+   * - The zone offset is looked up twice, so times next to a DST change land on the right side
+   */
+  public static toInstant(wallTime: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
+    const target = Date.parse(`${wallTime}:00Z`);
+    let instant = target;
+    for (let pass = 0; pass < 2; pass++) {
+      instant += target - Date.parse(`${SearchWindows.wallTime(new Date(instant), timeZone)}:00Z`);
+    }
+    return new Date(instant);
+  }
+
+  /**
+   * Check that a time zone name is known to the runtime
+   */
+  public static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public static isValidDate(date: string): boolean {
+    if (!DATE_PATTERN.test(date)) {
+      return false;
+    }
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+  }
+
+  public static addDays(date: string, days: number): string {
+    const time = Date.parse(`${date}T00:00:00Z`) + days * DAY_MS;
+    return new Date(time).toISOString().split('T')[0];
+  }
+
+  /**
+   * Monday to Friday
+   */
+  public static isSchoolDay(date: string): boolean {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return weekday !== 0 && weekday !== 6;
+  }
+
+  /**
+   * The date N school days after the given date (the date itself when N is 0)
+   */
+  public static addSchoolDays(date: string, schoolDays: number): string {
+    let current = date;
+    let remaining = schoolDays;
+    while (remaining > 0) {
+      current = SearchWindows.addDays(current, 1);
+      if (SearchWindows.isSchoolDay(current)) {
+        remaining--;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Check whether a job's dates overlap a window
+   * - Guards against the API ignoring endDate; open-ended windows keep everything it returned
+   * - Jobs without a start date are kept; the API listed them for this window
+   */
+  public static overlaps(job: SubstituteJob, window: SearchWindow): boolean {
+    if (window.endDate === null || !job.startDate) {
+      return true;
+    }
+    const jobStart = job.startDate.substring(0, 10);
+    const jobEnd = (job.endDate || job.startDate).substring(0, 10);
+    return jobEnd >= window.startDate && jobStart <= window.endDate;
+  }
+}
+
+export default SearchWindows;
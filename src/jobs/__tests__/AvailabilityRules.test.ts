@@ -0,0 +1,114 @@
+import JobNormalizer, { SubstituteJob } from '../JobNormalizer';
+import JobPreferencesManager from '../JobPreferencesManager';
+import AvailabilityRules, { AvailabilityRule } from '../AvailabilityRules';
+
+/**
+ * Tests for AvailabilityRules
+ *
+ * Covers:
+ * - Every schedule entry is checked, not only the first one
+ * - Times, schedule types and days without a rule, named in the reason
+ * - Undated schedules and jobs without schedules
+ * - Day names, abbreviations and ranges; rule validation
+ */
+
+describe('AvailabilityRules', () => {
+  // "Mon/Wed/Fri 7:30-15:30, Tue half days only"
+  const rules: AvailabilityRule[] = [
+    { days: ['mon', 'wed', 'fri'], from: '07:30', until: '15:30' },
+    { days: ['Tuesday'], scheduleTypes: ['HALF_DAY'] }
+  ];
+
+  const schedule = (date: string | null, startTime: string, endTime: string, scheduleType = 'FULL_DAY') =>
+    ({ date, startTime, endTime, scheduleType, building: { id: 1, title: 'Lincoln' } });
+
+  const makeJob = (schedules: unknown[], startDate = '2024-03-04', endDate = startDate): SubstituteJob =>
+    JobNormalizer.normalize({ id: 1, positionType: { title: 'Teacher' }, startDate, endDate, schedules }, 'available');
+
+  it('should pass a job whose every schedule day fits a rule', () => {
+    const job = makeJob([
+      schedule('2024-03-04', '07:45', '15:15'),
+      schedule('2024-03-05', '08:00', '12:00', 'HALF_DAY'),
+      schedule('2024-03-06', '07:30', '15:30')
+    ], '2024-03-04', '2024-03-06');
+
+    expect(AvailabilityRules.check(job, rules)).toBeNull();
+  });
+
+  it('should name the schedule day that starts too early or ends too late', () => {
+    const job = makeJob([
+      schedule('2024-03-04', '07:45', '15:15'),
+      schedule('2024-03-06', '07:45', '16:00')
+    ], '2024-03-04', '2024-03-06');
+
+    expect(AvailabilityRules.check(job, rules)).toBe('Wednesday 2024-03-06: ends 07:45-16:00, after 15:30');
+    expect(AvailabilityRules.check(makeJob([schedule('2024-03-08', '7:00 AM', '2:00 PM')]), rules))
+      .toBe('Friday 2024-03-08: starts 7:00 AM-2:00 PM, before 07:30');
+  });
+
+  it('should reject schedule types the day does not allow', () => {
+    const job = makeJob([schedule('2024-03-05', '08:00', '15:00')]);
+
+    expect(AvailabilityRules.check(job, rules)).toBe('Tuesday 2024-03-05: FULL_DAY not allowed (only HALF_DAY)');
+  });
+
+  it('should reject days without a rule', () => {
+    const job = makeJob([schedule('2024-03-07', '08:00', '12:00')]);
+
+    expect(AvailabilityRules.check(job, rules)).toBe('Not available on Thursdays (2024-03-07)');
+  });
+
+  it('should pass when any rule for the day fits', () => {
+    const job = makeJob([schedule('2024-03-05', '12:30', '16:00')]);
+    const withAfternoons = [...rules, { days: ['tue'], from: '12:00' }];
+
+    expect(AvailabilityRules.check(job, withAfternoons)).toBeNull();
+  });
+
+  it('should apply undated schedules to each school day of the job', () => {
+    const job = makeJob([schedule(null, '08:00', '15:00')], '2024-03-08', '2024-03-12');
+
+    expect(AvailabilityRules.check(job, rules)).toBe('Tuesday 2024-03-12: FULL_DAY not allowed (only HALF_DAY)');
+    expect(AvailabilityRules.check(job, [{ days: ['mon-fri'] }])).toBeNull();
+  });
+
+  it('should check the days of a job without schedules', () => {
+    const job = makeJob([], '2024-03-04', '2024-03-07');
+
+    expect(AvailabilityRules.check(job, [{ days: ['mon-wed'] }])).toBe('Not available on Thursdays (2024-03-07)');
+  });
+
+  it('should report problems in the rules', () => {
+    expect(AvailabilityRules.validate([
+      { days: ['mon', 'funday'], from: '25:00' },
+      { days: [], until: '3:30 PM' }
+    ])).toEqual([
+      'rule 1: unknown day "funday"',
+      'rule 1: unreadable time "25:00"',
+      'rule 2: no days'
+    ]);
+  });
+
+  it('should describe rules', () => {
+    expect(AvailabilityRules.describe(rules[0])).toBe('monday, wednesday, friday 07:30-15:30');
+    expect(AvailabilityRules.describe(rules[1])).toBe('tuesday any time (HALF_DAY)');
+    expect(AvailabilityRules.describe({ days: ['fri-mon'] })).toBe('friday, saturday, sunday, monday any time');
+  });
+
+  describe('in JobPreferencesManager', () => {
+    it('should filter jobs outside availability with the reason', () => {
+      const manager = new JobPreferencesManager({ availability: rules });
+      const fits = makeJob([schedule('2024-03-04', '08:00', '15:00')]);
+      const tooLate = makeJob([
+        schedule('2024-03-04', '08:00', '15:00'),
+        schedule('2024-03-08', '08:00', '17:00')
+      ], '2024-03-04', '2024-03-08');
+
+      const result = manager.filterJobs([fits, tooLate]);
+
+      expect(result.passed).toEqual([fits]);
+      expect(result.filtered[0].reason).toBe('Outside availability: Friday 2024-03-08: ends 08:00-17:00, after 15:30');
+      expect(manager.getSummary()).toContain('✓ Available: monday, wednesday, friday 07:30-15:30; tuesday any time (HALF_DAY)');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JobNormalizer, { SubstituteJob } from '../JobNormalizer';
+import JobPreferencesManager from '../JobPreferencesManager';
+import BlackoutCalendar from '../BlackoutCalendar';
+
+/**
+ * Tests for BlackoutCalendar
+ *
+ * Covers:
+ * - Blackout ranges from config (whole days and hours)
+ * - .ics import: all-day, UTC / TZID / floating times, DURATION, RRULE, EXDATE,
+ *   cancelled and free events, unknown time zones
+ * - Overlap checks on every schedule day, with the event named in the reason
+ */
+
+describe('BlackoutCalendar', () => {
+  const now = new Date('2024-03-01T15:00:00Z');
+  const timeZone = 'America/Chicago';
+
+  const makeJob = (schedules: Array<[string, string, string]>, startDate = schedules[0][0], endDate = startDate): SubstituteJob =>
+    JobNormalizer.normalize({
+      id: 1,
+      positionType: { title: 'Teacher' },
+      startDate,
+      endDate,
+      schedules: schedules.map(([date, startTime, endTime]) => ({ date, startTime, endTime, building: { id: 1, title: 'Lincoln' } }))
+    }, 'available');
+
+  const ics = (...events: string[]) => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(event => ['BEGIN:VEVENT', ...event.split('\n'), 'END:VEVENT']),
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+  describe('fromRanges', () => {
+    it('should block whole days, or only the configured hours', () => {
+      const { periods, problems } = BlackoutCalendar.fromRanges([
+        { name: 'Spring vacation', startDate: '2024-03-18', endDate: '2024-03-22' },
+        { name: 'Dentist', startDate: '2024-03-05', from: '10:00', until: '11:30' }
+      ]);
+
+      expect(problems).toEqual([]);
+      expect(periods.map(period => BlackoutCalendar.describe(period))).toEqual(['2024-03-18 to 2024-03-22', '2024-03-05 10:00-11:30']);
+      expect(BlackoutCalendar.check(makeJob([['2024-03-20', '08:00', '15:00']]), periods))
+        .toBe('Blackout "Spring vacation" (2024-03-18 to 2024-03-22) overlaps 2024-03-20 08:00-15:00');
+      expect(BlackoutCalendar.check(makeJob([['2024-03-05', '11:30', '15:00']]), periods)).toBeNull();
+      expect(BlackoutCalendar.check(makeJob([['2024-03-05', '08:00', '10:30']]), periods)).toContain('"Dentist"');
+    });
+
+    it('should report unusable ranges', () => {
+      const { success, periods, problems } = BlackoutCalendar.fromRanges([
+        { name: 'Backwards', startDate: '2024-03-10', endDate: '2024-03-01' },
+        { startDate: '2024-03-05', from: '12:00', until: '09:00' }
+      ]);
+
+      expect(success).toBe(false);
+      expect(periods).toEqual([]);
+      expect(problems).toEqual(['"Backwards": invalid dates 2024-03-10 to 2024-03-01', '"Blackout 2": invalid hours 12:00-09:00']);
+    });
+  });
+
+  describe('parseIcs', () => {
+    it('should read all-day, UTC, TZID and floating events in the jobs time zone', () => {
+      const { periods, problems } = BlackoutCalendar.parseIcs(ics(
+        'SUMMARY:Family trip\nDTSTART;VALUE=DATE:20240311\nDTEND;VALUE=DATE:20240313',
+        'SUMMARY:Doctor\\, annual\nDTSTART:20240305T150000Z\nDTEND:20240305T160000Z',
+        'SUMMARY:Call\nDTSTART;TZID=America/New_York:20240306T090000\nDURATION:PT30M',
+        'SUMMARY:Lunch\nDTSTART:20240307T120000\nDTEND:20240307T130000'
+      ), timeZone, now);
+
+      expect(problems).toEqual([]);
+      expect(periods.map(period => [period.name, BlackoutCalendar.describe(period)])).toEqual([
+        ['Doctor, annual', '2024-03-05 09:00-10:00'],
+        ['Call', '2024-03-06 08:00-08:30'],
+        ['Lunch', '2024-03-07 12:00-13:00'],
+        ['Family trip', '2024-03-11 to 2024-03-12']
+      ]);
+    });
+
+    it('should expand weekly recurrences with BYDAY, COUNT and EXDATE', () => {
+      const { periods } = BlackoutCalendar.parseIcs(ics(
+        'SUMMARY:Yoga\nDTSTART:20240304T140000\nDTEND:20240304T150000\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5\nEXDATE:20240306T140000'
+      ), timeZone, now);
+
+      expect(periods.map(period => period.start)).toEqual([
+        '2024-03-04T14:00', '2024-03-11T14:00', '2024-03-13T14:00', '2024-03-18T14:00'
+      ]);
+    });
+
+    it('should expand recurrences from the past up to UNTIL, keeping only current ones', () => {
+      const { periods } = BlackoutCalendar.parseIcs(ics(
+        'SUMMARY:Board meeting\nDTSTART:20240101T180000\nDTEND:20240101T200000\nRRULE:FREQ=MONTHLY;UNTIL=20240601T000000Z',
+        'SUMMARY:Every other day\nDTSTART;VALUE=DATE:20240228\nRRULE:FREQ=DAILY;INTERVAL=2;COUNT=3'
+      ), timeZone, now);
+
+      expect(periods.map(period => `${period.name} ${BlackoutCalendar.describe(period)}`)).toEqual([
+        'Every other day 2024-03-01',
+        'Board meeting 2024-03-01 18:00-20:00',
+        'Every other day 2024-03-03',
+        'Board meeting 2024-04-01 18:00-20:00',
+        'Board meeting 2024-05-01 18:00-20:00'
+      ]);
+    });
+
+    it('should skip cancelled and free events and report unreadable ones', () => {
+      const { success, periods, problems } = BlackoutCalendar.parseIcs(ics(
+        'SUMMARY:Cancelled\nSTATUS:CANCELLED\nDTSTART;VALUE=DATE:20240305',
+        'SUMMARY:Reminder\nTRANSP:TRANSPARENT\nDTSTART;VALUE=DATE:20240305',
+        'SUMMARY:Broken\nDTSTART:tomorrow',
+        'SUMMARY:Ordinal\nDTSTART;VALUE=DATE:20240312\nRRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=2'
+      ), timeZone, now);
+
+      expect(success).toBe(false);
+      expect(periods.map(period => period.name)).toEqual(['Ordinal', 'Ordinal']);
+      expect(problems).toEqual(['"Broken": missing or unreadable DTSTART', '"Ordinal": ignoring BYDAY in recurrence']);
+    });
+
+    it('should report events in a time zone that is not an IANA name instead of guessing', () => {
+      const { success, periods, problems } = BlackoutCalendar.parseIcs(ics(
+        'SUMMARY:Standup\nDTSTART;TZID=Eastern Standard Time:20240305T090000\nDTEND;TZID=Eastern Standard Time:20240305T093000',
+        'SUMMARY:Gym\nDTSTART:20240304T170000\nDTEND:20240304T180000\nRRULE:FREQ=WEEKLY;COUNT=2\nEXDATE;TZID=Central Europe:20240311T170000'
+      ), timeZone, now);
+
+      expect(success).toBe(false);
+      expect(periods.map(period => period.start)).toEqual(['2024-03-04T17:00', '2024-03-11T17:00']);
+      expect(problems).toEqual([
+        '"Standup": unknown time zone "Eastern Standard Time", expected an IANA name such as America/Chicago',
+        '"Gym": ignoring EXDATE in unknown time zone "Central Europe"'
+      ]);
+    });
+
+    it('should expand a recurrence that started decades ago from today', () => {
+      const { periods } = BlackoutCalendar.parseIcs(ics(
+        'SUMMARY:School run\nDTSTART:19900105T073000\nDTEND:19900105T080000\nRRULE:FREQ=DAILY;INTERVAL=2',
+        'SUMMARY:Night shift\nDTSTART:19900101T220000\nDTEND:19900102T060000\nRRULE:FREQ=DAILY'
+      ), timeZone, now);
+
+      expect(periods.slice(0, 3).map(period => `${period.name} ${BlackoutCalendar.describe(period)}`)).toEqual([
+        'Night shift 2024-02-29 22:00 to 2024-03-01 06:00',
+        'School run 2024-03-01 07:30-08:00',
+        'Night shift 2024-03-01 22:00 to 2024-03-02 06:00'
+      ]);
+    });
+  });
+
+  describe('loadIcsFile', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'willsub-calendar-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should import a calendar file and report a missing one', () => {
+      const file = path.join(tempDir, 'calendar.ics');
+      fs.writeFileSync(file, ics('SUMMARY:Appointment\nDTSTART:20240305T100000\nDTEND:20240305T110000'));
+
+      const imported = BlackoutCalendar.loadIcsFile(file, timeZone, now);
+      const missing = BlackoutCalendar.loadIcsFile(path.join(tempDir, 'missing.ics'), timeZone, now);
+
+      expect(imported).toMatchObject({ success: true, message: `Imported 1 busy period(s) from ${file}` });
+      expect(missing.success).toBe(false);
+      expect(missing.message).toContain('Cannot read calendar');
+    });
+  });
+
+  describe('in JobPreferencesManager', () => {
+    it('should reject a job when any schedule day overlaps an event', () => {
+      const { periods } = BlackoutCalendar.parseIcs(ics('SUMMARY:Parent-teacher conference\nDTSTART:20240306T143000\nDTEND:20240306T153000'), timeZone, now);
+      const manager = new JobPreferencesManager({ blackouts: periods });
+      const job = makeJob([['2024-03-05', '08:00', '15:00'], ['2024-03-06', '08:00', '15:00']], '2024-03-05', '2024-03-06');
+
+      expect(manager.filterJob(job)).toEqual({
+        passed: false,
+        reason: 'Blackout "Parent-teacher conference" (2024-03-06 14:30-15:30) overlaps 2024-03-06 08:00-15:00'
+      });
+      expect(manager.filterJob(makeJob([['2024-03-06', '08:00', '14:30']])).passed).toBe(true);
+      expect(manager.getSummary()).toContain('✗ Blackouts: 1 period(s) - Parent-teacher conference');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { AxiosResponse } from 'axios';
+import EndpointRegistry from '../../http/EndpointRegistry';
+import { HttpRequester } from '../../http/ResilientHttpClient';
+import JobNormalizer, { SubstituteJob } from '../JobNormalizer';
+import JobApplicationModule from '../JobApplicationModule';
+import { JobScore } from '../JobScorer';
+
+/**
+ * Tests for JobApplicationModule batch limits
+ *
+ * Covers:
+ * - Best-scored jobs are tried first
+ * - Jobs below the minimum score are skipped
+ * - maxApplications counts accepted and dry-run picks, not failed accepts
+ */
+
+describe('JobApplicationModule', () => {
+  const userId = '4242';
+  let httpClient: jest.Mocked<HttpRequester>;
+  let module: JobApplicationModule;
+
+  const makeJob = (id: number, title: string): SubstituteJob =>
+    JobNormalizer.normalize({ id, positionType: { title }, startDate: '2024-03-04' }, 'available');
+
+  const jobs = [makeJob(1, 'Art Teacher'), makeJob(2, 'Math Teacher'), makeJob(3, 'Science Teacher')];
+  const scores: JobScore[] = [
+    { job: jobs[1], score: 90, breakdown: [] },
+    { job: jobs[2], score: 70, breakdown: [] },
+    { job: jobs[0], score: 40, breakdown: [] }
+  ];
+
+  const response = (status: number): AxiosResponse =>
+    ({ status, statusText: '', headers: {}, config: {}, data: '' } as AxiosResponse);
+
+  beforeEach(() => {
+    httpClient = { get: jest.fn(), post: jest.fn().mockResolvedValue(response(204)) };
+    module = new JobApplicationModule(new EndpointRegistry(), httpClient);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply in the given order without limits', async () => {
+    const result = await module.applyToJobs(jobs, userId, false);
+
+    expect(result.successful).toBe(3);
+    expect(result.results.map(entry => entry.jobId)).toEqual(['1', '2', '3']);
+    expect(result.results[0].score).toBeUndefined();
+  });
+
+  it('should apply to the best-scored jobs first and skip those below the minimum', async () => {
+    const result = await module.applyToJobs(jobs, userId, false, { scores, minScore: 60 });
+
+    expect(result.results.map(entry => [entry.jobId, entry.status, entry.score])).toEqual([
+      ['2', 'success', 90],
+      ['3', 'success', 70],
+      ['1', 'skipped', 40]
+    ]);
+    expect(result.results[2].message).toContain('below the minimum of 60');
+    expect(httpClient.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not let a failed accept use up the limit', async () => {
+    httpClient.post
+      .mockResolvedValueOnce(response(409))
+      .mockResolvedValue(response(204));
+
+    const result = await module.applyToJobs(jobs, userId, false, { scores, maxApplications: 1 });
+
+    expect(result.results.map(entry => [entry.jobId, entry.status])).toEqual([
+      ['2', 'failed'],
+      ['3', 'success'],
+      ['1', 'skipped']
+    ]);
+    expect(result.results[2].message).toContain('limit of 1 application(s) per run reached');
+  });
+
+  it('should count dry-run picks towards the limit', async () => {
+    const result = await module.applyToJobs(jobs, userId, true, { scores, maxApplications: 2 });
+
+    expect(result.results.map(entry => entry.message)).toEqual([
+      '[DRY RUN] Would accept Math Teacher at N/A',
+      '[DRY RUN] Would accept Science Teacher at N/A',
+      'Art Teacher: limit of 2 application(s) per run reached'
+    ]);
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+
+  it('should skip unscored jobs when a minimum score is set', async () => {
+    const result = await module.applyToJobs(jobs, userId, false, { minScore: 10 });
+
+    expect(result.skipped).toBe(3);
+    expect(result.results[0].message).toContain('score n/a');
+  });
+});
@@ -0,0 +1,176 @@
+import JobNormalizer, { SubstituteJob } from '../JobNormalizer';
+import JobPreferencesManager from '../JobPreferencesManager';
+import JobFilterRules, { FilterRule } from '../JobFilterRules';
+
+/**
+ * Tests for JobFilterRules
+ *
+ * Covers:
+ * - all / any / not groups and the clause that decided the outcome
+ * - Equality, in-list, contains, regex, numeric, date and time comparisons
+ * - Per-schedule fields matching within one schedule day
+ * - Validation of rules
+ * - Evaluation through JobPreferencesManager.filterJob
+ */
+
+describe('JobFilterRules', () => {
+  const makeJob = (overrides: Record<string, unknown> = {}): SubstituteJob => JobNormalizer.normalize({
+    id: 1,
+    positionType: { id: 3, title: 'Teacher - Math' },
+    startDate: '2024-03-04',
+    endDate: '2024-03-05',
+    schedules: [
+      { date: '2024-03-04', startTime: '08:00', endTime: '15:00', scheduleType: 'FULL_DAY', building: { id: 1674, title: 'North High' } },
+      { date: '2024-03-05', startTime: '08:00', endTime: '11:30', scheduleType: 'HALF_DAY', building: { id: 1709, title: 'South Middle' } }
+    ],
+    ...overrides
+  }, 'available');
+
+  // "Teacher at building 1674 OR any FULL_DAY at 1709, but never Para"
+  const rule: FilterRule = {
+    all: [
+      { not: { field: 'positionType', contains: 'Para' }, label: 'never Para' },
+      {
+        any: [
+          { all: [{ field: 'positionType', contains: 'Teacher' }, { field: 'buildingId', equals: 1674 }] },
+          { all: [{ field: 'scheduleType', equals: 'FULL_DAY' }, { field: 'buildingId', equals: 1709 }] }
+        ]
+      }
+    ]
+  };
+
+  it('should match and trace the clauses that decided', () => {
+    const result = JobFilterRules.evaluate(rule, makeJob());
+
+    expect(result.matched).toBe(true);
+    expect(result.trace).toEqual([
+      '✓ all (on 2024-03-04)',
+      '  ✓ not "never Para"',
+      '    ✗ positionType contains Para (was "Teacher - Math")',
+      '  ✓ any',
+      '    ✓ all',
+      '      ✓ positionType contains Teacher (was "Teacher - Math")',
+      '      ✓ buildingId = 1674 (was 1674)'
+    ]);
+  });
+
+  it('should name the first failing clause of all', () => {
+    const result = JobFilterRules.evaluate(rule, makeJob({ positionType: { title: 'Paraprofessional' } }));
+
+    expect(result.matched).toBe(false);
+    expect(result.reason).toBe('never Para: not positionType contains Para (was "Paraprofessional")');
+    expect(result.trace).toEqual([
+      '✗ all',
+      '  ✗ not "never Para"',
+      '    ✓ positionType contains Para (was "Paraprofessional")'
+    ]);
+  });
+
+  it('should list every branch when no branch of any matches', () => {
+    const job = makeJob({
+      positionType: { title: 'Librarian' },
+      schedules: [{ date: '2024-03-04', scheduleType: 'HALF_DAY', building: { id: 1709, title: 'South Middle' } }]
+    });
+
+    const result = JobFilterRules.evaluate(rule, job);
+
+    expect(result.matched).toBe(false);
+    expect(result.reason).toBe('any(all(positionType contains Teacher, buildingId = 1674), all(scheduleType = FULL_DAY, buildingId = 1709))');
+    expect(result.trace).toEqual([
+      '✗ all',
+      '  ✗ any',
+      '    ✗ all',
+      '      ✗ positionType contains Teacher (was "Librarian")',
+      '    ✗ all',
+      '      ✗ scheduleType = FULL_DAY (was "HALF_DAY")'
+    ]);
+  });
+
+  it('should require per-schedule clauses of all to hold on the same day', () => {
+    const sameDay: FilterRule = { all: [{ field: 'scheduleType', equals: 'FULL_DAY' }, { field: 'buildingId', equals: 1709 }] };
+
+    const result = JobFilterRules.evaluate(sameDay, makeJob());
+
+    expect(result.matched).toBe(false);
+    expect(result.reason).toBe('no single schedule day matches all(scheduleType = FULL_DAY, buildingId = 1709)');
+    expect(result.trace).toEqual([
+      '✗ all (no single schedule day)',
+      '  ✗ all (on 2024-03-04)',
+      '    ✗ buildingId = 1709 (was 1674)',
+      '  ✗ all (on 2024-03-05)',
+      '    ✗ scheduleType = FULL_DAY (was "HALF_DAY")'
+    ]);
+    expect(JobFilterRules.evaluate(rule, makeJob({ positionType: { title: 'Librarian' } })).matched).toBe(false);
+    expect(JobFilterRules.evaluate(sameDay, makeJob({
+      schedules: [{ date: '2024-03-05', scheduleType: 'FULL_DAY', building: { id: 1709, title: 'South Middle' } }]
+    })).matched).toBe(true);
+  });
+
+  it('should compare typed fields', () => {
+    const job = makeJob({ longTerm: true });
+    const matches = (condition: FilterRule) => JobFilterRules.evaluate(condition, job).matched;
+
+    expect(matches({ field: 'scheduleType', in: ['half_day', 'PARTIAL'] })).toBe(true);
+    expect(matches({ field: 'title', matches: '^teacher\\s-\\s(math|science)$' })).toBe(true);
+    expect(matches({ field: 'building', equals: 'north high' })).toBe(true);
+    expect(matches({ field: 'days', gte: 2 })).toBe(true);
+    expect(matches({ field: 'days', gt: 2 })).toBe(false);
+    expect(matches({ field: 'startDate', lt: '2024-03-05' })).toBe(true);
+    expect(matches({ field: 'endDate', gte: '2024-03-06' })).toBe(false);
+    expect(matches({ field: 'endTime', lte: '12:00' })).toBe(true);
+    expect(matches({ field: 'startTime', lt: '7:30 AM' })).toBe(false);
+    expect(matches({ field: 'weekday', equals: 'Tuesday' })).toBe(true);
+    expect(matches({ field: 'longTerm', equals: true })).toBe(true);
+    expect(matches({ not: { field: 'lessonPlan', equals: false } })).toBe(true);
+  });
+
+  it('should treat an empty all as matching and an empty any as not', () => {
+    expect(JobFilterRules.evaluate({ all: [] }, makeJob()).matched).toBe(true);
+    expect(JobFilterRules.evaluate({ any: [] }, makeJob()).matched).toBe(false);
+  });
+
+  it('should report problems in a rule', () => {
+    const problems = JobFilterRules.validate({
+      any: [
+        { field: 'salary', gt: 100 } as unknown as FilterRule,
+        { field: 'title', equals: 'A', contains: 'B' },
+        { field: 'title', matches: '(' },
+        { field: 'title', gt: 'A' },
+        { not: { field: 'startDate', gte: 'next week' } },
+        { all: 'title' } as unknown as FilterRule
+      ]
+    });
+
+    expect(problems).toEqual([
+      'rule.any[0]: unknown field "salary"',
+      'rule.any[1]: needs exactly one of equals, in, contains, matches, gt, gte, lt, lte',
+      'rule.any[2]: invalid regex (',
+      'rule.any[3]: gt does not apply to text field "title"',
+      'rule.any[4].not: "next week" is not a date',
+      'rule.any[5].all: must be a list'
+    ]);
+    expect(JobFilterRules.validate(rule)).toEqual([]);
+  });
+
+  describe('in JobPreferencesManager', () => {
+    it('should reject with the deciding clause and keep the trace', () => {
+      const manager = new JobPreferencesManager({ rule });
+
+      const result = manager.filterJobs([makeJob(), makeJob({ id: 2, positionType: { title: 'Para Aide' } })]);
+
+      expect(result.passed.map(job => job.id)).toEqual(['1']);
+      expect(result.filtered[0].reason).toBe('Rule not matched: never Para: not positionType contains Para (was "Para Aide")');
+      expect(result.filtered[0].trace?.[0]).toBe('✗ all');
+      expect(manager.getSummary()).toContain('✓ Rule: all(never Para, any(');
+    });
+
+    it('should still apply the fixed filters to jobs the rule accepts', () => {
+      const manager = new JobPreferencesManager({ rule, includeLongTerm: false });
+
+      const result = manager.filterJob(makeJob({ longTerm: true }));
+
+      expect(result).toMatchObject({ passed: false, reason: 'Long-term jobs are excluded from your preferences' });
+      expect(result.trace?.[0]).toBe('✓ all (on 2024-03-04)');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import JobNormalizer from '../JobNormalizer';
+import SearchWindows from '../SearchWindows';
+
+/**
+ * Tests for JobNormalizer
+ *
+ * Covers:
+ * - Title and building fallbacks resolved in one place
+ * - Typed schedules, position type and absent employee
+ * - Date and status defaults per job kind
+ * - Buildings across schedule days
+ * - Validation of missing and unknown fields
+ */
+
+describe('JobNormalizer', () => {
+  const apiJob = {
+    id: 4711,
+    positionType: { id: 3, title: 'Teacher - Math' },
+    startDate: '2024-03-04',
+    endDate: '2024-03-08',
+    longTerm: true,
+    absentEmployee: { id: 99, firstName: 'Ada', lastName: 'Lovelace' },
+    schedules: [
+      { date: '2024-03-04', startTime: '08:00', endTime: '15:00', scheduleType: 'FULL_DAY', building: { id: '1674', name: 'North High' } }
+    ]
+  };
+
+  describe('normalize', () => {
+    it('should produce a typed job from an API payload', () => {
+      const job = JobNormalizer.normalize(apiJob, 'available');
+
+      expect(job.id).toBe('4711');
+      expect(job.title).toBe('Teacher - Math');
+      expect(job.positionType).toEqual({ id: 3, title: 'Teacher - Math' });
+      expect(job.building).toEqual({ id: 1674, title: 'North High' });
+      expect(job.location).toBe('North High');
+      expect(job.scheduleType).toBe('FULL_DAY');
+      expect(job.time).toBe('08:00');
+      expect(job.schedules[0].endTime).toBe('15:00');
+      expect(job.startDate).toBe('2024-03-04');
+      expect(job.endDate).toBe('2024-03-08');
+      expect(job.longTerm).toBe(true);
+      expect(job.absentEmployee).toEqual({ id: 99, firstName: 'Ada', lastName: 'Lovelace', fullName: 'Ada Lovelace' });
+      expect(job.raw).toBe(apiJob);
+    });
+
+    it('should prefer positionTitle, then position, then positionType.title', () => {
+      expect(JobNormalizer.normalize({ positionTitle: 'A', position: 'B', positionType: { title: 'C' } }, 'available').title).toBe('A');
+      expect(JobNormalizer.normalize({ position: 'B', positionType: { title: 'C' } }, 'available').title).toBe('B');
+      expect(JobNormalizer.normalize({ positionType: { title: 'C' }, title: 'D' }, 'available').title).toBe('C');
+      expect(JobNormalizer.normalize({ position: { title: 'E' } }, 'available').positionType?.title).toBe('E');
+      expect(JobNormalizer.normalize({}, 'available').title).toBe('Untitled');
+    });
+
+    it('should prefer building.title over building.name', () => {
+      const job = JobNormalizer.normalize({ schedules: [{ building: { id: 1, title: 'Title', name: 'Name' } }] }, 'scheduled');
+
+      expect(job.building?.title).toBe('Title');
+    });
+
+    it('should apply defaults per job kind', () => {
+      const today = SearchWindows.localDate(new Date());
+      const available = JobNormalizer.normalize({ id: 1 }, 'available');
+      const scheduled = JobNormalizer.normalize({ id: 1 }, 'scheduled');
+
+      expect(available.startDate).toBe(today);
+      expect(available.endDate).toBe(today);
+      expect(available.status).toBe('available');
+      expect(scheduled.startDate).toBe('');
+      expect(scheduled.status).toBe('scheduled');
+      expect(scheduled.building).toBeNull();
+      expect(scheduled.absentEmployee).toBeNull();
+      expect(scheduled.schedules).toEqual([]);
+    });
+
+    it('should fall back to the date field, then to today in the district time zone', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-03-05T03:00:00Z'));
+      try {
+        expect(JobNormalizer.normalize({ id: 1, date: '2024-03-07' }, 'available').startDate).toBe('2024-03-07');
+        expect(JobNormalizer.normalize({ id: 1 }, 'available').startDate).toBe('2024-03-04');
+        expect(JobNormalizer.normalize({ id: 1 }, 'available', 'UTC').startDate).toBe('2024-03-05');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('normalizeDetails', () => {
+    it('should add notes, lesson plan and attachments from the detail payload', () => {
+      const job = JobNormalizer.normalizeDetails({
+        id: 7,
+        positionTitle: 'Grade 3',
+        startDate: '2024-03-04',
+        endDate: '2024-03-06',
+        schedules: [
+          { date: '2024-03-04', startTime: '08:00', building: { id: 1, title: 'North' } },
+          { date: '2024-03-06', startTime: '08:00', building: { id: 2, title: 'South' } }
+        ],
+        notesToSubstitute: 'Recess duty on Wednesday',
+        lessonPlan: { id: 3 },
+        attachments: [{ id: 9, fileName: 'seating.pdf', downloadUrl: '/files/9', mimeType: 'application/pdf' }, null]
+      }, 'available', 1000);
+
+      expect(job.schedules.map(schedule => schedule.building?.title)).toEqual(['North', 'South']);
+      expect(job.details).toEqual({
+        notes: 'Recess duty on Wednesday',
+        lessonPlanAvailable: true,
+        attachments: [{ id: 9, name: 'seating.pdf', url: '/files/9', contentType: 'application/pdf' }],
+        fetchedAt: 1000
+      });
+    });
+
+    it('should default to no notes, lesson plan or attachments', () => {
+      const job = JobNormalizer.normalizeDetails({ id: 7, positionTitle: 'Grade 3' }, 'available');
+
+      expect(job.details).toMatchObject({ notes: '', lessonPlanAvailable: false, attachments: [] });
+      expect(JobNormalizer.normalize({ id: 7 }, 'available').details).toBeUndefined();
+    });
+  });
+
+  describe('buildings', () => {
+    it('should list the building of every schedule day', () => {
+      const job = JobNormalizer.normalize({
+        ...apiJob,
+        schedules: [
+          ...apiJob.schedules,
+          { date: '2024-03-05', startTime: '08:00', building: { id: 1709, title: 'South Middle' } }
+        ]
+      }, 'available');
+
+      expect(JobNormalizer.buildings(job).map(building => building.title)).toEqual(['North High', 'South Middle']);
+      expect(JobNormalizer.buildings(JobNormalizer.normalize({ id: 1, startDate: '2024-03-04' }, 'available'))).toEqual([]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a complete API payload', () => {
+      expect(JobNormalizer.validate(apiJob)).toEqual({ valid: true, missing: [], unknown: [] });
+    });
+
+    it('should report missing and unknown fields', () => {
+      const result = JobNormalizer.validate({
+        id: 1,
+        payRate: 55,
+        schedules: [{ startTime: '08:00', room: '12B' }]
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.missing).toEqual(['startDate', 'positionTitle', 'schedules[0].building']);
+      expect(result.unknown).toEqual(['payRate', 'schedules[].room']);
+    });
+
+    it('should know the date field used as a start date fallback', () => {
+      expect(JobNormalizer.validate({ ...apiJob, date: '2024-03-04' })).toEqual({ valid: true, missing: [], unknown: [] });
+    });
+
+    it('should reject a payload that is not an object', () => {
+      expect(JobNormalizer.validate(null).valid).toBe(false);
+      expect(JobNormalizer.validate('job').missing).toContain('id');
+    });
+  });
+});
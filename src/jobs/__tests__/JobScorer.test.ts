@@ -0,0 +1,128 @@
+import JobNormalizer, { SubstituteJob } from '../JobNormalizer';
+import JobScorer, { ScoringModel } from '../JobScorer';
+
+/**
+ * Tests for JobScorer
+ *
+ * Covers:
+ * - Neutral score without preferences
+ * - Configured ratings, ranges and the explained breakdown
+ * - Weights (0 turns a factor off, unknown factors are ignored)
+ * - Ranking order
+ */
+
+describe('JobScorer', () => {
+  const now = new Date('2024-03-01T12:00:00Z'); // Friday
+
+  const makeJob = (overrides: Record<string, unknown> = {}): SubstituteJob => JobNormalizer.normalize({
+    id: 1,
+    positionType: { id: 3, title: 'Teacher - Math' },
+    startDate: '2024-03-04',
+    endDate: '2024-03-04',
+    schedules: [
+      { date: '2024-03-04', startTime: '08:00', endTime: '15:00', scheduleType: 'FULL_DAY', building: { id: 10, title: 'Lincoln Elementary' } }
+    ],
+    ...overrides
+  }, 'available');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should score 50 when nothing is configured', () => {
+    const result = new JobScorer().score(makeJob(), now);
+
+    expect(result.score).toBe(50);
+    expect(result.breakdown.every(entry => entry.points === 0)).toBe(true);
+    expect(JobScorer.formatBreakdown(result)).toBe('50 = 50 (no preferences matched)');
+  });
+
+  it('should rate buildings and position types and explain the score', () => {
+    const scorer = new JobScorer({
+      weights: { building: 1, positionType: 1, scheduleType: 0, duration: 0, leadTime: 0, dayOfWeek: 0, lessonPlan: 0 },
+      buildings: { lincoln: 1 },
+      positionTypes: { Math: -0.5 }
+    });
+
+    const result = scorer.score(makeJob(), now);
+
+    expect(result.score).toBe(62.5);
+    expect(result.breakdown.map(entry => entry.factor)).toEqual(['building', 'positionType']);
+    expect(result.breakdown[0]).toMatchObject({ rating: 1, points: 25, reason: 'Lincoln Elementary matches "lincoln"' });
+    expect(JobScorer.formatBreakdown(result)).toBe(
+      '62.5 = 50 building +25 (Lincoln Elementary matches "lincoln"), positionType -12.5 (Teacher - Math matches "Math")'
+    );
+  });
+
+  it('should match buildings by ID', () => {
+    const scorer = new JobScorer({ weights: { building: 1 }, buildings: { '10': -1 } });
+
+    const result = scorer.score(makeJob(), now);
+
+    expect(result.breakdown.find(entry => entry.factor === 'building')?.rating).toBe(-1);
+  });
+
+  it('should lower range ratings by 0.5 per day outside the range', () => {
+    const scorer = new JobScorer({ leadTimeDays: { min: 5 }, durationDays: { max: 1 } });
+
+    const [duration, leadTime] = ['duration', 'leadTime'].map(factor =>
+      scorer.score(makeJob(), now).breakdown.find(entry => entry.factor === factor));
+
+    expect(duration).toMatchObject({ rating: 1, reason: '1 day(s), within -1' });
+    expect(leadTime).toMatchObject({ rating: 0, reason: 'starts in 3 day(s), outside 5-' });
+  });
+
+  it('should count school days for jobs without dated schedules', () => {
+    const scorer = new JobScorer({ durationDays: { min: 5, max: 5 } });
+    const job = makeJob({ startDate: '2024-03-04', endDate: '2024-03-10', schedules: [] });
+
+    const duration = scorer.score(job, now).breakdown.find(entry => entry.factor === 'duration');
+
+    expect(duration).toMatchObject({ rating: 1, reason: '5 day(s), within 5-5' });
+  });
+
+  it('should rate days of the week case-insensitively', () => {
+    const scorer = new JobScorer({ daysOfWeek: { Monday: -1 } });
+
+    const day = scorer.score(makeJob(), now).breakdown.find(entry => entry.factor === 'dayOfWeek');
+
+    expect(day).toMatchObject({ rating: -1, reason: 'monday' });
+  });
+
+  it('should rate lesson plans only once details are loaded', () => {
+    const scorer = new JobScorer();
+    const detailed = JobNormalizer.normalizeDetails({ id: 1, startDate: '2024-03-04', lessonPlanAvailable: true }, 'available');
+
+    expect(scorer.score(makeJob(), now).breakdown.find(entry => entry.factor === 'lessonPlan')?.rating).toBe(0);
+    expect(scorer.score(detailed, now).breakdown.find(entry => entry.factor === 'lessonPlan')?.rating).toBe(1);
+  });
+
+  it('should ignore unknown factors and invalid weights', () => {
+    const scorer = new JobScorer({ weights: { salary: 5, building: -1 } as ScoringModel['weights'], buildings: { Lincoln: 1 } });
+
+    const building = scorer.score(makeJob(), now).breakdown.find(entry => entry.factor === 'building');
+
+    expect(building?.weight).toBe(3);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rank jobs by score and keep ties in order', () => {
+    const scorer = new JobScorer({ buildings: { Roosevelt: 1, Lincoln: -1 } });
+    const jobs = [
+      makeJob({ id: 1 }),
+      makeJob({ id: 2, schedules: [{ date: '2024-03-04', building: { id: 11, title: 'Roosevelt Middle' } }] }),
+      makeJob({ id: 3, schedules: [{ date: '2024-03-04', building: { id: 12, title: 'Adams High' } }] }),
+      makeJob({ id: 4, schedules: [{ date: '2024-03-04', building: { id: 13, title: 'Jefferson High' } }] })
+    ];
+
+    const ranked = scorer.rank(jobs, now);
+
+    expect(ranked.map(entry => entry.job.id)).toEqual(['2', '3', '4', '1']);
+    expect(ranked[0].score).toBeGreaterThan(50);
+    expect(ranked[3].score).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,102 @@
+import JobSnapshotStore from '../JobSnapshotStore';
+import JobNormalizer from '../JobNormalizer';
+import * as fs from 'fs';
+
+/**
+ * Tests for JobSnapshotStore
+ *
+ * Covers:
+ * - First poll, then added / removed / modified jobs
+ * - First-seen and last-seen timestamps
+ * - Persistence across instances (restarts)
+ * - Separate snapshots per kind and recovery from a corrupt file
+ */
+
+describe('JobSnapshotStore', () => {
+  const snapshotFile = './test_job_snapshots.json';
+
+  const makeJob = (id: number, overrides: { [key: string]: any } = {}) => JobNormalizer.normalize({
+    id,
+    positionTitle: `Job ${id}`,
+    startDate: '2024-03-04',
+    schedules: [{ startTime: '08:00', scheduleType: 'FULL_DAY', building: { id: 1, title: 'North High' } }],
+    ...overrides
+  }, 'available');
+
+  afterEach(() => {
+    for (const file of fs.readdirSync('.')) {
+      if (file.startsWith('test_job_snapshots.json')) {
+        fs.unlinkSync(file);
+      }
+    }
+    jest.restoreAllMocks();
+  });
+
+  it('should report every job as added on the first poll', () => {
+    const diff = new JobSnapshotStore(snapshotFile).record('available', [makeJob(1), makeJob(2)], 1000);
+
+    expect(diff.firstPoll).toBe(true);
+    expect(diff.previousPollAt).toBeNull();
+    expect(diff.added.map(job => job.id)).toEqual(['1', '2']);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it('should report added, removed and modified jobs since the previous poll', () => {
+    const store = new JobSnapshotStore(snapshotFile);
+    store.record('available', [makeJob(1), makeJob(2), makeJob(3)], 1000);
+
+    const diff = store.record('available', [
+      makeJob(1),
+      makeJob(2, { endDate: '2024-03-08' }),
+      makeJob(4)
+    ], 2000);
+
+    expect(diff.firstPoll).toBe(false);
+    expect(diff.previousPollAt).toBe(1000);
+    expect(diff.added.map(job => job.id)).toEqual(['4']);
+    expect(diff.removed.map(entry => entry.id)).toEqual(['3']);
+    expect(diff.removed[0].lastSeen).toBe(1000);
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].job.id).toBe('2');
+    expect(diff.modified[0].changedFields).toEqual(['endDate']);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('should keep first-seen and update last-seen, across restarts', () => {
+    new JobSnapshotStore(snapshotFile).record('scheduled', [makeJob(1)], 1000);
+    const restarted = new JobSnapshotStore(snapshotFile);
+    restarted.record('scheduled', [makeJob(1)], 5000);
+
+    expect(new JobSnapshotStore(snapshotFile).getEntry('scheduled', '1')).toMatchObject({
+      firstSeen: 1000,
+      lastSeen: 5000
+    });
+  });
+
+  it('should keep a separate snapshot per kind', () => {
+    const store = new JobSnapshotStore(snapshotFile);
+    store.record('available', [makeJob(1)], 1000);
+
+    const diff = store.record('longTerm', [makeJob(2)], 2000);
+
+    expect(diff.firstPoll).toBe(true);
+    expect(store.getEntries('available').map(entry => entry.id)).toEqual(['1']);
+    expect(store.getEntries('longTerm').map(entry => entry.id)).toEqual(['2']);
+  });
+
+  it('should not store the raw API payload', () => {
+    new JobSnapshotStore(snapshotFile).record('available', [makeJob(1, { secretNote: 'internal' })], 1000);
+
+    expect(fs.readFileSync(snapshotFile, 'utf-8')).not.toContain('internal');
+  });
+
+  it('should set aside a corrupt snapshot file and start fresh', () => {
+    fs.writeFileSync(snapshotFile, 'not json {');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const diff = new JobSnapshotStore(snapshotFile).record('available', [makeJob(1)], 1000);
+
+    expect(diff.firstPoll).toBe(true);
+    expect(fs.readdirSync('.').some(file => file.startsWith('test_job_snapshots.json.corrupt-'))).toBe(true);
+  });
+});
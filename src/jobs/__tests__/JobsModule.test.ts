@@ -1,5 +1,7 @@
 import axios from 'axios';
 import JobsModule, { Job, JobsFetchResult, JobType } from '../JobsModule';
+import EndpointRegistry from '../../http/EndpointRegistry';
+import JobNormalizer from '../JobNormalizer';
 
 // Mock axios
 jest.mock('axios');
@@ -9,7 +11,6 @@ describe('JobsModule', () => {
   let jobsModule: JobsModule;
   let mockAxiosInstance: any;
   const testCookies = 'session_id=test_session_12345';
-  const testToken = 'test_bearer_token';
   const testUserId = '12345';
 
   beforeEach(() => {
@@ -32,7 +33,7 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result.success).toBe(true);
       expect(result.jobs.length).toBe(2);
@@ -41,9 +42,7 @@ describe('JobsModule', () => {
       expect(mockAxiosInstance.get).toHaveBeenCalledWith(
         expect.stringContaining('/api/substitute-jobs/scheduled'),
         expect.objectContaining({
-          headers: expect.objectContaining({
-            'Authorization': `Bearer ${testToken}`
-          })
+          params: expect.objectContaining({ userId: testUserId })
         })
       );
     });
@@ -58,7 +57,7 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockResponse, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result.success).toBe(true);
       expect(result.jobs.length).toBe(2);
@@ -74,12 +73,12 @@ describe('JobsModule', () => {
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
       // First call - should fetch from API
-      const result1 = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result1 = await jobsModule.fetchScheduledJobs(testUserId);
       expect(result1.success).toBe(true);
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
 
       // Second call - should use cache
-      const result2 = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result2 = await jobsModule.fetchScheduledJobs(testUserId);
       expect(result2.success).toBe(true);
       expect(result2.message).toContain('cache');
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1); // Still 1, not 2
@@ -91,7 +90,7 @@ describe('JobsModule', () => {
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
       // First call
-      const result1 = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result1 = await jobsModule.fetchScheduledJobs(testUserId);
       expect(result1.success).toBe(true);
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
 
@@ -99,7 +98,7 @@ describe('JobsModule', () => {
       await new Promise(resolve => setTimeout(resolve, 5100));
 
       // Second call - should fetch from API again
-      const result2 = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result2 = await jobsModule.fetchScheduledJobs(testUserId);
       expect(result2.success).toBe(true);
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
     });
@@ -107,7 +106,7 @@ describe('JobsModule', () => {
     test('should handle API errors gracefully', async () => {
       mockAxiosInstance.get.mockRejectedValue(new Error('Network error'));
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result.success).toBe(false);
       expect(result.jobs.length).toBe(0);
@@ -117,7 +116,7 @@ describe('JobsModule', () => {
     test('should handle empty jobs response', async () => {
       mockAxiosInstance.get.mockResolvedValue({ data: [], status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result.success).toBe(true);
       expect(result.jobs.length).toBe(0);
@@ -127,7 +126,7 @@ describe('JobsModule', () => {
     test('should handle null/undefined response', async () => {
       mockAxiosInstance.get.mockResolvedValue({ data: null, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result.success).toBe(true);
       expect(result.jobs.length).toBe(0);
@@ -143,7 +142,7 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      const result = await jobsModule.fetchAvailableJobs(testUserId);
 
       expect(result.success).toBe(true);
       expect(result.jobs.length).toBe(2);
@@ -151,9 +150,7 @@ describe('JobsModule', () => {
       expect(mockAxiosInstance.get).toHaveBeenCalledWith(
         expect.stringContaining('/api/substitute-jobs/available'),
         expect.objectContaining({
-          headers: expect.objectContaining({
-            'Authorization': `Bearer ${testToken}`
-          })
+          params: expect.objectContaining({ userId: testUserId })
         })
       );
     });
@@ -164,12 +161,12 @@ describe('JobsModule', () => {
 
       // First fetch scheduled
       mockAxiosInstance.get.mockResolvedValueOnce({ data: scheduledJobs, status: 200 });
-      const scheduledResult = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const scheduledResult = await jobsModule.fetchScheduledJobs(testUserId);
       expect(scheduledResult.jobs.length).toBe(1);
 
       // Then fetch available
       mockAxiosInstance.get.mockResolvedValueOnce({ data: availableJobs, status: 200 });
-      const availableResult = await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      const availableResult = await jobsModule.fetchAvailableJobs(testUserId);
       expect(availableResult.jobs.length).toBe(1);
 
       // Verify both are cached
@@ -182,11 +179,11 @@ describe('JobsModule', () => {
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
       // First call
-      const result1 = await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      const result1 = await jobsModule.fetchAvailableJobs(testUserId);
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
 
       // Second call should use cache
-      const result2 = await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      const result2 = await jobsModule.fetchAvailableJobs(testUserId);
       expect(result2.message).toContain('cache');
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1); // Still 1
     });
@@ -194,7 +191,7 @@ describe('JobsModule', () => {
     test('should handle API errors for available jobs', async () => {
       mockAxiosInstance.get.mockRejectedValue(new Error('API error'));
 
-      const result = await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      const result = await jobsModule.fetchAvailableJobs(testUserId);
 
       expect(result.success).toBe(false);
       expect(result.jobs.length).toBe(0);
@@ -207,7 +204,7 @@ describe('JobsModule', () => {
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
       // Fetch and cache
-      await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      await jobsModule.fetchScheduledJobs(testUserId);
       expect(jobsModule.getCachedJobs('scheduled').length).toBe(1);
 
       // Clear cache
@@ -221,8 +218,8 @@ describe('JobsModule', () => {
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
       // Fetch both types
-      await jobsModule.fetchScheduledJobs(testToken, testUserId);
-      await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      await jobsModule.fetchScheduledJobs(testUserId);
+      await jobsModule.fetchAvailableJobs(testUserId);
       
       expect(jobsModule.getCachedJobs('scheduled').length).toBe(1);
       expect(jobsModule.getCachedJobs('available').length).toBe(1);
@@ -240,7 +237,7 @@ describe('JobsModule', () => {
 
       expect(jobsModule.hasCachedJobs('scheduled')).toBe(false);
 
-      await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      await jobsModule.fetchScheduledJobs(testUserId);
       expect(jobsModule.hasCachedJobs('scheduled')).toBe(true);
 
       // Get cache age
@@ -277,7 +274,7 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
       const job = result.jobs[0];
 
       expect(job.id).toBe('1');
@@ -297,7 +294,7 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
       const job = result.jobs[0];
 
       expect(job.id).toBe('1');
@@ -310,13 +307,13 @@ describe('JobsModule', () => {
       const mockJobs = [{ id: '1', title: 'Math Class' }];
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchAvailableJobs(testToken, testUserId);
+      const result = await jobsModule.fetchAvailableJobs(testUserId);
       const job = result.jobs[0];
 
       expect(job.status).toBe('available');
     });
 
-    test('should preserve extra fields from API response', async () => {
+    test('should keep extra fields from API response on job.raw', async () => {
       const mockJobs = [
         {
           id: '1',
@@ -328,11 +325,11 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
       const job = result.jobs[0];
 
-      expect(job.customField).toBe('custom_value');
-      expect(job.extraData).toEqual({ nested: 'value' });
+      expect(job.raw.customField).toBe('custom_value');
+      expect(job.raw.extraData).toEqual({ nested: 'value' });
     });
   });
 
@@ -341,7 +338,7 @@ describe('JobsModule', () => {
       const mockJobs = [{ id: '1', title: 'Math Class' }];
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result).toHaveProperty('success');
       expect(result).toHaveProperty('jobs');
@@ -365,51 +362,230 @@ describe('JobsModule', () => {
 
       mockAxiosInstance.get.mockResolvedValue({ data: mockJobs, status: 200 });
 
-      const result = await jobsModule.fetchScheduledJobs(testToken, testUserId);
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
 
       expect(result.totalCount).toBe(3);
       expect(result.totalCount).toBe(result.jobs.length);
     });
   });
 
-  describe('Auth token handling', () => {
-    test('should pass bearer token in request headers', async () => {
+  describe('Pagination', () => {
+    const makePage = (ids: number[], page: number, totalPages: number, totalElements: number) => ({
+      data: {
+        content: ids.map(id => ({ id: String(id), title: `Job ${id}` })),
+        number: page,
+        totalPages,
+        totalElements,
+        last: page + 1 >= totalPages
+      },
+      status: 200
+    });
+
+    test('should walk every page until the server reports the last one', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, { pageSize: 2 });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(makePage([1, 2], 0, 3, 5))
+        .mockResolvedValueOnce(makePage([3, 4], 1, 3, 5))
+        .mockResolvedValueOnce(makePage([5], 2, 3, 5));
+
+      const result = await jobsModule.fetchAvailableJobs(testUserId);
+
+      expect(result.success).toBe(true);
+      expect(result.jobs.map(job => job.id)).toEqual(['1', '2', '3', '4', '5']);
+      expect(result.totalCount).toBe(5);
+      expect(result.pagesFetched).toBe(3);
+      expect(result.truncated).toBe(false);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+      expect(mockAxiosInstance.get.mock.calls.map((call: any[]) => call[1].params.page)).toEqual([0, 1, 2]);
+      expect(mockAxiosInstance.get.mock.calls[0][1].params).toMatchObject({ size: 2, userId: testUserId, longTerm: false });
+    });
+
+    test('should stop at maxPages and report the server total', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, { pageSize: 2, maxPages: 2 });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(makePage([1, 2], 0, 10, 20))
+        .mockResolvedValueOnce(makePage([3, 4], 1, 10, 20));
+
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
+
+      expect(result.success).toBe(true);
+      expect(result.jobs.length).toBe(4);
+      expect(result.totalCount).toBe(20);
+      expect(result.truncated).toBe(true);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+
+      const cached = await jobsModule.fetchScheduledJobs(testUserId);
+
+      expect(cached.message).toBe('Loaded from cache');
+      expect(cached.totalCount).toBe(20);
+      expect(cached.truncated).toBe(true);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    test('should fail the whole fetch when a later page fails', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, { pageSize: 2 });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(makePage([1, 2], 0, 2, 4))
+        .mockResolvedValueOnce({ data: null, status: 401 });
+
+      const result = await jobsModule.fetchAvailableLongTermJobs(testUserId);
+
+      expect(result.success).toBe(false);
+      expect(result.jobs).toEqual([]);
+      expect(result.statusCode).toBe(401);
+    });
+
+    test('should drop jobs repeated across pages', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, { pageSize: 2 });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(makePage([1, 2], 0, 2, 4))
+        .mockResolvedValueOnce(makePage([2, 3], 1, 2, 4));
+
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
+
+      expect(result.jobs.map(job => job.id)).toEqual(['1', '2', '3']);
+    });
+
+    test('should stop on a short page when the envelope has no paging fields', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, { pageSize: 2 });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { content: [{ id: '1' }, { id: '2' }] }, status: 200 })
+        .mockResolvedValueOnce({ data: { content: [{ id: '3' }] }, status: 200 });
+
+      const result = await jobsModule.fetchScheduledJobs(testUserId);
+
+      expect(result.jobs.length).toBe(3);
+      expect(result.totalCount).toBe(3);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Search windows', () => {
+    const job = (id: string, startDate: string, endDate?: string) => ({ id, positionTitle: `Job ${id}`, startDate, endDate });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should use the local date, not the UTC date, for today', async () => {
+      // 8 PM in Chicago is already the next day in UTC
+      jest.useFakeTimers({ now: new Date('2024-03-05T02:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
       mockAxiosInstance.get.mockResolvedValue({ data: [], status: 200 });
 
-      const customToken = 'custom_bearer_token';
-      await jobsModule.fetchScheduledJobs(customToken, testUserId);
+      await jobsModule.fetchAvailableJobs(testUserId);
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            'Authorization': `Bearer ${customToken}`
-          })
-        })
-      );
+      expect(mockAxiosInstance.get.mock.calls[0][1].params.startDate).toBe('2024-03-04');
+      expect(mockAxiosInstance.get.mock.calls[0][1].params).not.toHaveProperty('endDate');
     });
 
-    test('should work with different tokens', async () => {
+    test('should fetch every window and merge the jobs by ID', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-08T15:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, {
+        searchWindows: [{ schoolDaysAhead: 1 }, { startDate: '2024-03-11', endDate: '2024-03-15' }]
+      });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: [job('1', '2024-03-08'), job('2', '2024-03-11'), job('9', '2024-03-20')], status: 200 })
+        .mockResolvedValueOnce({ data: [job('2', '2024-03-11'), job('3', '2024-03-14')], status: 200 });
+
+      const result = await jobsModule.fetchAvailableJobs(testUserId);
+
+      expect(mockAxiosInstance.get.mock.calls.map((call: any[]) => [call[1].params.startDate, call[1].params.endDate])).toEqual([
+        ['2024-03-08', '2024-03-11'],
+        ['2024-03-11', '2024-03-15']
+      ]);
+      // Job 9 is outside both windows (the API ignored endDate)
+      expect(result.jobs.map(j => j.id)).toEqual(['1', '2', '3']);
+      expect(result.totalCount).toBe(3);
+    });
+
+    test('should fail the whole fetch when one window fails', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, {
+        searchWindows: [{ schoolDaysAhead: 0 }, { schoolDaysAhead: 5 }]
+      });
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: [], status: 200 })
+        .mockResolvedValueOnce({ data: {}, status: 503 });
+
+      const result = await jobsModule.fetchAvailableJobs(testUserId);
+
+      expect(result.success).toBe(false);
+      expect(result.statusCode).toBe(503);
+    });
+  });
+
+  describe('Endpoints', () => {
+    test('should request the URLs from the endpoint registry', async () => {
+      const endpoints = new EndpointRegistry({
+        baseUrl: 'http://localhost:4010',
+        templates: { scheduledJobs: '/{apiVersion}/scheduled', availableJobs: '/{apiVersion}/available' },
+        variables: { apiVersion: 'v2' }
+      });
+      jobsModule = new JobsModule(mockAxiosInstance, 5, endpoints);
       mockAxiosInstance.get.mockResolvedValue({ data: [], status: 200 });
 
-      const token1 = 'token_abc';
-      const token2 = 'token_xyz';
+      await jobsModule.fetchScheduledJobs(testUserId);
+      await jobsModule.fetchAvailableJobs(testUserId);
+
+      expect(mockAxiosInstance.get.mock.calls.map((call: any[]) => call[0])).toEqual([
+        'http://localhost:4010/v2/scheduled',
+        'http://localhost:4010/v2/available'
+      ]);
+    });
+  });
 
-      await jobsModule.fetchScheduledJobs(token1, testUserId);
-      await jobsModule.fetchAvailableJobs(token2, testUserId);
+  describe('Job details', () => {
+    const detail = { id: 42, positionTitle: 'Grade 3', startDate: '2024-03-04', schedules: [], notes: 'Bring a lanyard' };
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          headers: expect.objectContaining({ 'Authorization': `Bearer ${token1}` })
-        })
-      );
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          headers: expect.objectContaining({ 'Authorization': `Bearer ${token2}` })
-        })
-      );
+    test('should fetch the full record once and then use the cache', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: detail, status: 200 });
+
+      const first = await jobsModule.fetchJobDetails('42');
+      const second = await jobsModule.fetchJobDetails('42');
+
+      expect(first.success).toBe(true);
+      expect(first.job?.details?.notes).toBe('Bring a lanyard');
+      expect(second.fromCache).toBe(true);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(mockAxiosInstance.get.mock.calls[0][0]).toBe('https://willsubplus.com/api/substitute-jobs/42');
+    });
+
+    test('should refetch once the details cache has expired', async () => {
+      jobsModule = new JobsModule(mockAxiosInstance, 5, undefined, { detailsCacheTTLSeconds: 0 });
+      mockAxiosInstance.get.mockResolvedValue({ data: detail, status: 200 });
+
+      await jobsModule.fetchJobDetails('42');
+      await jobsModule.fetchJobDetails('42');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    test('should keep the summary job when its details fail', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: detail, status: 200 })
+        .mockResolvedValueOnce({ data: {}, status: 404 });
+      const summaries = [
+        { ...detail, notes: undefined },
+        { id: 43, positionTitle: 'Grade 4', startDate: '2024-03-04', schedules: [] }
+      ].map(raw => JobNormalizer.normalize(raw, 'available'));
+
+      const jobs = await jobsModule.withDetails(summaries);
+
+      expect(jobs.map(job => job.id)).toEqual(['42', '43']);
+      expect(jobs[0].details?.notes).toBe('Bring a lanyard');
+      expect(jobs[1]).toBe(summaries[1]);
+    });
+  });
+
+  describe('Auth token handling', () => {
+    test('should leave the Authorization header to the HTTP client', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: [], status: 200 });
+
+      await jobsModule.fetchScheduledJobs(testUserId);
+      await jobsModule.fetchAvailableJobs(testUserId);
+
+      for (const [, config] of mockAxiosInstance.get.mock.calls) {
+        expect(config.headers).not.toHaveProperty('Authorization');
+      }
     });
   });
 });
@@ -0,0 +1,96 @@
+import JobNormalizer, { SubstituteJob } from '../JobNormalizer';
+import JobPreferencesManager from '../JobPreferencesManager';
+import LeadTime, { LeadTimePolicy } from '../LeadTime';
+
+/**
+ * Tests for LeadTime
+ *
+ * Covers:
+ * - Lead time to the first schedule start, in the district time zone
+ * - Minimum and maximum lead time, already started jobs
+ * - The last-minute exception at listed buildings
+ * - Evaluation through JobPreferencesManager.filterJob
+ */
+
+describe('LeadTime', () => {
+  const timeZone = 'America/Chicago';
+  // Monday 2024-03-04, 7:10 AM in Chicago
+  const now = new Date('2024-03-04T13:10:00Z');
+
+  const makeJob = (schedules: Array<{ date: string; startTime: string; building?: { id: number; title: string } }>): SubstituteJob =>
+    JobNormalizer.normalize({
+      id: 1,
+      positionType: { title: 'Teacher' },
+      startDate: schedules[0].date,
+      endDate: schedules[schedules.length - 1].date,
+      schedules: schedules.map(schedule => ({
+        endTime: '15:00',
+        building: { id: 1674, title: 'North High' },
+        ...schedule
+      }))
+    }, 'available');
+
+  const policy: LeadTimePolicy = {
+    minMinutes: 90,
+    maxDays: 14,
+    lastMinute: { minMinutes: 30, buildings: ['Lincoln'], buildingIds: [1709] }
+  };
+
+  it('should measure from now to the earliest schedule start in the district time zone', () => {
+    const job = makeJob([
+      { date: '2024-03-05', startTime: '07:30' },
+      { date: '2024-03-04', startTime: '09:40', building: { id: 1709, title: 'South Middle' } }
+    ]);
+
+    const start = LeadTime.firstStart(job, timeZone, now);
+
+    expect(start).toEqual({ wallTime: '2024-03-04T09:40', building: { id: 1709, title: 'South Middle' }, leadMinutes: 150 });
+    expect(LeadTime.firstStart(job, 'UTC', now)?.leadMinutes).toBe(-210);
+  });
+
+  it('should reject jobs starting too soon', () => {
+    const job = makeJob([{ date: '2024-03-04', startTime: '07:30' }]);
+
+    expect(LeadTime.check(job, { minMinutes: 90 }, timeZone, now))
+      .toBe('Starts in 20 min (2024-03-04 07:30), less than the minimum lead time of 90 min');
+    expect(LeadTime.check(makeJob([{ date: '2024-03-04', startTime: '08:40' }]), { minMinutes: 90 }, timeZone, now)).toBeNull();
+  });
+
+  it('should reject jobs that already started or start too far ahead', () => {
+    expect(LeadTime.check(makeJob([{ date: '2024-03-04', startTime: '07:00' }]), policy, timeZone, now))
+      .toBe('Already started 10 min ago (2024-03-04 07:00)');
+    expect(LeadTime.check(makeJob([{ date: '2024-03-25', startTime: '08:00' }]), policy, timeZone, now))
+      .toBe('Starts in 21 days (2024-03-25 08:00), more than the maximum lead time of 14 day(s)');
+  });
+
+  it('should allow a shorter lead time only at last-minute buildings', () => {
+    const at = (building: { id: number; title: string }, startTime: string) =>
+      LeadTime.check(makeJob([{ date: '2024-03-04', startTime, building }]), policy, timeZone, now);
+
+    expect(at({ id: 1, title: 'Lincoln Elementary' }, '07:45')).toBeNull();
+    expect(at({ id: 1709, title: 'South Middle' }, '07:45')).toBeNull();
+    expect(at({ id: 1, title: 'Lincoln Elementary' }, '07:30'))
+      .toBe('Starts in 20 min (2024-03-04 07:30), less than the last-minute minimum of 30 min at Lincoln Elementary');
+    expect(at({ id: 1674, title: 'North High' }, '07:45'))
+      .toBe('Starts in 35 min (2024-03-04 07:45), less than the minimum lead time of 90 min (last-minute jobs only at Lincoln, #1709, not North High)');
+  });
+
+  it('should describe a policy', () => {
+    expect(LeadTime.describe(policy)).toBe('at least 90 min, at most 14 day(s); 30 min at Lincoln, #1709');
+    expect(LeadTime.describe({})).toBe('any');
+  });
+
+  describe('in JobPreferencesManager', () => {
+    it('should filter by lead time at the given time', () => {
+      const manager = new JobPreferencesManager({ leadTime: policy, timeZone });
+      const soon = makeJob([{ date: '2024-03-04', startTime: '07:30' }]);
+      const tomorrow = makeJob([{ date: '2024-03-05', startTime: '07:30' }]);
+
+      const result = manager.filterJobs([soon, tomorrow], now);
+
+      expect(result.passed).toEqual([tomorrow]);
+      expect(result.filtered[0].reason).toContain('less than the minimum lead time of 90 min');
+      expect(manager.getSummary()).toContain('✓ Lead time: at least 90 min, at most 14 day(s)');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import axios from 'axios';
+import * as path from 'path';
+import HttpFixtures from '../../http/HttpFixtures';
+import EndpointRegistry from '../../http/EndpointRegistry';
+import JobsModule from '../JobsModule';
+import JobPreferencesManager from '../JobPreferencesManager';
+import JobComparisonModule from '../JobComparisonModule';
+import JobApplicationModule from '../JobApplicationModule';
+
+/**
+ * Poll cycle against recorded API responses
+ *
+ * fixtures/poll-cycle was recorded with HttpFixtures (record mode) and is
+ * replayed here: one scheduled job, three available jobs over two pages,
+ * details for the shortlist and one accept.
+ *
+ * Covers fetch → filter → details → compare → apply without the network.
+ */
+
+describe('Poll cycle (replayed API)', () => {
+  const userId = HttpFixtures.REPLAY_USER_ID;
+  let endpoints: EndpointRegistry;
+  let jobsModule: JobsModule;
+  let applicationModule: JobApplicationModule;
+
+  beforeEach(() => {
+    const fixtures = new HttpFixtures({ mode: 'replay', directory: path.join(__dirname, 'fixtures', 'poll-cycle') });
+    const httpClient = axios.create({ adapter: fixtures.createAdapter(), validateStatus: () => true });
+    endpoints = new EndpointRegistry();
+    jobsModule = new JobsModule(httpClient, 60, endpoints, { pageSize: 2 });
+    applicationModule = new JobApplicationModule(endpoints, httpClient);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fetch, filter, compare and accept jobs from the recording', async () => {
+    const scheduled = await jobsModule.fetchScheduledJobs(userId);
+    const available = await jobsModule.fetchAvailableJobs(userId);
+
+    expect(scheduled.success).toBe(true);
+    expect(scheduled.jobs.map(job => job.title)).toEqual(['English Teacher']);
+    expect(available.success).toBe(true);
+    expect(available.jobs.map(job => job.title)).toEqual(['Math Teacher', 'Science Teacher', 'Classroom Aide']);
+
+    const preferences = new JobPreferencesManager({ excludePositionTypes: ['Paraprofessional'] });
+    const shortlist = preferences.filterJobs(available.jobs).passed;
+    const detailed = await jobsModule.withDetails(shortlist);
+
+    expect(detailed.map(job => job.title)).toEqual(['Math Teacher', 'Science Teacher']);
+    expect(detailed.every(job => job.details?.lessonPlanAvailable)).toBe(true);
+    expect(detailed[0].details?.notes).toBe('<notes redacted>');
+
+    const comparison = new JobComparisonModule().compare(scheduled.jobs, detailed);
+
+    expect(comparison.conflicts.map(conflict => conflict.available.title)).toEqual(['Math Teacher']);
+    expect(comparison.newOpportunities.map(job => job.title)).toEqual(['Science Teacher']);
+
+    const applied = await applicationModule.applyToJobs(comparison.newOpportunities, userId, false);
+
+    expect(applied.successful).toBe(1);
+    expect(applied.results[0]).toMatchObject({ jobTitle: 'Science Teacher', status: 'success', statusCode: 204 });
+  });
+
+  it('should report a request the recording does not cover as an API error', async () => {
+    const [job] = (await jobsModule.fetchAvailableJobs(userId)).jobs;
+
+    const result = await applicationModule.applyToJob(job, userId, false);
+
+    expect(result.status).toBe('failed');
+    expect(result.statusCode).toBe(501);
+  });
+});
@@ -0,0 +1,89 @@
+import SearchWindows from '../SearchWindows';
+import JobNormalizer from '../JobNormalizer';
+
+/**
+ * Tests for SearchWindows
+ *
+ * Covers:
+ * - Local "today" in the configured time zone (evening in Chicago is tomorrow in UTC)
+ * - School-day windows across weekends
+ * - Explicit ranges: clipping, past and invalid windows
+ * - Job / window overlap
+ * - Local wall time <-> instant conversion, on both sides of a DST change
+ */
+
+describe('SearchWindows', () => {
+  // Friday 2024-03-08, 8 PM in Chicago (Saturday 02:00 UTC)
+  const fridayEvening = new Date('2024-03-09T02:00:00Z');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compute today in the configured time zone', () => {
+    expect(SearchWindows.localDate(fridayEvening, 'America/Chicago')).toBe('2024-03-08');
+    expect(SearchWindows.localDate(fridayEvening, 'UTC')).toBe('2024-03-09');
+  });
+
+  it('should default to an open-ended window from today', () => {
+    expect(SearchWindows.resolve(undefined, fridayEvening)).toEqual([
+      { label: 'today', startDate: '2024-03-08', endDate: null }
+    ]);
+  });
+
+  it('should skip weekends when counting school days', () => {
+    const [window] = SearchWindows.resolve([{ schoolDaysAhead: 3 }], fridayEvening);
+
+    expect(window).toMatchObject({ startDate: '2024-03-08', endDate: '2024-03-13' });
+    expect(SearchWindows.addSchoolDays('2024-03-08', 0)).toBe('2024-03-08');
+  });
+
+  it('should not shift days across a DST change', () => {
+    // US clocks moved forward on 2024-03-10
+    expect(SearchWindows.addDays('2024-03-09', 2)).toBe('2024-03-11');
+    expect(SearchWindows.localDate(new Date('2024-03-11T04:30:00Z'), 'America/Chicago')).toBe('2024-03-10');
+  });
+
+  it('should convert local wall time to an instant and back', () => {
+    // DST starts in Chicago on 2024-03-10 at 2 AM
+    expect(SearchWindows.toInstant('2024-03-09T08:00', 'America/Chicago').toISOString()).toBe('2024-03-09T14:00:00.000Z');
+    expect(SearchWindows.toInstant('2024-03-11T08:00', 'America/Chicago').toISOString()).toBe('2024-03-11T13:00:00.000Z');
+    expect(SearchWindows.wallTime(new Date('2024-03-11T13:00:00Z'), 'America/Chicago')).toBe('2024-03-11T08:00');
+  });
+
+  it('should clip explicit ranges to today and drop past or invalid ones', () => {
+    const windows = SearchWindows.resolve([
+      { startDate: '2024-03-04', endDate: '2024-03-12' },
+      { startDate: '2024-03-01', endDate: '2024-03-05' },
+      { startDate: '2024-02-30' },
+      { startDate: '2024-03-20' }
+    ], fridayEvening);
+
+    expect(windows.map(w => [w.startDate, w.endDate])).toEqual([
+      ['2024-03-08', '2024-03-12'],
+      ['2024-03-20', '2024-03-20']
+    ]);
+  });
+
+  it('should fall back to today when no window is usable', () => {
+    const windows = SearchWindows.resolve([{ startDate: '2024-01-01', endDate: '2024-01-05' }], fridayEvening);
+
+    expect(windows).toEqual([{ label: 'today', startDate: '2024-03-08', endDate: null }]);
+  });
+
+  it('should match jobs whose dates overlap the window', () => {
+    const window = { label: 'next week', startDate: '2024-03-11', endDate: '2024-03-15' };
+    const job = (startDate: string, endDate?: string) =>
+      JobNormalizer.normalize({ id: 1, positionTitle: 'Math', startDate, endDate }, 'available');
+
+    expect(SearchWindows.overlaps(job('2024-03-13'), window)).toBe(true);
+    expect(SearchWindows.overlaps(job('2024-03-04', '2024-03-11'), window)).toBe(true);
+    expect(SearchWindows.overlaps(job('2024-03-18'), window)).toBe(false);
+    expect(SearchWindows.overlaps(job('2024-03-18'), { ...window, endDate: null })).toBe(true);
+  });
+});
@@ -0,0 +1,374 @@
+import * as crypto from 'crypto';
+import TotpGenerator from '../auth/TotpGenerator';
+
+/**
+ * MockKeycloak
+ * In-memory stand-in for the district's Keycloak realm, served by MockWillSubServer
+ *
+ * Serves:
+ * - /realms/{realm}/protocol/openid-connect/auth: the login form (same ids as
+ *   Keycloak: kc-form-login, username, password, kc-login), or an immediate
+ *   redirect when the browser still has an SSO session
+ * - /realms/{realm}/login-actions/authenticate: checks the password (and the
+ *   one-time code when the user has a TOTP secret), then redirects back with a code
+ * - /realms/{realm}/protocol/openid-connect/token: authorization_code (with PKCE)
+ *   and refresh_token grants
+ * - / on the app: starts the login, and after the redirect stores the tokens in
+ *   localStorage like the real app does (what PuppeteerLoginStrategy reads)
+ *
+ * Tokens are JWTs carrying iss, azp, userId and exp, so PuppeteerAuthModule
+ * finds the user ID, token endpoint and expiry the same way as in production.
+ */
+
+export interface MockUser {
+  username: string;
+  password: string;
+  userId: number;
+  totpSecret?: string; // Base32; when set, the login asks for a one-time code
+}
+
+export interface MockKeycloakOptions {
+  realm: string;
+  clientId: string;
+  user: MockUser;
+  accessTokenLifetimeSeconds: number;
+  refreshTokenLifetimeSeconds: number;
+}
+
+export interface MockRequest {
+  method: string;
+  url: URL;
+  headers: { [key: string]: string | string[] | undefined };
+  body: string;
+}
+
+export interface MockResponse {
+  status: number;
+  headers?: { [key: string]: string | string[] };
+  body?: unknown; // Objects are sent as JSON, strings as they are
+}
+
+interface PendingLogin {
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+  awaitingOtp: boolean;
+}
+
+interface IssuedCode {
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+const CODE_LIFETIME_MS = 60 * 1000;
+
+class MockKeycloak {
+  private options: MockKeycloakOptions;
+  private baseUrl: string = 'http://127.0.0.1';
+  private signingKey: Buffer = crypto.randomBytes(32);
+  private pendingLogins: Map<string, PendingLogin> = new Map();
+  private codes: Map<string, IssuedCode> = new Map();
+  private ssoSessions: Set<string> = new Set();
+  private accessTokens: Map<string, number> = new Map(); // token -> expiry (ms)
+  private refreshTokens: Map<string, number> = new Map();
+  private tokensIssued = 0;
+
+  constructor(options: MockKeycloakOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Set the origin the server listens on (known only after it started)
+   */
+  public setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Realm URL, for authentication.oidc.issuer
+   */
+  public getIssuer(): string {
+    return `${this.baseUrl}/realms/${this.options.realm}`;
+  }
+
+  public getUser(): MockUser {
+    return this.options.user;
+  }
+
+  /**
+   * Check a bearer token sent to the API
+   */
+  public isValidAccessToken(token: string): boolean {
+    const expiresAt = this.accessTokens.get(token);
+    return expiresAt !== undefined && Date.now() < expiresAt;
+  }
+
+  /**
+   * Make every access token issued so far invalid (the API answers 401 until the client refreshes)
+   */
+  public expireAccessTokens(): void {
+    this.accessTokens.clear();
+  }
+
+  /**
+   * Forget SSO sessions and refresh tokens, so the next login has to submit the form
+   */
+  public endSessions(): void {
+    this.ssoSessions.clear();
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Number of token sets handed out (logins plus refreshes)
+   */
+  public getTokensIssued(): number {
+    return this.tokensIssued;
+  }
+
+  /**
+   * Answer a Keycloak or app-entry request; null for anything else
+   */
+  public handle(request: MockRequest): MockResponse | null {
+    const realmPath = `/realms/${this.options.realm}`;
+    const { method, url } = request;
+
+    if (method === 'GET' && url.pathname === '/') {
+      return this.appEntry(request);
+    }
+    if (method === 'GET' && url.pathname === `${realmPath}/protocol/openid-connect/auth`) {
+      return this.authorize(request);
+    }
+    if (method === 'POST' && url.pathname === `${realmPath}/login-actions/authenticate`) {
+      return this.authenticate(request);
+    }
+    if (method === 'POST' && url.pathname === `${realmPath}/protocol/openid-connect/token`) {
+      return this.token(request);
+    }
+    return null;
+  }
+
+  /**
+   * The app: redirect to the login, or store the tokens after the callback
+   */
+  private appEntry(request: MockRequest): MockResponse {
+    const code = request.url.searchParams.get('code');
+    if (!code) {
+      const authUrl = new URL(`${this.getIssuer()}/protocol/openid-connect/auth`);
+      authUrl.search = new URLSearchParams({
+        client_id: this.options.clientId,
+        redirect_uri: `${this.baseUrl}/`,
+        response_type: 'code',
+        scope: 'openid',
+        state: crypto.randomBytes(8).toString('hex')
+      }).toString();
+      return { status: 302, headers: { Location: authUrl.toString() } };
+    }
+
+    const issued = this.redeemCode(code, `${this.baseUrl}/`, null);
+    if (!issued) {
+      return MockKeycloak.page('WillSub', '<p>Login failed: code not valid</p>', 400);
+    }
+    const tokens = this.issueTokens();
+    const script = `localStorage.setItem('access_token', ${JSON.stringify(tokens.access_token)});`
+      + `localStorage.setItem('refresh_token', ${JSON.stringify(tokens.refresh_token)});`;
+    return MockKeycloak.page('WillSub', `<h1>Substitute jobs</h1><script>${script}</script>`);
+  }
+
+  private authorize(request: MockRequest): MockResponse {
+    const params = request.url.searchParams;
+    const redirectUri = params.get('redirect_uri');
+    if (params.get('client_id') !== this.options.clientId || !redirectUri) {
+      return MockKeycloak.page('Error', '<p id="kc-error-message">Invalid parameter: client_id or redirect_uri</p>', 400);
+    }
+
+    const pending: PendingLogin = {
+      redirectUri,
+      state: params.get('state') || '',
+      codeChallenge: params.get('code_challenge_method') === 'S256' ? params.get('code_challenge') || '' : '',
+      awaitingOtp: false
+    };
+
+    const sso = MockKeycloak.cookie(request, 'KEYCLOAK_SESSION');
+    if (sso && this.ssoSessions.has(sso)) {
+      return this.completeLogin(pending, sso);
+    }
+
+    const sessionCode = crypto.randomBytes(12).toString('hex');
+    this.pendingLogins.set(sessionCode, pending);
+    return this.loginForm(sessionCode, null);
+  }
+
+  private authenticate(request: MockRequest): MockResponse {
+    const sessionCode = request.url.searchParams.get('session_code') || '';
+    const pending = this.pendingLogins.get(sessionCode);
+    if (!pending) {
+      return MockKeycloak.page('Sign in', '<span id="input-error" class="kc-feedback-text">Your login attempt timed out. Login will start from the beginning.</span>', 400);
+    }
+
+    const form = new URLSearchParams(request.body);
+    const user = this.options.user;
+
+    if (pending.awaitingOtp) {
+      const otp = form.get('otp') || '';
+      const totp = new TotpGenerator(user.totpSecret as string);
+      const now = Date.now();
+      if (otp !== totp.generate(now) && otp !== totp.generate(now - 30000)) {
+        return this.otpForm(sessionCode, 'Invalid authenticator code.');
+      }
+    } else {
+      if (form.get('username') !== user.username || form.get('password') !== user.password) {
+        return this.loginForm(sessionCode, 'Invalid username or password.');
+      }
+      if (user.totpSecret) {
+        pending.awaitingOtp = true;
+        return this.otpForm(sessionCode, null);
+      }
+    }
+
+    this.pendingLogins.delete(sessionCode);
+    const sso = crypto.randomBytes(12).toString('hex');
+    this.ssoSessions.add(sso);
+    return this.completeLogin(pending, sso);
+  }
+
+  /**
+   * Redirect back to the app with an authorization code
+   */
+  private completeLogin(pending: PendingLogin, sso: string): MockResponse {
+    const code = crypto.randomBytes(16).toString('hex');
+    this.codes.set(code, { redirectUri: pending.redirectUri, codeChallenge: pending.codeChallenge, expiresAt: Date.now() + CODE_LIFETIME_MS });
+
+    const location = new URL(pending.redirectUri);
+    location.searchParams.set('state', pending.state);
+    location.searchParams.set('code', code);
+    return {
+      status: 302,
+      headers: {
+        Location: location.toString(),
+        'Set-Cookie': `KEYCLOAK_SESSION=${sso}; Path=/realms/${this.options.realm}; HttpOnly`
+      }
+    };
+  }
+
+  private token(request: MockRequest): MockResponse {
+    const form = new URLSearchParams(request.body);
+    if (form.get('client_id') !== this.options.clientId) {
+      return { status: 401, body: { error: 'unauthorized_client', error_description: 'Invalid client credentials' } };
+    }
+
+    const grantType = form.get('grant_type');
+    if (grantType === 'authorization_code') {
+      const issued = this.redeemCode(form.get('code') || '', form.get('redirect_uri') || '', form.get('code_verifier'));
+      if (!issued) {
+        return { status: 400, body: { error: 'invalid_grant', error_description: 'Code not valid' } };
+      }
+      return { status: 200, body: this.issueTokens() };
+    }
+
+    if (grantType === 'refresh_token') {
+      const refreshToken = form.get('refresh_token') || '';
+      const expiresAt = this.refreshTokens.get(refreshToken);
+      if (expiresAt === undefined || Date.now() >= expiresAt) {
+        return { status: 400, body: { error: 'invalid_grant', error_description: 'Token is not active' } };
+      }
+      this.refreshTokens.delete(refreshToken); // Rotated, like Keycloak with refresh token revocation
+      return { status: 200, body: this.issueTokens() };
+    }
+
+    return { status: 400, body: { error: 'unsupported_grant_type', error_description: `Unsupported grant_type ${grantType}` } };
+  }
+
+  /**
+   * Use up an authorization code; null if it is unknown, expired or does not match
+   * - codeVerifier null skips the PKCE check (the app's own server-side exchange)
+   */
+  private redeemCode(code: string, redirectUri: string, codeVerifier: string | null): IssuedCode | null {
+    const issued = this.codes.get(code);
+    this.codes.delete(code);
+    if (!issued || Date.now() >= issued.expiresAt || issued.redirectUri !== redirectUri) {
+      return null;
+    }
+    if (issued.codeChallenge && codeVerifier !== null) {
+      const challenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+      if (challenge !== issued.codeChallenge) {
+        return null;
+      }
+    }
+    return issued;
+  }
+
+  private issueTokens(): { [key: string]: string | number } {
+    const now = Date.now();
+    const { accessTokenLifetimeSeconds, refreshTokenLifetimeSeconds, user } = this.options;
+    const claims = {
+      iss: this.getIssuer(),
+      azp: this.options.clientId,
+      sub: crypto.randomUUID(),
+      userId: user.userId,
+      preferred_username: user.username,
+      iat: Math.floor(now / 1000),
+      jti: crypto.randomBytes(8).toString('hex')
+    };
+
+    const accessToken = this.sign({ ...claims, typ: 'Bearer', exp: Math.floor(now / 1000) + accessTokenLifetimeSeconds });
+    const refreshToken = this.sign({ ...claims, typ: 'Refresh', exp: Math.floor(now / 1000) + refreshTokenLifetimeSeconds });
+    this.accessTokens.set(accessToken, now + accessTokenLifetimeSeconds * 1000);
+    this.refreshTokens.set(refreshToken, now + refreshTokenLifetimeSeconds * 1000);
+    this.tokensIssued++;
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: accessTokenLifetimeSeconds,
+      refresh_expires_in: refreshTokenLifetimeSeconds,
+      scope: 'openid'
+    };
+  }
+
+  private sign(payload: object): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+    return `${unsigned}.${crypto.createHmac('sha256', this.signingKey).update(unsigned).digest('base64url')}`;
+  }
+
+  private loginForm(sessionCode: string, error: string | null): MockResponse {
+    const action = `/realms/${this.options.realm}/login-actions/authenticate?session_code=${sessionCode}`;
+    return MockKeycloak.page('Sign in to WillSub', `
+  ${error ? `<span id="input-error" class="kc-feedback-text">${error}</span>` : ''}
+  <form id="kc-form-login" action="${action}" method="post">
+    <input id="username" name="username" type="text" autofocus>
+    <input id="password" name="password" type="password">
+    <input type="hidden" name="credentialId" value="">
+    <button id="kc-login" type="submit">Sign In</button>
+  </form>`);
+  }
+
+  private otpForm(sessionCode: string, error: string | null): MockResponse {
+    const action = `/realms/${this.options.realm}/login-actions/authenticate?session_code=${sessionCode}`;
+    return MockKeycloak.page('Sign in to WillSub', `
+  ${error ? `<span id="input-error" class="kc-feedback-text">${error}</span>` : ''}
+  <form id="kc-otp-login-form" action="${action}" method="post">
+    <input id="otp" name="otp" type="text" autocomplete="off">
+    <button id="kc-login" type="submit">Sign In</button>
+  </form>`);
+  }
+
+  private static page(title: string, content: string, status: number = 200): MockResponse {
+    return {
+      status,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      body: `<!DOCTYPE html>\n<html>\n<head><title>${title}</title></head>\n<body>${content}\n</body>\n</html>\n`
+    };
+  }
+
+  private static cookie(request: MockRequest, name: string): string | null {
+    const header = request.headers['cookie'];
+    const cookies = (Array.isArray(header) ? header.join('; ') : header || '').split(/;\s*/);
+    const match = cookies.find(cookie => cookie.startsWith(`${name}=`));
+    return match ? match.substring(name.length + 1) : null;
+  }
+}
+
+export default MockKeycloak;
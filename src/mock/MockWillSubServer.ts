@@ -0,0 +1,430 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import MockKeycloak, { MockRequest, MockResponse, MockUser } from './MockKeycloak';
+import SearchWindows, { DEFAULT_TIME_ZONE } from '../jobs/SearchWindows';
+
+/**
+ * MockWillSubServer
+ * Small embedded stand-in for willsubplus.com with in-memory state, for end-to-end tests
+ *
+ * Serves (paths as in DEFAULT_ENDPOINTS, so only baseUrl has to change):
+ * - GET  /api/substitute-jobs/scheduled and /available, paginated like the real API
+ *   (available honors longTerm, startDate and endDate)
+ * - GET  /api/substitute-jobs/{jobId}, including notes and attachments
+ * - POST /api/substitute-jobs/{jobId}/accept: moves the job from available to scheduled;
+ *   a job that is gone gets a 409
+ * - The Keycloak login page, token endpoint and app entry page (see MockKeycloak)
+ *
+ * Knobs for failure paths:
+ * - injectFault(): answer the next matching request(s) with a 401, 429, 5xx ...
+ *   (optionally with Retry-After), or just slow them down
+ * - takeJob(): another substitute accepts a job first (our accept then races into a 409)
+ * - expireAccessTokens(): every API call gets a 401 until the client refreshes its token
+ * - setLatency(): delay every response
+ *
+ * Start it from a test (start() resolves to the baseUrl) or with `--mock-server`.
+ */
+
+export type MockJob = { [key: string]: any }; // Raw job payload, as the API sends it
+
+export interface MockFault {
+  status?: number; // Response status; omit to only delay the request
+  times?: number; // How many matching requests it applies to (default: 1)
+  method?: string; // Default: any
+  path?: string | RegExp; // Substring or pattern of the request path (default: any /api/ request)
+  retryAfterSeconds?: number; // Sent as Retry-After
+  delayMs?: number; // Extra delay before answering
+  body?: unknown;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string; // Path and query
+  status: number;
+}
+
+export interface MockWillSubServerOptions {
+  port?: number; // Default: 0 (any free port)
+  host?: string; // Default: 127.0.0.1
+  user?: Partial<MockUser>;
+  realm?: string; // Default: district
+  clientId?: string; // Default: willsub-app
+  availableJobs?: MockJob[]; // Default: sampleJobs()
+  scheduledJobs?: MockJob[];
+  latencyMs?: number; // Delay for every response (default: 0)
+  accessTokenLifetimeSeconds?: number; // Default: 300
+  refreshTokenLifetimeSeconds?: number; // Default: 1800
+}
+
+export const DEFAULT_MOCK_USER: MockUser = {
+  username: 'substitute@example.org',
+  password: 'mock-password',
+  userId: 4242
+};
+
+// Only the detail endpoint returns these
+const DETAIL_FIELDS = ['notesToSubstitute', 'lessonPlanAvailable', 'attachments'];
+const DEFAULT_PAGE_SIZE = 20;
+
+class MockWillSubServer {
+  private options: MockWillSubServerOptions;
+  private keycloak: MockKeycloak;
+  private server: http.Server | null = null;
+  private baseUrl: string = '';
+  private available: MockJob[];
+  private scheduled: MockJob[];
+  private faults: MockFault[] = [];
+  private latencyMs: number;
+  private requests: MockRequestRecord[] = [];
+
+  constructor(options: MockWillSubServerOptions = {}) {
+    this.options = options;
+    this.keycloak = new MockKeycloak({
+      realm: options.realm || 'district',
+      clientId: options.clientId || 'willsub-app',
+      user: { ...DEFAULT_MOCK_USER, ...options.user },
+      accessTokenLifetimeSeconds: options.accessTokenLifetimeSeconds || 300,
+      refreshTokenLifetimeSeconds: options.refreshTokenLifetimeSeconds || 1800
+    });
+
+    const sample = options.availableJobs || options.scheduledJobs ? null : MockWillSubServer.sampleJobs();
+    this.available = (options.availableJobs || sample?.available || []).map(job => ({ ...job }));
+    this.scheduled = (options.scheduledJobs || sample?.scheduled || []).map(job => ({ ...job }));
+    this.latencyMs = options.latencyMs || 0;
+  }
+
+  /**
+   * Start listening; resolves to the baseUrl
+   */
+  public async start(): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+
+    const server = http.createServer((req, res) => this.onRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port || 0, this.options.host || '127.0.0.1', () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${this.options.host || '127.0.0.1'}:${address.port}`;
+    this.keycloak.setBaseUrl(this.baseUrl);
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening and drop open connections
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Realm URL, for authentication.oidc.issuer
+   */
+  public getIssuer(): string {
+    return this.keycloak.getIssuer();
+  }
+
+  public getClientId(): string {
+    return this.options.clientId || 'willsub-app';
+  }
+
+  public getUser(): MockUser {
+    return this.keycloak.getUser();
+  }
+
+  public getAvailableJobs(): MockJob[] {
+    return [...this.available];
+  }
+
+  public getScheduledJobs(): MockJob[] {
+    return [...this.scheduled];
+  }
+
+  public addAvailableJob(job: MockJob): void {
+    this.available.push({ ...job });
+  }
+
+  /**
+   * Another substitute accepts the job: it disappears from the available list
+   * - Returns false if the job is not available
+   */
+  public takeJob(jobId: string | number): boolean {
+    const index = this.available.findIndex(job => String(job.id) === String(jobId));
+    if (index === -1) return false;
+    this.available.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Answer upcoming requests with a failure and/or a delay
+   */
+  public injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault, times: fault.times ?? 1 });
+  }
+
+  public clearFaults(): void {
+    this.faults = [];
+  }
+
+  public setLatency(latencyMs: number): void {
+    this.latencyMs = Math.max(0, latencyMs);
+  }
+
+  /**
+   * Make every access token issued so far invalid
+   */
+  public expireAccessTokens(): void {
+    this.keycloak.expireAccessTokens();
+  }
+
+  /**
+   * End SSO sessions and revoke refresh tokens (the next login must submit the form)
+   */
+  public endSessions(): void {
+    this.keycloak.endSessions();
+  }
+
+  /**
+   * Number of token sets issued (logins plus refreshes)
+   */
+  public getTokensIssued(): number {
+    return this.keycloak.getTokensIssued();
+  }
+
+  /**
+   * Every request served, in order
+   */
+  public getRequests(): MockRequestRecord[] {
+    return [...this.requests];
+  }
+
+  /**
+   * A few jobs over the next school days: three available (one long-term), one scheduled
+   */
+  public static sampleJobs(now: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE): { available: MockJob[]; scheduled: MockJob[] } {
+    const today = SearchWindows.localDate(now, timeZone);
+    const day = (schoolDays: number) => SearchWindows.addSchoolDays(today, schoolDays);
+    const lincoln = { id: 12, title: 'Lincoln High School' };
+    const roosevelt = { id: 14, title: 'Roosevelt Elementary' };
+    const teacher = { id: 3, title: 'Teacher' };
+
+    const job = (id: number, title: string, building: object, dates: string[], extra: MockJob = {}): MockJob => ({
+      id,
+      positionTitle: title,
+      positionType: teacher,
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      status: 'OPEN',
+      longTerm: false,
+      absentEmployee: { id: id + 1000, firstName: 'Alex', lastName: 'Morgan' },
+      schedules: dates.map((date, index) => ({
+        id: id * 10 + index,
+        date,
+        startTime: '07:45',
+        endTime: '15:15',
+        scheduleType: 'FULL_DAY',
+        building
+      })),
+      notesToSubstitute: 'Lesson plans are on the desk.',
+      lessonPlanAvailable: true,
+      attachments: [],
+      ...extra
+    });
+
+    return {
+      available: [
+        job(5101, 'Math Teacher', lincoln, [day(1)]),
+        job(5102, 'Science Teacher', roosevelt, [day(2)], { attachments: [{ id: 9, fileName: 'seating-chart.pdf', contentType: 'application/pdf' }] }),
+        job(5103, 'Art Teacher', roosevelt, [day(3), day(4), day(5)], { longTerm: true, lessonPlanAvailable: false })
+      ],
+      scheduled: [
+        job(5001, 'English Teacher', lincoln, [day(2)], { status: 'ACCEPTED' })
+      ]
+    };
+  }
+
+  private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const request: MockRequest = {
+        method: (req.method || 'GET').toUpperCase(),
+        url: new URL(req.url || '/', this.baseUrl || 'http://127.0.0.1'),
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf-8')
+      };
+
+      this.respond(request)
+        .then(response => this.send(request, res, response))
+        .catch(error => this.send(request, res, { status: 500, body: { message: error instanceof Error ? error.message : String(error) } }));
+    });
+  }
+
+  private async respond(request: MockRequest): Promise<MockResponse> {
+    const fault = this.takeFault(request);
+    const delayMs = this.latencyMs + (fault?.delayMs || 0);
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    if (fault?.status) {
+      const headers: { [key: string]: string } = {};
+      if (fault.retryAfterSeconds !== undefined) {
+        headers['Retry-After'] = String(fault.retryAfterSeconds);
+      }
+      return { status: fault.status, headers, body: fault.body ?? { message: `Injected fault (${fault.status})` } };
+    }
+
+    return this.keycloak.handle(request) || this.handleApi(request);
+  }
+
+  /**
+   * The first injected fault matching the request (used up as it is returned)
+   */
+  private takeFault(request: MockRequest): MockFault | null {
+    const pathname = request.url.pathname;
+    const fault = this.faults.find(candidate => {
+      if (candidate.method && candidate.method.toUpperCase() !== request.method) return false;
+      if (candidate.path === undefined) return pathname.startsWith('/api/');
+      return typeof candidate.path === 'string' ? pathname.includes(candidate.path) : candidate.path.test(pathname);
+    });
+    if (!fault) return null;
+
+    fault.times = (fault.times as number) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    return fault;
+  }
+
+  private handleApi(request: MockRequest): MockResponse {
+    const match = request.url.pathname.match(/^\/api\/substitute-jobs\/([^/]+)(\/accept)?$/);
+    if (!match) {
+      return { status: 404, body: { message: `No route for ${request.method} ${request.url.pathname}` } };
+    }
+
+    const token = String(request.headers['authorization'] || '').replace(/^Bearer\s+/i, '');
+    if (!token || !this.keycloak.isValidAccessToken(token)) {
+      return { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' }, body: { message: 'Unauthorized' } };
+    }
+
+    const userId = request.url.searchParams.get('userId');
+    if (userId !== null && userId !== String(this.keycloak.getUser().userId)) {
+      return { status: 403, body: { message: 'Access denied' } };
+    }
+
+    const [, resource, accept] = match;
+    if (accept) {
+      return request.method === 'POST' ? this.accept(resource, request.body) : { status: 405 };
+    }
+    if (request.method !== 'GET') {
+      return { status: 405 };
+    }
+    if (resource === 'scheduled') {
+      return { status: 200, body: this.page(this.scheduled, request.url.searchParams) };
+    }
+    if (resource === 'available') {
+      return { status: 200, body: this.page(this.filterAvailable(request.url.searchParams), request.url.searchParams) };
+    }
+
+    const job = [...this.available, ...this.scheduled].find(candidate => String(candidate.id) === resource);
+    return job ? { status: 200, body: job } : { status: 404, body: { message: `Job ${resource} not found` } };
+  }
+
+  private filterAvailable(params: URLSearchParams): MockJob[] {
+    const longTerm = params.get('longTerm');
+    const startDate = params.get('startDate');
+    const endDate = params.get('endDate');
+
+    return this.available.filter(job => {
+      if (longTerm !== null && (job.longTerm === true) !== (longTerm === 'true')) return false;
+      if (startDate && (job.endDate || job.startDate) < startDate) return false;
+      if (endDate && job.startDate > endDate) return false;
+      return true;
+    });
+  }
+
+  private accept(jobId: string, body: string): MockResponse {
+    let userId: unknown;
+    try {
+      userId = body ? JSON.parse(body).userId : undefined;
+    } catch {
+      userId = undefined;
+    }
+    if (userId === undefined || userId === null || String(userId) !== String(this.keycloak.getUser().userId)) {
+      return { status: 400, body: { errors: [{ field: 'userId', defaultMessage: 'userId is required and must be your own' }] } };
+    }
+
+    const index = this.available.findIndex(job => String(job.id) === jobId);
+    if (index === -1) {
+      const alreadyOurs = this.scheduled.some(job => String(job.id) === jobId);
+      return { status: 409, body: { message: alreadyOurs ? 'Job already accepted' : 'Job is no longer available' } };
+    }
+
+    const [job] = this.available.splice(index, 1);
+    this.scheduled.push({ ...job, status: 'ACCEPTED' });
+    return { status: 204 };
+  }
+
+  /**
+   * One page in the shape of the real API (Spring Data page)
+   */
+  private page(jobs: MockJob[], params: URLSearchParams): object {
+    const page = Math.max(0, parseInt(params.get('page') || '0', 10) || 0);
+    const size = Math.max(1, parseInt(params.get('size') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE);
+    const totalPages = Math.ceil(jobs.length / size);
+    const content = jobs.slice(page * size, (page + 1) * size).map(job => MockWillSubServer.summary(job));
+
+    return {
+      content,
+      totalElements: jobs.length,
+      totalPages,
+      number: page,
+      size,
+      numberOfElements: content.length,
+      first: page === 0,
+      last: page + 1 >= totalPages
+    };
+  }
+
+  private static summary(job: MockJob): MockJob {
+    const summary = { ...job };
+    for (const field of DETAIL_FIELDS) {
+      delete summary[field];
+    }
+    return summary;
+  }
+
+  private send(request: MockRequest, res: http.ServerResponse, response: MockResponse): void {
+    this.requests.push({ method: request.method, path: request.url.pathname + request.url.search, status: response.status });
+
+    const headers: { [key: string]: string | string[] } = { ...response.headers };
+    let body = '';
+    if (response.body !== undefined && response.status !== 204) {
+      if (typeof response.body === 'string') {
+        body = response.body;
+      } else {
+        body = JSON.stringify(response.body);
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+    res.writeHead(response.status, headers);
+    res.end(body);
+  }
+}
+
+export default MockWillSubServer;
@@ -0,0 +1,182 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import MockWillSubServer from '../MockWillSubServer';
+import ConfigManager from '../../config/ConfigManager';
+import PuppeteerAuthModule from '../../auth/PuppeteerAuthModule';
+import HttpLoginStrategy from '../../auth/HttpLoginStrategy';
+import AuthInterceptor from '../../http/AuthInterceptor';
+import ResilientHttpClient from '../../http/ResilientHttpClient';
+import EndpointRegistry from '../../http/EndpointRegistry';
+import JobsModule from '../../jobs/JobsModule';
+import JobComparisonModule from '../../jobs/JobComparisonModule';
+import JobApplicationModule from '../../jobs/JobApplicationModule';
+
+/**
+ * End-to-end tests against MockWillSubServer
+ *
+ * The real modules talk HTTP to the mock: login (http strategy), token refresh,
+ * paginated fetches, accepting jobs, and the injected failure paths
+ * (401, 409 race, 429, slow responses).
+ */
+
+describe('MockWillSubServer', () => {
+  let server: MockWillSubServer;
+  let baseUrl: string;
+  let tempDir: string;
+  let authModule: PuppeteerAuthModule;
+  let httpClient: ResilientHttpClient;
+  let jobsModule: JobsModule;
+  let applicationModule: JobApplicationModule;
+  let userId: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    server = new MockWillSubServer();
+    baseUrl = await server.start();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'willsub-mock-'));
+
+    const configManager = ConfigManager.getInstance();
+    configManager.loadConfig('./config.json');
+    const config = configManager.getConfig()!;
+    config.baseUrl = baseUrl;
+    config.authentication = {
+      ...config.authentication!,
+      strategy: 'http',
+      oidc: { issuer: server.getIssuer(), clientId: server.getClientId() },
+      diagnostics: { enabled: false }
+    };
+
+    authModule = new PuppeteerAuthModule(path.join(tempDir, 'auth_cache.json'));
+    const { username, password } = server.getUser();
+    const login = await authModule.login(username, password);
+    expect(login.success).toBe(true);
+    userId = login.userId as string;
+
+    const axiosInstance = axios.create();
+    new AuthInterceptor(authModule.getTokenHolder()).install(axiosInstance);
+    httpClient = new ResilientHttpClient(axiosInstance, { timeoutSeconds: 1, retryBaseDelayMs: 10 });
+    const endpoints = new EndpointRegistry({ baseUrl });
+    jobsModule = new JobsModule(httpClient, 1, endpoints, { pageSize: 1 });
+    applicationModule = new JobApplicationModule(endpoints, httpClient);
+  });
+
+  afterEach(async () => {
+    authModule.stopProactiveRefresh();
+    await server.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should log in and run a poll cycle that accepts a job', async () => {
+    expect(userId).toBe(String(server.getUser().userId));
+
+    const scheduled = await jobsModule.fetchScheduledJobs(userId);
+    const available = await jobsModule.fetchAvailableJobs(userId);
+
+    expect(scheduled.jobs.map(job => job.title)).toEqual(['English Teacher']);
+    expect(available.jobs.map(job => job.title)).toEqual(['Math Teacher', 'Science Teacher']);
+
+    const comparison = new JobComparisonModule().compare(scheduled.jobs, available.jobs);
+    expect(comparison.conflicts.map(conflict => conflict.available.title)).toEqual(['Science Teacher']);
+
+    const applied = await applicationModule.applyToJobs(comparison.newOpportunities, userId, false);
+
+    expect(applied.successful).toBe(1);
+    expect(server.getScheduledJobs().map(job => job.id)).toEqual([5001, 5101]);
+    expect(server.getAvailableJobs().map(job => job.id)).toEqual([5102, 5103]);
+
+    const again = await applicationModule.applyToJob(comparison.newOpportunities[0], userId, false);
+    expect(again).toMatchObject({ status: 'failed', statusCode: 409 });
+  });
+
+  it('should serve job details only from the detail endpoint', async () => {
+    const available = await jobsModule.fetchAvailableJobs(userId);
+    const details = await jobsModule.fetchJobDetails(available.jobs[1].id);
+
+    expect(available.jobs[1].raw.notesToSubstitute).toBeUndefined();
+    expect(details.job?.details?.notes).toBe('Lesson plans are on the desk.');
+    expect(details.job?.details?.attachments).toHaveLength(1);
+  });
+
+  it('should answer an accept that lost the race with 409', async () => {
+    const [job] = (await jobsModule.fetchAvailableJobs(userId)).jobs;
+    server.takeJob(job.id);
+
+    const result = await applicationModule.applyToJob(job, userId, false);
+
+    expect(result).toMatchObject({ status: 'failed', statusCode: 409 });
+    expect(result.message).toContain('no longer available');
+  });
+
+  it('should refresh an expired token and replay the request', async () => {
+    server.expireAccessTokens();
+
+    const result = await jobsModule.fetchScheduledJobs(userId);
+
+    expect(result.success).toBe(true);
+    expect(server.getTokensIssued()).toBe(2);
+    expect(server.getRequests().filter(request => request.path.startsWith('/api/')).map(request => request.status)).toEqual([401, 200]);
+  });
+
+  it('should retry after an injected 429', async () => {
+    server.injectFault({ status: 429, path: '/available', retryAfterSeconds: 0 });
+
+    const result = await jobsModule.fetchAvailableJobs(userId);
+
+    expect(result.success).toBe(true);
+    expect(httpClient.getMetrics()['GET /api/substitute-jobs/available'].statusCounts).toMatchObject({ '429': 1 });
+  });
+
+  it('should retry a request that timed out on a slow response', async () => {
+    server.injectFault({ delayMs: 1500, path: '/scheduled' });
+
+    const result = await jobsModule.fetchScheduledJobs(userId);
+
+    expect(result.success).toBe(true);
+    expect(httpClient.getMetrics()['GET /api/substitute-jobs/scheduled'].timeouts).toBe(1);
+  });
+});
+
+describe('MockWillSubServer login page', () => {
+  let server: MockWillSubServer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  const strategyFor = (mock: MockWillSubServer) => new HttpLoginStrategy({
+    issuer: mock.getIssuer(),
+    clientId: mock.getClientId(),
+    redirectUri: `${mock.getBaseUrl()}/`
+  });
+
+  it('should reject a wrong password with Keycloak\'s message', async () => {
+    server = new MockWillSubServer();
+    await server.start();
+
+    await expect(strategyFor(server).authenticate({ username: server.getUser().username, password: 'wrong' }))
+      .rejects.toThrow('Login rejected: Invalid username or password.');
+  });
+
+  it('should ask for a one-time code when the user has a TOTP secret', async () => {
+    const totpSecret = 'JBSWY3DPEHPK3PXP';
+    server = new MockWillSubServer({ user: { totpSecret } });
+    await server.start();
+    const { username, password } = server.getUser();
+
+    const session = await strategyFor(server).authenticate({ username, password, totpSecret });
+
+    expect(session.accessToken).toMatch(/^eyJ/);
+    expect(session.refreshToken).toMatch(/^eyJ/);
+  });
+});
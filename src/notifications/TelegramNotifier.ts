@@ -19,6 +19,7 @@
  */
 
 import axios from 'axios';
+import { SubstituteJob } from '../jobs/JobNormalizer';
 
 export interface TelegramConfig {
   enabled: boolean;
@@ -160,22 +161,32 @@ class TelegramNotifier {
   /**
    * Notify when new matching jobs are found
    */
-  public async notifyNewJobs(jobs: any[]): Promise<void> {
+  public async notifyNewJobs(jobs: SubstituteJob[]): Promise<void> {
     if (!this.notifyOnNewJobs || jobs.length === 0) return;
 
     let text = `🎯 <b>${jobs.length} New Matching Job(s) Found!</b>\n\n`;
 
     const displayJobs = jobs.slice(0, 8);
     displayJobs.forEach((job, i) => {
-      const title = job.positionTitle || job.position || job.positionType?.title || 'Untitled';
-      const building = job.schedules?.[0]?.building?.title || job.schedules?.[0]?.building?.name || 'N/A';
-      const date = job.startDate || job.date || 'N/A';
-      const scheduleType = job.schedules?.[0]?.scheduleType || '';
+      const building = job.building?.title || 'N/A';
+      const date = job.startDate || 'N/A';
+      const scheduleType = job.scheduleType;
 
-      text += `<b>${i + 1}. ${this.escapeHtml(title)}</b>\n`;
+      text += `<b>${i + 1}. ${this.escapeHtml(job.title)}</b>\n`;
       text += `   📍 ${this.escapeHtml(building)}`;
       if (scheduleType) text += ` | 🕐 ${scheduleType}`;
-      text += `\n   📅 ${date}\n\n`;
+      text += `\n   📅 ${date}\n`;
+      if (job.details) {
+        if (job.details.notes) {
+          const notes = job.details.notes.length > 200 ? `${job.details.notes.substring(0, 200)}…` : job.details.notes;
+          text += `   📝 <i>${this.escapeHtml(notes)}</i>\n`;
+        }
+        const extras: string[] = [];
+        if (job.details.lessonPlanAvailable) extras.push('📚 Lesson plan');
+        if (job.details.attachments.length > 0) extras.push(`📎 ${job.details.attachments.length} attachment(s)`);
+        if (extras.length > 0) text += `   ${extras.join(' | ')}\n`;
+      }
+      text += '\n';
     });
 
     if (jobs.length > 8) {
@@ -188,17 +199,32 @@ class TelegramNotifier {
   /**
    * Notify on authentication errors
    */
-  public async notifyAuthError(errorMessage: string): Promise<void> {
+  public async notifyAuthError(errorMessage: string, diagnosticsPath?: string): Promise<void> {
     if (!this.notifyOnErrors) return;
 
     const text = `🔴 <b>Authentication Error</b>\n\n`
       + `The automation failed to log in:\n`
       + `<code>${this.escapeHtml(errorMessage)}</code>\n\n`
+      + (diagnosticsPath ? `🩺 Diagnostics saved to <code>${this.escapeHtml(diagnosticsPath)}</code>\n\n` : '')
       + `⚠️ Job monitoring is paused until this is resolved.`;
 
     await this.sendMessage({ text });
   }
 
+  /**
+   * Notify once when logins are paused after repeated failures
+   */
+  public async notifyLoginPaused(reason: string): Promise<void> {
+    if (!this.notifyOnErrors) return;
+
+    const text = `⛔ <b>Polling Paused</b>\n\n`
+      + `Logins were stopped to avoid locking the WillSub account:\n`
+      + `<code>${this.escapeHtml(reason)}</code>\n\n`
+      + `🔓 Fix the credentials, then run with <code>--clear-login-lockout</code> to resume.`;
+
+    await this.sendMessage({ text });
+  }
+
   /**
    * Notify when auth token is refreshed (new JWT obtained)
    */